@@ -0,0 +1,99 @@
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fixtureFetcher, importJobDescription } from "@/lib/jd/fetcher";
+import type { GenerateRequest, LlmProvider } from "@/lib/llm";
+import { POST } from "./route";
+
+// Replies in order, one per call, so a test can hand the route broken blueprints
+class ScriptedProvider implements LlmProvider {
+  readonly name = "scripted";
+  requests: GenerateRequest[] = [];
+
+  constructor(private replies: string[]) {}
+
+  async generate(req: GenerateRequest) {
+    this.requests.push(req);
+    return { text: this.replies[Math.min(this.requests.length, this.replies.length) - 1], model: "scripted" };
+  }
+
+  async *stream(): AsyncGenerator<string> {}
+
+  async listModels() {
+    return [];
+  }
+}
+
+let scripted: ScriptedProvider | null = null;
+
+vi.mock("@/lib/llm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/llm")>();
+  return { ...actual, resolveLlm: () => (scripted ? { ok: true, llm: scripted } : actual.resolveLlm()) };
+});
+
+const fixtures = fixtureFetcher(path.join(__dirname, "../../../fixtures/jd"));
+
+const VALID = JSON.stringify({
+  role_focus: ["Payments", "Reliability", "Mentoring"],
+  likely_interview_type: "behavioral_technical",
+  risk_gaps: ["No payments background"],
+  company_notes: ["Small-business focus"],
+  sample_questions: [
+    { type: "behavioral", question: "Tell me about an outage you owned." },
+    { type: "technical", question: "How would you make payouts idempotent?" },
+    { type: "technical", question: "How would you shard a ledger?" },
+  ],
+});
+
+const INPUT = { company: "Acme", resumeText: "Backend engineer, 6 years of Go.", jobDescription: "Senior Backend Engineer" };
+
+function post(body: unknown) {
+  return POST(new Request("http://localhost/api/blueprint", { method: "POST", body: JSON.stringify(body) }));
+}
+
+describe("POST /api/blueprint", () => {
+  beforeEach(() => vi.stubEnv("LLM_PROVIDER", "fake"));
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    scripted = null;
+  });
+
+  it("builds a blueprint from a saved posting with the fake provider", async () => {
+    const jd = await importJobDescription("https://jobs.example.com/eng/123", fixtures);
+    const res = await post({ company: "Acme", resumeText: "Backend engineer, 6 years of Go and PostgreSQL.", jd });
+
+    expect(res.status).toBe(200);
+    const { blueprint } = await res.json();
+    expect(blueprint.likely_interview_type).toBe("behavioral_technical");
+    expect(blueprint.sample_questions.length).toBeGreaterThan(0);
+  });
+
+  it("rejects a jd that isn't the structured result of /api/jd", async () => {
+    const res = await post({ company: "Acme", resumeText: "Backend engineer", jd: { title: "Engineer" } });
+    expect(res.status).toBe(400);
+  });
+
+  it("re-prompts with the validation errors and keeps the repaired blueprint", async () => {
+    const broken = JSON.stringify({ ...JSON.parse(VALID), likely_interview_type: "mixed" });
+    scripted = new ScriptedProvider([broken, VALID]);
+
+    const res = await post(INPUT);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).blueprint.role_focus).toEqual(["Payments", "Reliability", "Mentoring"]);
+    expect(scripted.requests.map((r) => r.task)).toEqual(["blueprint", "blueprint_repair"]);
+    expect(scripted.requests[1].prompt).toContain("- likely_interview_type: must be one of");
+    expect(scripted.requests[1].prompt).toContain(broken);
+  });
+
+  it("gives up with a 422 naming the fields once the repairs run out", async () => {
+    scripted = new ScriptedProvider(["not json at all", JSON.stringify({ role_focus: "Payments" })]);
+
+    const res = await post(INPUT);
+    const data = await res.json();
+
+    expect(res.status).toBe(422);
+    expect(scripted.requests.map((r) => r.task)).toEqual(["blueprint", "blueprint_repair", "blueprint_repair"]);
+    expect(data.fields).toContainEqual({ field: "role_focus", message: "must be an array of strings" });
+    expect(data.raw).toBe(JSON.stringify({ role_focus: "Payments" }));
+  });
+});
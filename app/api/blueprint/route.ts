@@ -1,107 +1,59 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-
-type InterviewType = "behavioral_technical" | "behavioral_case";
-
-type Blueprint = {
-  role_focus: string[];
-  likely_interview_type: InterviewType;
-  risk_gaps: string[];
-  company_notes: string[];
-  sample_questions: {
-    type: "behavioral" | "technical" | "case";
-    question: string;
-  }[];
-};
-
-function safeJsonParse<T>(
-  raw: string
-): { ok: true; data: T } | { ok: false; error: string } {
-  try {
-    const start = raw.indexOf("{");
-    const end = raw.lastIndexOf("}");
-    const sliced = start !== -1 && end !== -1 ? raw.slice(start, end + 1) : raw;
-    return { ok: true, data: JSON.parse(sliced) as T };
-  } catch (e: any) {
-    return { ok: false, error: e?.message ?? "Failed to parse JSON" };
-  }
+import { Blueprint, FieldError, validateBlueprint } from "@/lib/blueprint";
+import { resolveLlm, safeJsonParse } from "@/lib/llm";
+import { isStructuredJd, jdForPrompt } from "@/lib/jd/types";
+import { detectSections, isStructuredResume, resumeForPrompt } from "@/lib/resume/sections";
+
+// how many times we re-prompt with the validation errors before giving up with a 422
+const MAX_REPAIR_ATTEMPTS = 2;
+
+function checkBlueprint(raw: string): { ok: true; blueprint: Blueprint } | { ok: false; errors: FieldError[] } {
+  const parsed = safeJsonParse<unknown>(raw);
+  if (!parsed.ok) return { ok: false, errors: [{ field: "$", message: `not valid JSON (${parsed.error})` }] };
+  return validateBlueprint(parsed.data);
 }
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
-}
+function repairPrompt(original: string, raw: string, errors: FieldError[]) {
+  return `
+${original}
 
-async function generateWithRetry(ai: GoogleGenAI, model: string, prompt: string) {
-  // retries help with 503 overload + 429 burst limits
-  const maxRetries = 3;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      const result = await ai.models.generateContent({
-        model,
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-      });
-
-      // @google/genai returns text() (function) in many versions
-      const raw =
-        typeof (result as any)?.text === "function"
-          ? (result as any).text()
-          : (result as any)?.text ?? "";
-
-      return { ok: true as const, raw };
-    } catch (err: any) {
-      const status = err?.status ?? err?.code;
-      const msg = err?.message ?? "";
-
-      // If model id is wrong (404), do NOT retry this model.
-      if (status === 404) return { ok: false as const, raw: "", fatal: true, err };
-
-      // Retry-after handling (429 quota / rate limit)
-      const match = msg.match(/retry in\s+([\d.]+)s/i);
-      const waitSeconds = match ? Number(match[1]) : 2 + attempt * 2;
-
-      if (status === 429 || status === 503) {
-        if (attempt === maxRetries) return { ok: false as const, raw: "", fatal: false, err };
-        await sleep(Math.min(30, waitSeconds) * 1000);
-        continue;
-      }
-
-      return { ok: false as const, raw: "", fatal: true, err };
-    }
-  }
+Your previous output did not match the schema.
+
+PREVIOUS OUTPUT:
+${raw}
 
-  return { ok: false as const, raw: "", fatal: false, err: new Error("Retry loop exhausted") };
+VALIDATION ERRORS:
+${errors.map((e) => `- ${e.field}: ${e.message}`).join("\n")}
+
+Fix every error above and return the corrected blueprint. OUTPUT JSON ONLY.
+`.trim();
 }
 
 export async function POST(req: Request) {
   try {
-    const { resumeText, jobDescription, company } = await req.json();
+    const { resumeText, resume, jobDescription, jd, company } = await req.json();
 
-    if (!resumeText || !jobDescription || !company) {
+    if ((!resumeText && !resume) || (!jobDescription && !jd) || !company) {
       return NextResponse.json(
-        { error: "Missing inputs: resumeText, jobDescription, company" },
+        { error: "Missing inputs: resumeText (or resume), jobDescription (or jd), company" },
         { status: 400 }
       );
     }
-
-    const apiKey =  process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "Missing or GEMINI_API_KEY in .env.local" },
-        { status: 500 }
-      );
+    if (resume !== undefined && !isStructuredResume(resume)) {
+      return NextResponse.json({ error: "resume must be the structured result of /api/resume" }, { status: 400 });
+    }
+    if (jd !== undefined && !isStructuredJd(jd)) {
+      return NextResponse.json({ error: "jd must be the structured result of /api/jd" }, { status: 400 });
     }
 
-    const ai = new GoogleGenAI({ apiKey });
+    // Uploaded resumes arrive already sectioned; pasted text gets the same section detection here.
+    const structuredResume = resume ?? detectSections(resumeText, "text");
 
-    // Use Gemini 3 Flash API model name (preview) first.
-    // Fallbacks incase a judge’s environment doesn’t have the preview enabled.
-    const modelCandidates = [
-      process.env.GEMINI_MODEL, // allow override
-      "gemini-3-flash-preview", 
-      "gemini-2.0-flash",
-      "gemini-1.5-flash",
-    ].filter(Boolean) as string[];
+    const resolved = resolveLlm();
+    if (!resolved.ok) {
+      return NextResponse.json({ error: resolved.error }, { status: 500 });
+    }
+    const { llm } = resolved;
 
     const prompt = `
 You are Interviewee — an interview orchestration engine.
@@ -115,11 +67,11 @@ INPUTS
 Company:
 ${company}
 
-Resume:
-${resumeText}
+Resume (sectioned):
+${resumeForPrompt(structuredResume)}
 
-Job Description:
-${jobDescription}
+Job Description${jd ? " (sectioned)" : ""}:
+${jd ? jdForPrompt(jd) : jobDescription}
 
 OUTPUT JSON ONLY. No markdown. No commentary.
 
@@ -137,50 +89,23 @@ SCHEMA (exact):
 }
 `.trim();
 
-    let lastErr: any = null;
-    let raw = "";
-
-    for (const model of modelCandidates) {
-      const out = await generateWithRetry(ai, model, prompt);
-
-      if (out.ok) {
-        raw = out.raw;
-        break;
-      }
-
-      lastErr = out.err;
-
-      // If it's 404 model-not-found, try next model candidate
-      if (out.fatal === false) continue;
-      if (out.fatal === true && (out.err?.status ?? out.err?.code) === 404) continue;
-
-      // Other fatal errors: stop early
-      return NextResponse.json(
-        { error: out.err?.message ?? "Blueprint generation failed" },
-        { status: 500 }
-      );
-    }
+    // LlmError (retries + model fallback exhausted) lands in the catch below as a 500
+    let { text: raw } = await llm.generate({ task: "blueprint", prompt });
+    let checked = checkBlueprint(raw);
 
-    if (!raw) {
-      return NextResponse.json(
-        {
-          error: "No model succeeded (check GEMINI_MODEL / model availability).",
-          detail: lastErr?.message ?? String(lastErr),
-        },
-        { status: 500 }
-      );
+    for (let attempt = 0; !checked.ok && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+      raw = (await llm.generate({ task: "blueprint_repair", prompt: repairPrompt(prompt, raw, checked.errors) })).text;
+      checked = checkBlueprint(raw);
     }
 
-    const parsed = safeJsonParse<Blueprint>(raw);
-
-    if (!parsed.ok) {
+    if (!checked.ok) {
       return NextResponse.json(
-        { error: "Invalid JSON from model", raw, parseError: parsed.error },
-        { status: 200 }
+        { error: "Blueprint failed validation after repair", fields: checked.errors, raw },
+        { status: 422 }
       );
     }
 
-    return NextResponse.json({ blueprint: parsed.data });
+    return NextResponse.json({ blueprint: checked.blueprint });
   } catch (err: any) {
     console.error("Blueprint API error:", err);
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { MAX_SOURCE_CHARS, transpileSolution } from "@/lib/coding/transpile";
+
+// TypeScript → JavaScript for the in-browser test runner. Nothing is executed here.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const code: unknown = body?.code;
+
+    if (typeof code !== "string" || !code.trim()) {
+      return NextResponse.json({ error: "Missing input: code" }, { status: 400 });
+    }
+    if (code.length > MAX_SOURCE_CHARS) {
+      return NextResponse.json({ error: "Solution is too long (50,000 characters max)." }, { status: 413 });
+    }
+
+    const result = transpileSolution(code);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.errors.join("\n"), errors: result.errors }, { status: 422 });
+    }
+    return NextResponse.json({ js: result.js });
+  } catch (err) {
+    console.error("Transpile API error:", err);
+    return NextResponse.json({ error: "Transpile failed" }, { status: 500 });
+  }
+}
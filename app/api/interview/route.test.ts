@@ -0,0 +1,232 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Blueprint } from "@/lib/blueprint";
+import { getSessionStore } from "@/lib/sessions/store";
+import { POST } from "./route";
+
+const BLUEPRINT: Blueprint = {
+  role_focus: ["System design", "Debugging", "Ownership"],
+  likely_interview_type: "behavioral_technical",
+  risk_gaps: ["Limited evidence of measurable impact", "No example of leading without authority"],
+  company_notes: ["Expect values-based questions."],
+  sample_questions: [
+    { type: "behavioral", question: "Tell me about a time you disagreed with a stakeholder." },
+    { type: "behavioral", question: "Tell me about a project you owned end to end." },
+    { type: "technical", question: "How would you design a rate limiter?" },
+  ],
+};
+
+const RESUME = "Managed 8 engineers across 3 teams at Acme.\nCut checkout latency by 30% at Acme in 2023.";
+
+const LONG_ANSWER =
+  "At Acme our checkout was timing out during sales, and I was responsible for fixing it before Black Friday. " +
+  "I profiled the service, found an N+1 query in the cart, batched it, and added a cache in front of pricing. " +
+  "I also set up alerts on p95 latency so we would catch regressions early. Latency dropped by 30% and the sale ran without incident.";
+
+async function post(body: Record<string, unknown>) {
+  const res = await POST(
+    new Request("http://localhost/api/interview", {
+      method: "POST",
+      body: JSON.stringify({ company: "Acme", mode: "behavioral", blueprint: BLUEPRINT, ...body }),
+    })
+  );
+  return { status: res.status, data: await res.json() };
+}
+
+async function start(extra: Record<string, unknown> = {}) {
+  const { status, data } = await post({ step: "start", minutes: 15, ...extra });
+  expect(status).toBe(200);
+  return data;
+}
+
+describe("POST /api/interview", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "interview-route-"));
+    vi.stubEnv("LLM_PROVIDER", "fake");
+    vi.stubEnv("SESSIONS_DIR", dir);
+  });
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe("start", () => {
+    it("plans the interview and asks the first planned question", async () => {
+      const data = await start();
+
+      expect(data.plan.questions.length).toBeGreaterThan(1);
+      expect(data.progress).toEqual({ questionIndex: 0, followupsAsked: 0, done: false });
+      expect(data.interviewer).toBe(data.plan.questions[0].question);
+    });
+
+    it("rejects an invalid blueprint, naming the fields", async () => {
+      const { status, data } = await post({ step: "start", blueprint: { ...BLUEPRINT, role_focus: [] } });
+      expect(status).toBe(400);
+      expect(data.fields).toContainEqual(expect.objectContaining({ field: "role_focus" }));
+    });
+
+    it("still starts from an older blueprint with more than five role_focus skills", async () => {
+      const role_focus = ["A", "B", "C", "D", "E", "F"];
+      const { status } = await post({ step: "start", blueprint: { ...BLUEPRINT, role_focus } });
+      expect(status).toBe(200);
+    });
+
+    it("streams the question as server-sent events", async () => {
+      const res = await POST(
+        new Request("http://localhost/api/interview", {
+          method: "POST",
+          body: JSON.stringify({ step: "start", company: "Acme", blueprint: BLUEPRINT, stream: true }),
+        })
+      );
+      expect(res.headers.get("content-type")).toBe("text/event-stream");
+      const text = await res.text();
+      expect(text).toMatch(/^event: token/m);
+      expect(text).toMatch(/^event: done/m);
+    });
+  });
+
+  describe("followup", () => {
+    it("scores the answer and drills into a short one", async () => {
+      const { plan, progress, interviewer } = await start();
+      const { status, data } = await post({
+        step: "followup",
+        plan,
+        progress,
+        transcript: `INTERVIEWER: ${interviewer}`,
+        candidateAnswer: "I fixed a slow checkout.",
+      });
+
+      expect(status).toBe(200);
+      expect(data.decision.action).toBe("followup");
+      expect(data.progress).toEqual({ questionIndex: 0, followupsAsked: 1, done: false });
+      expect(data.scorecard.mode).toBe("behavioral");
+      expect(typeof data.scorecard.scores.overall).toBe("number");
+      expect(Object.keys(data.scorecard.star)).toEqual(["situation", "task", "action", "result"]);
+      expect(data.coach.mode).toBe("behavioral");
+    });
+
+    it("moves on to the next planned question after a full answer", async () => {
+      const { plan, progress, interviewer } = await start();
+      const { data } = await post({
+        step: "followup",
+        plan,
+        progress,
+        transcript: `INTERVIEWER: ${interviewer}`,
+        candidateAnswer: LONG_ANSWER,
+      });
+
+      expect(data.decision.action).toBe("next");
+      expect(data.progress.questionIndex).toBe(1);
+      expect(data.interviewer).toContain(plan.questions[1].question);
+    });
+
+    it("asks the candidate to verify a claim that contradicts the resume", async () => {
+      const { plan, progress, interviewer } = await start();
+      const { data } = await post({
+        step: "followup",
+        plan,
+        progress,
+        resumeText: RESUME,
+        transcript: `INTERVIEWER: ${interviewer}`,
+        candidateAnswer: "I managed 20 engineers across 3 teams at Acme.",
+      });
+
+      expect(data.coach.intent).toBe("Follow-up checks a claim against your resume.");
+      expect(data.interviewer).toContain("You said 20; your resume says 8.");
+    });
+
+    it("remembers the conversation of a saved session", async () => {
+      const session = await getSessionStore().create({
+        company: "Acme",
+        resumeText: RESUME,
+        jobDescription: "",
+        blueprint: BLUEPRINT,
+        mode: "behavioral",
+      });
+      const { plan, progress, interviewer } = await start({ sessionId: session.id });
+      await post({ step: "followup", sessionId: session.id, plan, progress, candidateAnswer: "I fixed a slow checkout." });
+
+      const { conversation } = (await getSessionStore().get(session.id))!;
+      expect(conversation!.turns.map((t) => t.role)).toEqual(["interviewer", "candidate", "interviewer"]);
+      expect(conversation!.turns[0].content).toBe(interviewer);
+      expect(conversation!.turns[1].content).toBe("I fixed a slow checkout.");
+    });
+
+    it("404s for a session that doesn't exist", async () => {
+      const { status } = await post({
+        step: "followup",
+        sessionId: "00000000-0000-0000-0000-000000000000",
+        candidateAnswer: "Hello",
+      });
+      expect(status).toBe(404);
+    });
+
+    it("refuses to go past the end of the plan", async () => {
+      const { plan } = await start();
+      const { status } = await post({
+        step: "followup",
+        plan,
+        progress: { questionIndex: plan.questions.length - 1, followupsAsked: 0, done: true },
+        transcript: "INTERVIEWER: Hi",
+        candidateAnswer: LONG_ANSWER,
+      });
+      expect(status).toBe(409);
+    });
+  });
+
+  describe("finish", () => {
+    it("reports on every scored answer", async () => {
+      const { plan, progress, interviewer } = await start();
+      const { data: followup } = await post({
+        step: "followup",
+        plan,
+        progress,
+        transcript: `INTERVIEWER: ${interviewer}`,
+        candidateAnswer: LONG_ANSWER,
+      });
+
+      const turns = [
+        { role: "interviewer", content: interviewer },
+        { role: "candidate", content: LONG_ANSWER },
+        { role: "interviewer", content: followup.interviewer },
+      ];
+      const { status, data } = await post({
+        step: "finish",
+        turns,
+        scorecards: [{ turnIndex: 1, scorecard: followup.scorecard }],
+      });
+
+      expect(status).toBe(200);
+      expect(data.report.questions).toHaveLength(1);
+      expect(data.report.averages.overall).toBe(followup.scorecard.scores.overall);
+      expect(data.report.gaps.length).toBeGreaterThan(0);
+      expect(data.report.practicePlan.length).toBeGreaterThan(0);
+    });
+
+    it("rejects scorecards that are malformed or don't score a candidate turn", async () => {
+      const turns = [
+        { role: "interviewer", content: "Tell me about a project you owned end to end." },
+        { role: "candidate", content: LONG_ANSWER },
+      ];
+      const { scorecard } = (await post({
+        step: "followup",
+        transcript: `INTERVIEWER: ${turns[0].content}`,
+        candidateAnswer: LONG_ANSWER,
+      })).data;
+
+      for (const scorecards of [[{ turnIndex: 1, scorecard: { ...scorecard, gaps: undefined } }], [{ turnIndex: 0, scorecard }]]) {
+        const { status } = await post({ step: "finish", turns, scorecards });
+        expect(status).toBe(400);
+      }
+    });
+
+    it("needs at least one scored answer", async () => {
+      const { status } = await post({ step: "finish", turns: [], scorecards: [] });
+      expect(status).toBe(400);
+    });
+  });
+});
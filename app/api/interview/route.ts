@@ -1,112 +1,482 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
+import { Blueprint, validateBlueprint } from "@/lib/blueprint";
+import { LlmProvider, LlmTask, resolveLlm, safeJsonParse } from "@/lib/llm";
+import {
+  advance,
+  allowedActions,
+  defaultAnswerMode,
+  fallbackPlan,
+  heuristicDecision,
+  InterviewPlan,
+  isInterviewPlan,
+  isPlanLength,
+  isPlanProgress,
+  mergePlanQuestions,
+  PLAN_START,
+  PlanAction,
+  PlanDecision,
+  PlanLength,
+  PlanProgress,
+  segmentModes,
+} from "@/lib/interview/plan";
+import {
+  HIRE_SIGNALS,
+  heuristicReport,
+  HireSignal,
+  InterviewReport,
+  matchRiskGap,
+  PracticeItem,
+  ReportGap,
+} from "@/lib/interview/report";
+import { checkMath } from "@/lib/case/math";
+import { EXHIBIT_SCHEMA, mergeExhibits } from "@/lib/case/exhibits";
+import { describeExhibits, describeMath, MAX_SCRATCHPAD_CHARS } from "@/lib/case/types";
+import { codingPlan, mergeProblems } from "@/lib/coding/problems";
+import { CodeRunSummary, describeRun, isCodeRun, summarizeRun } from "@/lib/coding/types";
+import { isAnswerTiming } from "@/lib/delivery/types";
+import {
+  checkConsistency,
+  ClaimSources,
+  flaggedChecks,
+  sourceExcerpt,
+  verificationQuestion,
+} from "@/lib/interview/consistency";
+import {
+  applySummary,
+  ConversationState,
+  emptyConversation,
+  gapQuestion,
+  heuristicSummary,
+  memoryNotes,
+  promptTranscript,
+  recordAnswer,
+  recordQuestion,
+  seedConversation,
+  truncateTranscript,
+  turnsToSummarize,
+  unprobedGaps,
+} from "@/lib/interview/memory";
+import { interviewerRole, InterviewStyle, isInterviewStyle, levelBar, styleRules } from "@/lib/interview/style";
+import { Coach, Mode, SESSION_MODES, SessionMode, Turn } from "@/lib/interview/types";
+import { AnswerContext, heuristicScorecard, scoreAnswer, stringList } from "@/lib/scoring";
+import { coverageLine, rubricFor, scoreOf } from "@/lib/scoring/rubrics";
+import { getSessionStore, isSessionId } from "@/lib/sessions/store";
+import { isScoredAnswer, isTurn, ScoredAnswer } from "@/lib/sessions/types";
+import { encodeSse } from "@/lib/sse";
+
+type PlanInput = {
+  company: string;
+  blueprint: Blueprint;
+  modes: Mode[];
+  minutes: PlanLength;
+  style?: InterviewStyle;
+};
 
-type Mode = "behavioral" | "technical" | "case";
+// Interview plan: the slots (type, count, depth) are fixed by the length; the model only
+// writes the questions. Any slot it gets wrong keeps the blueprint/generic question.
+async function buildPlan(llm: LlmProvider, input: PlanInput): Promise<InterviewPlan> {
+  const { company, blueprint, modes, minutes, style } = input;
+  const base = fallbackPlan(blueprint, modes, minutes);
+
+  const prompt = `
+You are planning a ${minutes}-minute interview loop for ${company}.
+
+Blueprint:
+- role_focus: ${blueprint.role_focus.join(", ")}
+- risk_gaps: ${blueprint.risk_gaps.join(", ")}
+- sample_questions:
+${blueprint.sample_questions.map((q) => `  - (${q.type}) ${q.question}`).join("\n")}
+
+Write exactly ${base.questions.length} main questions, one per slot, in this order:
+${base.questions.map((q, i) => `${i + 1}. ${q.type} question testing "${q.focus}"`).join("\n")}
+
+Rules:
+- Each question is 1–2 sentences and matches its slot's type.
+- Cover different role_focus skills; probe the risk_gaps at least once.
+- followups is how many follow-ups the question deserves (0–${base.questions[0]?.maxFollowups ?? 1}).${
+    style ? `\n- Pitch every question at this level. ${levelBar(style)}` : ""
+  }
 
-type Scorecard = {
-  mode: Mode;
-  star: {
-    situation: { present: boolean; evidence: string };
-    task: { present: boolean; evidence: string };
-    action: { present: boolean; evidence: string };
-    result: { present: boolean; evidence: string };
-  };
-  scores: {
-    overall: number;
-    clarity: number;
-    structure: number;
-    impact: number;
-    roleFit: number;
-  };
-  strengths: string[];
-  gaps: string[];
-  rewrite: {
-    improvedAnswer: string;
-    bulletsToAdd: string[];
-  };
-};
+OUTPUT JSON ONLY. No markdown. No commentary.
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
+SCHEMA (exact):
+{
+  "questions": [{ "question": "...", "focus": "role_focus skill", "followups": 0 }]
 }
+`.trim();
 
-async function generateWithRetry(ai: GoogleGenAI, model: string, text: string) {
-  const maxRetries = 2;
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      const result = await ai.models.generateContent({
-        model,
-        contents: [{ role: "user", parts: [{ text }] }],
-      });
+  try {
+    const { text } = await llm.generate({ task: "interview_plan", prompt });
+    const parsed = safeJsonParse<{ questions?: unknown }>(text);
+    return parsed.ok ? mergePlanQuestions(base, parsed.data.questions) : base;
+  } catch {
+    return base;
+  }
+}
 
-      const raw =
-        typeof (result as any)?.text === "function"
-          ? (result as any).text()
-          : (result as any)?.text ?? "";
-
-      return { ok: true as const, raw };
-    } catch (err: any) {
-      const status = err?.status ?? err?.code;
-      const msg = err?.message ?? "";
-
-      // 404 model name wrong -> don't retry this model
-      if (status === 404) return { ok: false as const, fatal: true, err };
-
-      // 429/503 -> backoff a bit
-      if (status === 429 || status === 503) {
-        if (attempt === maxRetries) return { ok: false as const, fatal: false, err };
-        const match = msg.match(/retry in\s+([\d.]+)s/i);
-        const waitS = match ? Number(match[1]) : 2 + attempt * 2;
-        await sleep(Math.min(20, waitS) * 1000);
-        continue;
-      }
+// Coding plan: the bank fixes the slots; the model may write fresh problems with their own
+// hidden tests. A problem that fails validation keeps the bank problem in its slot.
+async function buildCodingPlan(llm: LlmProvider, input: Omit<PlanInput, "modes">): Promise<InterviewPlan> {
+  const { company, blueprint, minutes, style } = input;
+  const base = codingPlan(blueprint, minutes);
+
+  const prompt = `
+You are preparing a ${minutes}-minute live coding interview for ${company}.
+
+Blueprint:
+- role_focus: ${blueprint.role_focus.join(", ")}
+- risk_gaps: ${blueprint.risk_gaps.join(", ")}
+
+Write exactly ${base.questions.length} self-contained coding problems, easiest first, each solvable in
+JavaScript in about ${Math.round(minutes / base.questions.length) - 5} minutes as a single pure function.
+- params are the function's argument names; every test's args has one JSON value per param.
+- examples (2) are shown to the candidate; tests (4–6) are hidden and must cover edge cases
+  (empty input, duplicates, negatives, boundaries).
+- expected is the exact JSON return value. Only one correct answer per test.${
+    style ? `\n- Pitch the difficulty at this level. ${levelBar(style)}` : ""
+  }
 
-      return { ok: false as const, fatal: true, err };
-    }
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{
+  "problems": [{
+    "title": "...",
+    "statement": "2–3 sentences",
+    "functionName": "camelCase",
+    "params": ["..."],
+    "examples": [{ "args": [], "expected": null }],
+    "tests": [{ "args": [], "expected": null }]
+  }]
+}
+`.trim();
+
+  try {
+    const { text } = await llm.generate({ task: "coding_problem", prompt });
+    const parsed = safeJsonParse<{ problems?: unknown }>(text);
+    return parsed.ok ? mergeProblems(base, parsed.data.problems) : base;
+  } catch {
+    return base;
   }
+}
+
+// Case exhibits: the model writes the data for each case question; a question whose exhibits
+// fail validation is swapped for a bank case that has its own.
+async function buildCaseExhibits(llm: LlmProvider, input: { company: string; plan: InterviewPlan }): Promise<InterviewPlan> {
+  const { company, plan } = input;
+  const cases = plan.questions.filter((q) => q.type === "case");
+  if (!cases.length) return plan;
+
+  const prompt = `
+You are preparing the case interview exhibits for ${company}.
+
+Write 1–2 exhibits for each case question below, in order. Exhibits are the data a candidate
+would be handed: small tables or simple bar/line charts with realistic, internally consistent numbers
+that reward a short calculation (growth, share, margin, market size).
+${cases.map((q, i) => `${i + 1}. ${q.question}`).join("\n")}
+
+Rules:
+- The first column holds labels; every other column is numeric (charts need numbers only).
+- At most 6 rows and 4 columns per exhibit. Put units in "unit", not in the cells.
 
-  return { ok: false as const, fatal: false, err: new Error("Retry exhausted") };
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{
+  "cases": [{ "exhibits": [
+    ${EXHIBIT_SCHEMA}
+  ] }]
 }
+`.trim();
 
-function safeJsonParse<T>(raw: string): { ok: true; data: T } | { ok: false; error: string } {
   try {
-    const start = raw.indexOf("{");
-    const end = raw.lastIndexOf("}");
-    const sliced = start !== -1 && end !== -1 ? raw.slice(start, end + 1) : raw;
-    return { ok: true, data: JSON.parse(sliced) as T };
-  } catch (e: any) {
-    return { ok: false, error: e?.message ?? "Failed to parse JSON" };
+    const { text } = await llm.generate({ task: "case_exhibits", prompt });
+    const parsed = safeJsonParse<{ cases?: unknown }>(text);
+    return mergeExhibits(plan, parsed.ok ? parsed.data.cases : null);
+  } catch {
+    return mergeExhibits(plan, null);
   }
 }
 
-// super lightweight STAR detector (no model needed)
-function starDetect(answer: string) {
-  const t = (answer || "").toLowerCase();
-  const hasSituation = /(when|at the time|in my role|we had|the context|situation)/i.test(answer);
-  const hasTask = /(my task|goal|responsible for|i needed to|objective)/i.test(answer);
-  const hasAction = /(i did|i led|i built|i analyzed|i created|i implemented|i coordinated|i communicated)/i.test(answer);
-  const hasResult = /(result|impact|increased|reduced|improved|grew|decreased|%|percent|\d+)/i.test(answer);
+type DecisionInput = AnswerContext & {
+  company: string;
+  style?: InterviewStyle;
+  plan: InterviewPlan;
+  progress: PlanProgress;
+  transcript: string;
+  candidateAnswer: string;
+};
+
+// Whether the interviewer drills into the current question or moves on. Only the actions
+// the plan still allows are offered; anything else falls back to the heuristic.
+async function decideNext(llm: LlmProvider, input: DecisionInput): Promise<PlanDecision> {
+  const { company, style, plan, progress, transcript, candidateAnswer, codeRun, scratchpad, exhibits, claimSources } =
+    input;
+  const actions = allowedActions(plan, progress);
+  const current = plan.questions[progress.questionIndex];
+  const doubt = flaggedChecks(claimSources ? checkConsistency(candidateAnswer, claimSources) : null)[0];
+  const fallback = () =>
+    heuristicDecision(
+      plan,
+      progress,
+      heuristicScorecard(current.type, candidateAnswer, { codeRun, scratchpad, exhibits }).scores.overall,
+      style,
+      !!doubt
+    );
+  const math = current.type === "case" ? checkMath(`${candidateAnswer}\n${scratchpad ?? ""}`, exhibits) : null;
+
+  if (actions.length === 1) return fallback();
+
+  const prompt = `
+${interviewerRole(company, style)} Decide what to do after the candidate's answer.
+Mode: ${current.type.toUpperCase()}.${styleRules(style, "followup")}
+
+Current planned question (${progress.questionIndex + 1} of ${plan.questions.length}, testing "${current.focus}"):
+${current.question}
+Follow-ups already asked on it: ${progress.followupsAsked} of ${current.maxFollowups}.
+
+Transcript:
+${transcript}
+
+Candidate's latest answer:
+"""
+${candidateAnswer}
+"""
+${codeRun ? `\nTest results for the submitted code: ${describeRun(codeRun)}.\n` : ""}${
+    math?.checked ? `\nArithmetic check: ${describeMath(math)}.\n` : ""
+  }${doubt ? `\nResume check: ${doubt.note} A follow-up should verify it.\n` : ""}
+Allowed actions: ${actions.join(", ")}
+- followup: the answer is vague, unverified or missing something the question tests
+- next / end: you have enough signal on this question
+
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{ "action": ${actions.map((a) => `"${a}"`).join(" | ")}, "reason": "one short sentence" }
+`.trim();
+
+  try {
+    const { text } = await llm.generate({ task: "plan_decision", prompt });
+    const parsed = safeJsonParse<{ action?: string; reason?: unknown }>(text);
+    if (!parsed.ok || !actions.includes(parsed.data.action as PlanAction)) return fallback();
+    return {
+      action: parsed.data.action as PlanAction,
+      reason: typeof parsed.data.reason === "string" && parsed.data.reason.trim() ? parsed.data.reason.trim() : "",
+    };
+  } catch {
+    return fallback();
+  }
+}
+
+// Folds older turns into the running summary once the transcript gets long. The model writes
+// the summary; if it fails, each question and the opening of its answer become one line.
+async function compactConversation(llm: LlmProvider, state: ConversationState): Promise<ConversationState> {
+  const due = turnsToSummarize(state);
+  if (!due) return state;
+
+  const prompt = `
+You are keeping notes on a job interview so the interviewer can continue it.
+
+${state.summary ? `Notes so far:\n${state.summary}\n\n` : ""}Turns to add to the notes:
+${due.turns.map((t) => `${t.role.toUpperCase()}: ${t.content}`).join("\n")}
+
+Write one line per question: what was asked, and what the candidate said, keeping every name,
+number and claim they made. No more than 120 words. Plain text, no markdown.
+`.trim();
+
+  let summary = "";
+  try {
+    summary = (await llm.generate({ task: "summarize_transcript", prompt })).text.trim();
+  } catch {
+    // fall through to the heuristic notes
+  }
+  return applySummary(state, summary || heuristicSummary(due.turns), due.through);
+}
+
+// Best-effort, like the page's own saves: losing the memory makes follow-ups worse, never fails them
+async function remember(sessionId: string, conversation: ConversationState) {
+  try {
+    await getSessionStore().update(sessionId, { conversation });
+  } catch (err) {
+    console.error("Interview memory save failed:", err);
+  }
+}
+
+const COACH_WHY: Record<Mode, string> = {
+  behavioral: "Strong answers are structured and measurable. STAR makes it easy to evaluate quickly.",
+  technical: "Interviewers look for a correct approach, its costs and trade-offs, and what breaks it.",
+  case: "Strong cases are structured, hypothesis-led and quantified, and end with a recommendation.",
+};
+
+const CLOSING_REMARK = "That's all the questions I have. Thanks for your time — click Finish Interview for your report.";
+
+type ReportInput = {
+  company: string;
+  style?: InterviewStyle;
+  blueprint: { role_focus?: string[]; risk_gaps?: string[] };
+  turns: Turn[];
+  scorecards: ScoredAnswer[];
+};
+
+type ModelReport = {
+  signal?: string;
+  summary?: string;
+  strengths?: unknown;
+  gaps?: { gap?: unknown; risk_gap?: unknown }[];
+  practice_plan?: { focus?: unknown; drill?: unknown }[];
+};
+
+// Session-level report. Scores, averages and the per-question table always come from the
+// scorecards; the model only writes the narrative (signal, strengths, gaps, plan).
+async function finishReport(llm: LlmProvider, input: ReportInput): Promise<InterviewReport> {
+  const { company, style, blueprint, turns, scorecards } = input;
+  const riskGaps = blueprint?.risk_gaps || [];
+  const base = heuristicReport(turns, scorecards, riskGaps, style);
+
+  const prompt = `
+You are the hiring panel debrief for ${company}.
+
+Blueprint:
+- role_focus: ${(blueprint?.role_focus || []).join(", ")}
+- risk_gaps: ${riskGaps.join(", ")}
+
+Per-question results (overall out of 100; dimensions out of 25):
+${base.questions
+  .map(
+    (q, i) =>
+      `${i + 1}. [${q.mode}] Q: ${q.question}\n   A: ${q.answer}\n   overall ${q.scores.overall}, ${rubricFor(q)
+        .dimensions.map((d) => `${d.key} ${scoreOf(q, d.key)}`)
+        .join(", ")}\n   gaps: ${scorecards[i].scorecard.gaps.join("; ")}`
+  )
+  .join("\n")}
+
+Average overall: ${base.averages.overall}/100.${style ? `\nJudge the signal against this level. ${levelBar(style)}` : ""}
+
+Task:
+- Give an overall hiring signal.
+- Name the candidate's top 3 strengths and top 3 gaps across the whole interview.
+- For each gap, set risk_gap to the risk_gaps entry it confirms (copied exactly), or null.
+- Recommend a practice plan of 3–5 concrete drills targeting the gaps.
+
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{
+  "signal": "strong_hire" | "hire" | "lean_no_hire" | "no_hire",
+  "summary": "2–3 sentence debrief",
+  "strengths": ["specific strength"],
+  "gaps": [{ "gap": "specific gap", "risk_gap": "exact risk_gaps entry or null" }],
+  "practice_plan": [{ "focus": "skill or gap", "drill": "concrete exercise" }]
+}
+`.trim();
+
+  let raw = "";
+  try {
+    raw = (await llm.generate({ task: "interview_report", prompt })).text;
+  } catch {
+    return base;
+  }
+
+  const parsed = safeJsonParse<ModelReport>(raw);
+  if (!parsed.ok || !HIRE_SIGNALS.includes(parsed.data.signal as HireSignal)) return base;
+
+  const strengths = stringList(parsed.data.strengths, 3);
+  const gaps: ReportGap[] = (Array.isArray(parsed.data.gaps) ? parsed.data.gaps : [])
+    .filter((g) => typeof g?.gap === "string" && g.gap.trim())
+    .slice(0, 3)
+    .map((g) => {
+      const gap = String(g.gap).trim();
+      // only trust the mapping when it names a real risk gap
+      const named = typeof g.risk_gap === "string" ? g.risk_gap.trim() : "";
+      const claimed = riskGaps.find((r) => r === named);
+      return { gap, riskGap: claimed ?? (g.risk_gap === null ? null : matchRiskGap(gap, riskGaps)) };
+    });
+  const practicePlan: PracticeItem[] = (Array.isArray(parsed.data.practice_plan) ? parsed.data.practice_plan : [])
+    .filter((p) => typeof p?.focus === "string" && typeof p?.drill === "string")
+    .slice(0, 5)
+    .map((p) => ({ focus: String(p.focus).trim(), drill: String(p.drill).trim() }));
+
+  if (!strengths.length || !gaps.length || !practicePlan.length) return base;
+
+  const summary = typeof parsed.data.summary === "string" ? parsed.data.summary.trim() : "";
 
   return {
-    situation: { present: hasSituation, evidence: hasSituation ? "Mentions context." : "Add 1 line of context." },
-    task: { present: hasTask, evidence: hasTask ? "States goal/ownership." : "Add your goal + responsibility." },
-    action: { present: hasAction, evidence: hasAction ? "Shows what you did." : "Add 2–3 concrete actions." },
-    result: { present: hasResult, evidence: hasResult ? "Shows outcomes/metrics." : "Add outcome + metric." },
+    ...base,
+    source: "model",
+    signal: parsed.data.signal as HireSignal,
+    summary: summary || base.summary,
+    strengths,
+    gaps,
+    practicePlan,
   };
 }
 
-function clamp(n: number, a: number, b: number) {
-  return Math.max(a, Math.min(b, n));
+type QuestionResponseOptions = {
+  stream: boolean;
+  task: LlmTask;
+  prompt: string;
+  fallback: string;
+  // everything besides the question (coach, scorecard) — sent with the final payload
+  extras?: () => Promise<Record<string, unknown>>;
+  // say exactly this instead of calling the model (e.g. the closing remark)
+  fixed?: string;
+  // called with the final question before the payload goes out (e.g. to save the session's memory)
+  onQuestion?: (question: string) => Promise<void>;
+};
+
+// Returns the interviewer's question as one JSON body or, with `stream: true`, as SSE:
+// "token" events while the model writes, then a "done" event carrying the full payload.
+async function questionResponse(llm: LlmProvider, opts: QuestionResponseOptions): Promise<Response> {
+  const { stream, task, prompt, fallback, extras, fixed, onQuestion } = opts;
+
+  if (!stream) {
+    const { text } = fixed !== undefined ? { text: fixed } : await llm.generate({ task, prompt });
+    const interviewer = text.trim() || fallback;
+    await onQuestion?.(interviewer);
+    return NextResponse.json({ interviewer, ...(await extras?.()) });
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(encodeSse(event, data)));
+      try {
+        let text = "";
+        const chunks = fixed !== undefined ? [fixed] : llm.stream({ task, prompt });
+        for await (const chunk of chunks) {
+          text += chunk;
+          send("token", { text: chunk });
+        }
+        const interviewer = text.trim() || fallback;
+        await onQuestion?.(interviewer);
+        send("done", { interviewer, ...(await extras?.()) });
+      } catch (err) {
+        console.error("Interview stream error:", err);
+        send("error", { error: err instanceof Error ? err.message : "Interview failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 }
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
 
-    const step: "start" | "followup" = body?.step;
+    const step: "start" | "followup" | "finish" = body?.step;
     const company: string = body?.company ?? "";
-    const mode: Mode = body?.mode ?? "behavioral";
+    const mode: SessionMode = body?.mode ?? "behavioral";
     const blueprint = body?.blueprint ?? null;
+    const stream = body?.stream === true;
 
     if (!step || !company || !blueprint) {
       return NextResponse.json(
@@ -115,172 +485,293 @@ export async function POST(req: Request) {
       );
     }
 
-    const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: "Missing GOOGLE_API_KEY (or GEMINI_API_KEY) in .env.local" },
-        { status: 500 }
-      );
+    if (!SESSION_MODES.includes(mode)) {
+      return NextResponse.json({ error: `mode must be one of ${SESSION_MODES.join(" | ")}` }, { status: 400 });
     }
 
-    const ai = new GoogleGenAI({ apiKey });
+    // Persona and level; absent for sessions from before personas (neutral interviewer, standard bar)
+    if (body?.style !== undefined && !isInterviewStyle(body.style)) {
+      return NextResponse.json({ error: "style must be { persona, difficulty }" }, { status: 400 });
+    }
+    const style: InterviewStyle | undefined = body?.style;
 
-    const modelCandidates = [
-      process.env.GEMINI_MODEL,
-      "gemini-3-flash-preview",
-      "gemini-2.0-flash",
-      "gemini-1.5-flash",
-    ].filter(Boolean) as string[];
+    // Saved sessions get server-side memory of the conversation; without one the client sends the transcript
+    if (body?.sessionId !== undefined && (typeof body.sessionId !== "string" || !isSessionId(body.sessionId))) {
+      return NextResponse.json({ error: "sessionId is not a valid session id" }, { status: 400 });
+    }
+    const sessionId: string | null = body?.sessionId ?? null;
+    const riskGaps: string[] = Array.isArray(blueprint?.risk_gaps) ? blueprint.risk_gaps : [];
+
+    const resolved = resolveLlm();
+    if (!resolved.ok) {
+      return NextResponse.json({ error: resolved.error }, { status: 500 });
+    }
+    const { llm } = resolved;
 
     //START: return first question immediately
     if (step === "start") {
-      const seed =
-        (blueprint?.sample_questions || [])
-          .filter((q: any) => q?.type === mode)
-          .map((q: any) => q?.question)
-          .slice(0, 2)
-          .join("\n- ") || "";
+      const checked = validateBlueprint(blueprint);
+      if (!checked.ok) {
+        return NextResponse.json({ error: "Invalid blueprint", fields: checked.errors }, { status: 400 });
+      }
+
+      const minutes: PlanLength = isPlanLength(body?.minutes) ? body.minutes : 30;
+      // a restarted session may bring its (possibly edited) plan; otherwise build one
+      const plan = isInterviewPlan(body?.plan)
+        ? body.plan
+        : mode === "coding"
+          ? await buildCodingPlan(llm, { company, blueprint: checked.blueprint, minutes, style })
+          : await buildCaseExhibits(llm, {
+              company,
+              plan: await buildPlan(llm, {
+                company,
+                blueprint: checked.blueprint,
+                modes: segmentModes(mode, checked.blueprint.likely_interview_type),
+                minutes,
+                style,
+              }),
+            });
+      const first = plan.questions[0];
 
       const prompt = `
-You are the interviewer for ${company}.
-Mode: ${mode.toUpperCase()}.
+${interviewerRole(company, style)}
+Mode: ${first.type.toUpperCase()}.${styleRules(style, "question")}
 
 Blueprint focus:
-- role_focus: ${(blueprint?.role_focus || []).join(", ")}
-- risk_gaps: ${(blueprint?.risk_gaps || []).join(", ")}
+- role_focus: ${checked.blueprint.role_focus.join(", ")}
+- risk_gaps: ${checked.blueprint.risk_gaps.join(", ")}
 
 Task:
-Ask ONE strong first interview question for this mode.
+Open a ${plan.minutes}-minute interview of ${plan.questions.length} questions by asking the first planned question.
 - Keep it concise (1–2 sentences).
-- No preamble.
-- If behavioral: prefer a conflict/stakeholder/impact STAR-style prompt.
-- If technical: pick a practical question aligned to the role focus.
-- If case: pick a product/strategy case aligned to the role focus.
+- No preamble beyond a one-line greeting.
+- You may lightly rephrase it, but it must still test "${first.focus}".${
+        first.problem
+          ? "\n- It is a coding exercise: the full statement and examples are in the candidate's editor, so name it briefly\n  and ask them to talk through their approach as they code."
+          : first.exhibits
+            ? `\n- The candidate can see these exhibits; point them to the data and ask them to structure first:\n${describeExhibits(first.exhibits)}`
+            : ""
+      }
 
-If helpful, you may adapt one of these sample questions:
-- ${seed}
+Planned question: ${first.question}
 
-Return ONLY the question text.
+Return ONLY what you say to the candidate.
 `.trim();
 
-      let lastErr: any = null;
-      for (const model of modelCandidates) {
-        const out = await generateWithRetry(ai, model, prompt);
-        if (out.ok) {
-          const q = (out.raw || "").trim();
-          return NextResponse.json({ interviewer: q || "Tell me about yourself and why this role." });
-        }
-        lastErr = out.err;
-        // try next model if 404
-        if ((out.err?.status ?? out.err?.code) === 404) continue;
-        // for other errors, stop
-        return NextResponse.json({ error: out.err?.message ?? "Interview start failed" }, { status: 500 });
+      return questionResponse(llm, {
+        stream,
+        task: "interview_question",
+        prompt,
+        fallback: first.question,
+        extras: async () => ({ plan, progress: PLAN_START }),
+        onQuestion: sessionId
+          ? (question) => remember(sessionId, recordQuestion(emptyConversation(), question, { focus: first.focus, riskGaps }))
+          : undefined,
+      });
+    }
+
+    // --- FINISH: session-level report from every scored answer ---
+    if (step === "finish") {
+      const turns: unknown = body?.turns;
+      const scorecards: unknown = body?.scorecards;
+
+      if (!Array.isArray(turns) || !turns.every(isTurn)) {
+        return NextResponse.json({ error: "turns must be an array of { role, content }" }, { status: 400 });
       }
-      return NextResponse.json({ error: lastErr?.message ?? "No model succeeded" }, { status: 500 });
+      if (!Array.isArray(scorecards) || !scorecards.length || !scorecards.every((sc) => isScoredAnswer(sc, turns))) {
+        return NextResponse.json(
+          { error: "scorecards must be a non-empty array of { turnIndex, scorecard }, each scoring a candidate turn" },
+          { status: 400 }
+        );
+      }
+
+      const report = await finishReport(llm, { company, style, blueprint, turns, scorecards });
+      return NextResponse.json({ report });
     }
 
     // --- FOLLOWUP: return follow-up + coach + scorecard ---
-    const transcript: string = body?.transcript ?? "";
     const candidateAnswer: string = body?.candidateAnswer ?? "";
+    const session = sessionId ? await getSessionStore().get(sessionId) : null;
 
-    if (!transcript || !candidateAnswer) {
+    if (sessionId && !session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    if (!candidateAnswer || (!session && !body?.transcript)) {
       return NextResponse.json(
-        { error: "Missing required fields for followup: transcript, candidateAnswer" },
+        { error: "Missing required fields for followup: sessionId or transcript, candidateAnswer" },
         { status: 400 }
       );
     }
 
-    // Create a follow-up question
-    const followPrompt = `
-You are the interviewer for ${company}.
-Mode: ${mode.toUpperCase()}.
+    // The session's memory plus this answer, with older turns summarized once it gets long.
+    // Sessions saved before memory existed start from their recorded turns.
+    const conversation: ConversationState | null = session
+      ? await compactConversation(
+          llm,
+          recordAnswer(session.conversation ?? seedConversation(session.turns), candidateAnswer)
+        )
+      : null;
+    const transcript = conversation ? promptTranscript(conversation) : truncateTranscript(String(body.transcript));
+
+    // Claims are checked against the resume and job description the session started with
+    const claimSources: ClaimSources = {
+      resumeText: session?.resumeText ?? (typeof body?.resumeText === "string" ? body.resumeText : ""),
+      jobDescription: session?.jobDescription ?? (typeof body?.jobDescription === "string" ? body.jobDescription : ""),
+      company,
+    };
+    const doubt = flaggedChecks(checkConsistency(candidateAnswer, claimSources))[0];
 
+    // Sessions without a plan (started before plans existed) keep the open-ended follow-up loop
+    const plan: InterviewPlan | null = body?.plan === undefined ? null : body.plan;
+    const progress: PlanProgress | null = body?.progress === undefined ? null : body.progress;
+
+    if (plan && (!isInterviewPlan(plan) || !isPlanProgress(progress, plan))) {
+      return NextResponse.json({ error: "plan and progress must come from the start step" }, { status: 400 });
+    }
+    if (progress?.done) {
+      return NextResponse.json({ error: "The interview plan is complete. Finish the interview." }, { status: 409 });
+    }
+
+    const current = plan && progress ? plan.questions[progress.questionIndex] : null;
+
+    // Coding answers come with the test results from the browser runner
+    if (body?.codeRun !== undefined && !isCodeRun(body.codeRun)) {
+      return NextResponse.json({ error: "codeRun is not a valid test run" }, { status: 400 });
+    }
+    const codeRun: CodeRunSummary | undefined = body?.codeRun ? summarizeRun(body.codeRun) : undefined;
+    const answerMode: Mode = current?.type ?? defaultAnswerMode(mode);
+
+    // Case answers may come with the candidate's scratchpad; the exhibits come from the plan
+    const scratchpad: unknown = body?.scratchpad;
+    if (scratchpad !== undefined && (typeof scratchpad !== "string" || scratchpad.length > MAX_SCRATCHPAD_CHARS)) {
+      return NextResponse.json(
+        { error: `scratchpad must be a string of at most ${MAX_SCRATCHPAD_CHARS} characters` },
+        { status: 400 }
+      );
+    }
+    // Spoken answers come with their timing from the browser's speech recognition
+    if (body?.timing !== undefined && !isAnswerTiming(body.timing)) {
+      return NextResponse.json(
+        { error: "timing must be { firstWordMs, durationMs, longPauses, longestPauseMs }" },
+        { status: 400 }
+      );
+    }
+    const context: AnswerContext = {
+      codeRun,
+      scratchpad: scratchpad?.trim() || undefined,
+      exhibits: current?.exhibits,
+      claimSources,
+      timing: body?.timing,
+    };
+    const math = answerMode === "case" ? checkMath(`${candidateAnswer}\n${context.scratchpad ?? ""}`, context.exhibits) : null;
+    const slip = math?.items.find((i) => !i.correct);
+    // failing tests and wrong math come first; otherwise a claim the resume doesn't back gets the follow-up
+    const verify = codeRun || slip ? undefined : doubt;
+
+    // Grade + rewrite in parallel with the follow-up so the extra model calls don't add latency
+    const scored = scoreAnswer(llm, {
+      company,
+      mode: answerMode,
+      blueprint,
+      transcript,
+      candidateAnswer,
+      style,
+      ...context,
+    });
+
+    const decision: PlanDecision | null =
+      plan && progress
+        ? await decideNext(llm, { company, style, plan, progress, transcript, candidateAnswer, ...context })
+        : null;
+    const next = decision?.action === "next" && plan && progress ? plan.questions[progress.questionIndex + 1] : null;
+
+    // Create a follow-up question (or the transition to the next planned one)
+    const followPrompt = next
+      ? `
+${interviewerRole(company, style)}
+Mode: ${next.type.toUpperCase()}.${styleRules(style, "question")}
+
+The candidate has finished with the previous question. Acknowledge briefly (a few words, no feedback),
+then ask the next planned question. You may lightly rephrase it, but it must still test "${next.focus}".${
+          next.type !== answerMode ? `\nThis starts the ${next.type} part of the interview: say so in a few words first.` : ""
+        }${next.exhibits ? `\nThe candidate can see these exhibits for it; mention them:\n${describeExhibits(next.exhibits)}` : ""}
+
+Transcript:
+${transcript}
+
+Next planned question: ${next.question}
+
+Return ONLY what you say to the candidate.
+`.trim()
+      : `
+${interviewerRole(company, style)}
+Mode: ${answerMode.toUpperCase()}.${styleRules(style, "followup")}
+${current ? `\nYou are drilling into the planned question: ${current.question}\nIt tests "${current.focus}".\n` : ""}${
+          codeRun
+            ? `\nThe candidate just submitted code. Test results: ${describeRun(codeRun)}.\nAsk about a failing case if any failed; otherwise about complexity, trade-offs or an edge case.\n`
+            : slip
+              ? `\nThe candidate's arithmetic is off: ${slip.expression}. Ask them to re-check that number, without giving the answer.\n`
+              : verify
+                ? `\nThis claim doesn't match the candidate's resume: ${verify.note} (“${verify.claim}”)\nAsk them to verify it — what exactly they did and how it was measured — without accusing them.\n`
+                : current?.exhibits
+                  ? `\nThe candidate has these exhibits; push them to use the data:\n${describeExhibits(current.exhibits)}\n`
+                  : ""
+        }${
+          claimSources.resumeText.trim()
+            ? `\nCandidate's resume (cross-check their claims against it):\n${sourceExcerpt(claimSources.resumeText)}\n${
+                claimSources.jobDescription.trim() ? `\nJob description:\n${sourceExcerpt(claimSources.jobDescription)}\n` : ""
+              }`
+            : ""
+        }
 Given the transcript below, ask ONE follow-up question that tests depth and closes gaps.
 Keep it 1 sentence.
-
+${conversation ? `\n${memoryNotes(conversation, riskGaps)}\n` : ""}
 Transcript:
 ${transcript}
 
 Return ONLY the follow-up question text.
 `.trim();
 
-    let followQ = "";
-    let lastErr: any = null;
-
-    for (const model of modelCandidates) {
-      const out = await generateWithRetry(ai, model, followPrompt);
-      if (out.ok) {
-        followQ = (out.raw || "").trim();
-        break;
-      }
-      lastErr = out.err;
-      if ((out.err?.status ?? out.err?.code) === 404) continue;
-      return NextResponse.json({ error: out.err?.message ?? "Follow-up failed" }, { status: 500 });
-    }
-
-    // Lightweight STAR + scoring (fast, reliable, no extra quota)
-    const star = starDetect(candidateAnswer);
-
-    const starCount =
-      Number(star.situation.present) +
-      Number(star.task.present) +
-      Number(star.action.present) +
-      Number(star.result.present);
-
-    const clarity = clamp(10 + starCount * 3, 0, 25);
-    const structure = clamp(8 + starCount * 4, 0, 25);
-    const impact = clamp(6 + (star.result.present ? 12 : 3), 0, 25);
-    const roleFit = clamp(10 + (mode === "behavioral" ? 6 : 4), 0, 25);
-    const overall = clamp(Math.round((clarity + structure + impact + roleFit) / 1), 0, 100);
-
-    const strengths: string[] = [];
-    const gaps: string[] = [];
-
-    if (star.situation.present) strengths.push("You set context (Situation).");
-    else gaps.push("Add 1 sentence of context (Situation).");
-
-    if (star.task.present) strengths.push("You stated your goal/ownership (Task).");
-    else gaps.push("State your goal + what success looked like (Task).");
-
-    if (star.action.present) strengths.push("You included concrete actions (Action).");
-    else gaps.push("Add 2–3 specific actions you took (Action).");
-
-    if (star.result.present) strengths.push("You included outcome/impact (Result).");
-    else gaps.push("Add a measurable result (metric, % change, time saved).");
-
-    const improvedAnswer =
-      mode === "behavioral"
-        ? `Situation: [1 line context]\nTask: [your goal + ownership]\nAction: [2–3 steps you took]\nResult: [metric + impact + what you learned]`
-        : `Answer: [clear approach]\nTrade-offs: [2–3]\nDecision: [what you’d choose + why]\nValidation: [how you’d test/measure]`;
-
-    const scorecard: Scorecard = {
-      mode,
-      star,
-      scores: { overall, clarity, structure, impact, roleFit },
-      strengths,
-      gaps,
-      rewrite: {
-        improvedAnswer,
-        bulletsToAdd: [
-          "Add one hard metric (%, $, time saved).",
-          "Call out a trade-off and why you chose your approach.",
-          "Mention stakeholder alignment or validation step.",
-        ],
+    return questionResponse(llm, {
+      stream,
+      task: next ? "next_question" : "followup_question",
+      prompt: followPrompt,
+      fallback:
+        next?.question ??
+        (verify
+          ? verificationQuestion(verify)
+          : conversation && unprobedGaps(conversation, riskGaps).length
+          ? gapQuestion(unprobedGaps(conversation, riskGaps)[0])
+          : "What was the biggest challenge, and how did you handle it?"),
+      fixed: decision?.action === "end" ? CLOSING_REMARK : undefined,
+      onQuestion:
+        conversation && sessionId
+          ? (question) =>
+              remember(sessionId, recordQuestion(conversation, question, { focus: (next ?? current)?.focus, riskGaps }))
+          : undefined,
+      extras: async () => {
+        const scorecard = await scored;
+
+        const gaps = scorecard.gaps;
+
+        const coach: Coach = {
+          mode: answerMode,
+          star: coverageLine(scorecard),
+          missing: gaps.slice(0, 2).join(" | ") || "None",
+          why: COACH_WHY[answerMode],
+          intent:
+            decision?.action === "next"
+              ? `Moving to the next planned question. ${decision.reason}`.trim()
+              : decision?.action === "end"
+                ? "Plan complete: no more questions."
+                : verify
+                  ? "Follow-up checks a claim against your resume."
+                  : "Follow-up targets depth and validates your claim.",
+        };
+
+        const planned = decision && progress ? { decision, progress: advance(progress, decision.action) } : {};
+        return { coach, scorecard, ...planned };
       },
-    };
-
-    const coach = {
-      mode,
-      star: `S:${star.situation.present ? "Y" : "N"} T:${star.task.present ? "Y" : "N"} A:${star.action.present ? "Y" : "N"} R:${star.result.present ? "Y" : "N"}`,
-      missing: gaps.slice(0, 2).join(" | ") || "None",
-      why: "Strong answers are structured and measurable. STAR makes it easy to evaluate quickly.",
-      intent: "Follow-up targets depth and validates your claim.",
-    };
-
-    return NextResponse.json({
-      interviewer: followQ || "What was the biggest challenge, and how did you handle it?",
-      coach,
-      scorecard,
     });
   } catch (err: any) {
     console.error("Interview API error:", err);
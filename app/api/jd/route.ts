@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { extractJobDescription } from "@/lib/jd/extract";
+import { importJobDescription, JdImportError } from "@/lib/jd/fetcher";
+
+const MAX_HTML_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+// Either JSON { url } (fetched server-side) or multipart/form-data with a saved HTML "file"
+export async function POST(req: Request) {
+  try {
+    if ((req.headers.get("content-type") ?? "").includes("multipart/form-data")) {
+      const form = await req.formData();
+      const file = form.get("file");
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: "Missing file upload (field name: file)" }, { status: 400 });
+      }
+      if (file.size > MAX_HTML_UPLOAD_BYTES) {
+        return NextResponse.json({ error: "Saved page is larger than 2 MB." }, { status: 413 });
+      }
+
+      const jd = extractJobDescription(await file.text());
+      if (!jd.text) {
+        return NextResponse.json({ error: "No job description text found in that file" }, { status: 422 });
+      }
+      return NextResponse.json({ jd });
+    }
+
+    const { url } = await req.json();
+    if (!url) return NextResponse.json({ error: "Missing input: url" }, { status: 400 });
+
+    return NextResponse.json({ jd: await importJobDescription(url) });
+  } catch (err) {
+    if (err instanceof JdImportError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("JD API error:", err);
+    return NextResponse.json({ error: "Job description import failed" }, { status: 500 });
+  }
+}
@@ -1,14 +1,10 @@
 import { NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
+import { resolveLlm } from "@/lib/llm";
 
 export async function GET() {
-  const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
-  if (!apiKey) return NextResponse.json({ error: "Missing API key" }, { status: 500 });
+  const resolved = resolveLlm();
+  if (!resolved.ok) return NextResponse.json({ error: resolved.error }, { status: 500 });
 
-  const ai = new GoogleGenAI({ apiKey });
-
-  // listModels exists in current Gemini API docs; if your installed SDK version differs,
-  
-  const models = await (ai as any).models.list();
-  return NextResponse.json({ models });
+  const models = await resolved.llm.listModels();
+  return NextResponse.json({ provider: resolved.llm.name, models });
 }
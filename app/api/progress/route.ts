@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { buildProgress } from "@/lib/progress";
+import { getSessionStore } from "@/lib/sessions/store";
+
+export async function GET() {
+  try {
+    const sessions = await getSessionStore().list();
+    return NextResponse.json({ progress: buildProgress(sessions) });
+  } catch (err) {
+    console.error("Progress API error:", err);
+    return NextResponse.json({ error: "Failed to build progress" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { extractResume, MAX_RESUME_BYTES } from "@/lib/resume/extract";
+
+// multipart/form-data with a single "file" field (PDF, DOCX or plain text)
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Missing file upload (field name: file)" }, { status: 400 });
+    }
+
+    if (file.size > MAX_RESUME_BYTES) {
+      return NextResponse.json({ error: "Resume is larger than 5 MB." }, { status: 413 });
+    }
+
+    const out = await extractResume({
+      name: file.name,
+      type: file.type,
+      bytes: new Uint8Array(await file.arrayBuffer()),
+    });
+
+    if (!out.ok) return NextResponse.json({ error: out.error }, { status: 422 });
+    return NextResponse.json({ resume: out.resume });
+  } catch (err) {
+    console.error("Resume API error:", err);
+    return NextResponse.json({ error: "Resume upload failed" }, { status: 500 });
+  }
+}
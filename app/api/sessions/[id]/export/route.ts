@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { exportSession } from "@/lib/export/json";
+import { exportFileName, sessionToMarkdown } from "@/lib/export/markdown";
+import { markdownToPdf } from "@/lib/export/pdf";
+import { getSessionStore } from "@/lib/sessions/store";
+
+type Params = { params: Promise<{ id: string }> };
+
+const FORMATS = ["md", "pdf", "json"] as const;
+type ExportFormat = (typeof FORMATS)[number];
+
+// GET /api/sessions/:id/export?format=md|pdf|json — served as a download
+export async function GET(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const format = (new URL(req.url).searchParams.get("format") ?? "md") as ExportFormat;
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${FORMATS.join(" | ")}` }, { status: 400 });
+    }
+
+    const session = await getSessionStore().get(id);
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+
+    const name = `${exportFileName(session)}.${format}`;
+    const disposition = `attachment; filename="${name}"`;
+
+    if (format === "json") {
+      return new Response(JSON.stringify(exportSession(session), null, 2), {
+        headers: { "Content-Type": "application/json; charset=utf-8", "Content-Disposition": disposition },
+      });
+    }
+
+    const markdown = sessionToMarkdown(session);
+    if (format === "pdf") {
+      const pdf = markdownToPdf(markdown, `Interview practice: ${session.company}`);
+      return new Response(pdf.buffer as ArrayBuffer, {
+        headers: { "Content-Type": "application/pdf", "Content-Disposition": disposition },
+      });
+    }
+
+    return new Response(markdown, {
+      headers: { "Content-Type": "text/markdown; charset=utf-8", "Content-Disposition": disposition },
+    });
+  } catch (err) {
+    console.error("Export API error:", err);
+    return NextResponse.json({ error: "Export failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { isInterviewPlan, isPlanProgress } from "@/lib/interview/plan";
+import { isInterviewReport } from "@/lib/interview/report";
+import { isInterviewStyle } from "@/lib/interview/style";
+import { SESSION_MODES } from "@/lib/interview/types";
+import { getSessionStore } from "@/lib/sessions/store";
+import { isScoredAnswer, isTurn, SessionUpdate } from "@/lib/sessions/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const session = await getSessionStore().get(id);
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    return NextResponse.json({ session });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const patch: SessionUpdate = {};
+
+    if (body?.turns !== undefined) {
+      if (!Array.isArray(body.turns) || !body.turns.every(isTurn)) {
+        return NextResponse.json({ error: "turns must be an array of { role, content }" }, { status: 400 });
+      }
+      patch.turns = body.turns;
+    }
+
+    if (body?.scorecards !== undefined) {
+      // checked against the transcript they'll be saved next to: the one in this patch, or the stored one
+      const turns = patch.turns ?? (await getSessionStore().get(id))?.turns;
+      if (!turns) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+      if (!Array.isArray(body.scorecards) || !body.scorecards.every((s: unknown) => isScoredAnswer(s, turns))) {
+        return NextResponse.json(
+          { error: "scorecards must be an array of { turnIndex, scorecard }, each scoring a candidate turn" },
+          { status: 400 }
+        );
+      }
+      patch.scorecards = body.scorecards;
+    }
+
+    if (body?.mode !== undefined) {
+      if (!SESSION_MODES.includes(body.mode)) {
+        return NextResponse.json({ error: `mode must be one of ${SESSION_MODES.join(" | ")}` }, { status: 400 });
+      }
+      patch.mode = body.mode;
+    }
+
+    if (body?.style !== undefined) {
+      if (!isInterviewStyle(body.style)) {
+        return NextResponse.json({ error: "style must be { persona, difficulty }" }, { status: 400 });
+      }
+      patch.style = body.style;
+    }
+
+    if (body?.plan !== undefined) {
+      if (!isInterviewPlan(body.plan)) {
+        return NextResponse.json({ error: "plan must be the result of the interview start step" }, { status: 400 });
+      }
+      patch.plan = body.plan;
+    }
+
+    if (body?.progress !== undefined) {
+      if (!isPlanProgress(body.progress, patch.plan)) {
+        return NextResponse.json({ error: "progress must be { questionIndex, followupsAsked, done }" }, { status: 400 });
+      }
+      patch.progress = body.progress;
+    }
+
+    if (body?.report !== undefined) {
+      if (!isInterviewReport(body.report)) {
+        return NextResponse.json({ error: "report must be the result of the interview finish step" }, { status: 400 });
+      }
+      patch.report = body.report;
+    }
+
+    const session = await getSessionStore().update(id, patch);
+    if (!session) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    return NextResponse.json({ session });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to update session" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const deleted = await getSessionStore().delete(id);
+    if (!deleted) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to delete session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Blueprint } from "@/lib/blueprint";
+import { EXPORT_FORMAT, EXPORT_VERSION } from "@/lib/export/json";
+import type { BehavioralScorecard } from "@/lib/interview/types";
+import { getSessionStore } from "@/lib/sessions/store";
+import { POST } from "./route";
+
+const BLUEPRINT: Blueprint = {
+  role_focus: ["System design", "Debugging", "Ownership"],
+  likely_interview_type: "behavioral_technical",
+  risk_gaps: ["Limited evidence of measurable impact"],
+  company_notes: ["Expect values-based questions."],
+  sample_questions: [
+    { type: "behavioral", question: "Tell me about a time you disagreed with a stakeholder." },
+    { type: "behavioral", question: "Tell me about a project you owned end to end." },
+    { type: "technical", question: "How would you design a rate limiter?" },
+  ],
+};
+
+const SCORECARD: BehavioralScorecard = {
+  mode: "behavioral",
+  source: "heuristic",
+  scores: { overall: 60, clarity: 15, structure: 15, impact: 15, roleFit: 15 },
+  evidence: { clarity: [], structure: [], impact: ["cut latency by 30%"], roleFit: [] },
+  strengths: ["Quantified the result"],
+  gaps: ["Say what you owned"],
+  star: {
+    situation: { present: true, evidence: "checkout was timing out" },
+    task: { present: false, evidence: "" },
+    action: { present: true, evidence: "batched the query" },
+    result: { present: true, evidence: "cut latency by 30%" },
+  },
+  rewrite: { improvedAnswer: "At Acme I owned checkout latency…", bulletsToAdd: [] },
+};
+
+function exported(scorecard: unknown, turnIndex = 1) {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      company: "Acme",
+      resumeText: "",
+      jobDescription: "",
+      blueprint: BLUEPRINT,
+      mode: "behavioral",
+      turns: [
+        { role: "interviewer", content: "Tell me about a time you fixed a slow service." },
+        { role: "candidate", content: "At Acme I cut checkout latency by 30%." },
+      ],
+      scorecards: [{ turnIndex, scorecard }],
+    },
+  };
+}
+
+async function post(body: unknown) {
+  const res = await POST(new Request("http://localhost/api/sessions/import", { method: "POST", body: JSON.stringify(body) }));
+  return { status: res.status, data: await res.json() };
+}
+
+describe("POST /api/sessions/import", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "import-route-"));
+    vi.stubEnv("SESSIONS_DIR", dir);
+  });
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("imports an export as a new session", async () => {
+    const { status, data } = await post(exported(SCORECARD));
+    expect(status).toBe(201);
+    expect(data.session.scorecards).toEqual([{ turnIndex: 1, scorecard: SCORECARD }]);
+  });
+
+  it("rejects a scorecard missing what the report and exports read, without saving it", async () => {
+    const before = (await getSessionStore().list()).length;
+    const cases: [unknown, string][] = [
+      [{ ...SCORECARD, star: undefined }, "session.scorecards[0].scorecard.star"],
+      [{ ...SCORECARD, gaps: "none" }, "session.scorecards[0].scorecard.gaps"],
+      [{ ...SCORECARD, scores: { overall: 60 } }, "session.scorecards[0].scorecard.scores.clarity"],
+      [null, "session.scorecards[0].scorecard"],
+    ];
+    for (const [scorecard, field] of cases) {
+      const { status, data } = await post(exported(scorecard));
+      expect(status).toBe(400);
+      expect(data.error).toContain(field);
+      expect(data.fields).toContainEqual({ field, message: "is missing or malformed" });
+    }
+    expect(await getSessionStore().list()).toHaveLength(before);
+  });
+
+  it("rejects a scorecard for an interviewer turn", async () => {
+    const { status, data } = await post(exported(SCORECARD, 0));
+    expect(status).toBe(400);
+    expect(data.error).toContain("session.scorecards[0].turnIndex");
+  });
+});
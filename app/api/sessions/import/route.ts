@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { parseSessionExport } from "@/lib/export/json";
+import { getSessionStore } from "@/lib/sessions/store";
+
+// Body is a JSON export from /api/sessions/:id/export?format=json; it becomes a new session
+export async function POST(req: Request) {
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: "Import must be a JSON export file" }, { status: 400 });
+    }
+
+    const parsed = parseSessionExport(body);
+    if (!parsed.ok) {
+      // nothing is saved; the message names the first bad field, `fields` lists them all
+      const [first] = parsed.errors;
+      return NextResponse.json(
+        { error: `Invalid session export: ${first.field} ${first.message}`, fields: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    const store = getSessionStore();
+    const created = await store.create(parsed.imported.create);
+    const session = (await store.update(created.id, parsed.imported.update)) ?? created;
+
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to import session" }, { status: 500 });
+  }
+}
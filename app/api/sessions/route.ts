@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { validateBlueprint } from "@/lib/blueprint";
+import { isInterviewStyle } from "@/lib/interview/style";
+import { SESSION_MODES, SessionMode } from "@/lib/interview/types";
+import { getSessionStore } from "@/lib/sessions/store";
+import { summarizeSession } from "@/lib/sessions/types";
+
+export async function GET() {
+  try {
+    const sessions = await getSessionStore().list();
+    return NextResponse.json({ sessions: sessions.map(summarizeSession) });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to list sessions" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+
+    const company: string = body?.company ?? "";
+    const resumeText: string = body?.resumeText ?? "";
+    const jobDescription: string = body?.jobDescription ?? "";
+    const mode: SessionMode = body?.mode ?? "behavioral";
+
+    if (!company || !resumeText || !jobDescription || !body?.blueprint) {
+      return NextResponse.json(
+        { error: "Missing required fields: company, resumeText, jobDescription, blueprint" },
+        { status: 400 }
+      );
+    }
+    if (!SESSION_MODES.includes(mode)) {
+      return NextResponse.json({ error: `mode must be one of ${SESSION_MODES.join(" | ")}` }, { status: 400 });
+    }
+
+    if (body?.style !== undefined && !isInterviewStyle(body.style)) {
+      return NextResponse.json({ error: "style must be { persona, difficulty }" }, { status: 400 });
+    }
+
+    const checked = validateBlueprint(body.blueprint);
+    if (!checked.ok) {
+      return NextResponse.json({ error: "Invalid blueprint", fields: checked.errors }, { status: 422 });
+    }
+
+    const session = await getSessionStore().create({
+      company,
+      resumeText,
+      jobDescription,
+      blueprint: checked.blueprint,
+      mode,
+      ...(body?.style ? { style: body.style } : {}),
+    });
+
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (err) {
+    console.error("Sessions API error:", err);
+    return NextResponse.json({ error: "Failed to create session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getStoryStore } from "@/lib/stories/store";
+import { validateStory } from "@/lib/stories/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const story = await getStoryStore().get(id);
+    if (!story) return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    return NextResponse.json({ story });
+  } catch (err) {
+    console.error("Stories API error:", err);
+    return NextResponse.json({ error: "Failed to load story" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const checked = validateStory(await req.json(), true);
+    if (!checked.ok) {
+      return NextResponse.json({ error: "Invalid story", fields: checked.errors }, { status: 422 });
+    }
+
+    const story = await getStoryStore().update(id, checked.story);
+    if (!story) return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    return NextResponse.json({ story });
+  } catch (err) {
+    console.error("Stories API error:", err);
+    return NextResponse.json({ error: "Failed to update story" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const deleted = await getStoryStore().delete(id);
+    if (!deleted) return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Stories API error:", err);
+    return NextResponse.json({ error: "Failed to delete story" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { resolveLlm } from "@/lib/llm";
+import { getSessionStore, isSessionId } from "@/lib/sessions/store";
+import { extractStory, isBanked, storyCandidates } from "@/lib/stories/extract";
+import { getStoryStore } from "@/lib/stories/store";
+
+// one model call per story; the rest wait for the next extraction
+const MAX_PER_RUN = 8;
+
+// Banks the stories in past behavioral answers that aren't in the bank yet: every session,
+// or only { sessionId } when given
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body?.sessionId !== undefined && (typeof body.sessionId !== "string" || !isSessionId(body.sessionId))) {
+      return NextResponse.json({ error: "sessionId is not a valid session id" }, { status: 400 });
+    }
+
+    const sessions = await getSessionStore().list();
+    const scope = body?.sessionId ? sessions.filter((s) => s.id === body.sessionId) : sessions;
+    if (body?.sessionId && !scope.length) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const resolved = resolveLlm();
+    if (!resolved.ok) {
+      return NextResponse.json({ error: resolved.error }, { status: 500 });
+    }
+    const { llm } = resolved;
+
+    const stories = getStoryStore();
+    const candidates = storyCandidates(scope, await stories.list());
+
+    // an extraction running alongside may bank the same story while the model works on it, so
+    // the bank is checked again right before each story is saved
+    const added = [];
+    for (const candidate of candidates.slice(0, MAX_PER_RUN)) {
+      const story = await stories.createUnless(await extractStory(llm, candidate), (bank) => isBanked(candidate, bank));
+      if (story) added.push(story);
+    }
+
+    return NextResponse.json({ added, remaining: Math.max(candidates.length - MAX_PER_RUN, 0) });
+  } catch (err) {
+    console.error("Story extraction API error:", err);
+    return NextResponse.json({ error: "Failed to extract stories" }, { status: 500 });
+  }
+}
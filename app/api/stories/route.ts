@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getStoryStore } from "@/lib/stories/store";
+import { NewStory, validateStory } from "@/lib/stories/types";
+
+export async function GET() {
+  try {
+    const stories = await getStoryStore().list();
+    return NextResponse.json({ stories });
+  } catch (err) {
+    console.error("Stories API error:", err);
+    return NextResponse.json({ error: "Failed to list stories" }, { status: 500 });
+  }
+}
+
+// A story written by hand in the story bank
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const checked = validateStory(body);
+    if (!checked.ok) {
+      return NextResponse.json({ error: "Invalid story", fields: checked.errors }, { status: 422 });
+    }
+
+    const story = await getStoryStore().create(checked.story as NewStory);
+    return NextResponse.json({ story }, { status: 201 });
+  } catch (err) {
+    console.error("Stories API error:", err);
+    return NextResponse.json({ error: "Failed to create story" }, { status: 500 });
+  }
+}
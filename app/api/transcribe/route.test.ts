@@ -0,0 +1,39 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+
+const FIXTURES = path.join(__dirname, "../../../fixtures/stt");
+
+function post(body: BodyInit) {
+  return POST(new Request("http://localhost/api/transcribe", { method: "POST", body, headers: { "Content-Type": "audio/wav" } }));
+}
+
+describe("POST /api/transcribe", () => {
+  beforeEach(() => vi.stubEnv("STT_FIXTURES_DIR", FIXTURES));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("returns the transcript of a recorded answer", async () => {
+    const res = await post(await fs.readFile(path.join(FIXTURES, "stakeholder-answer.wav")));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      text: (await fs.readFile(path.join(FIXTURES, "stakeholder-answer.txt"), "utf8")).trim(),
+      engine: "fixture",
+      durationSec: 1,
+    });
+  });
+
+  it("rejects audio that isn't a PCM WAV", async () => {
+    const res = await post(new TextEncoder().encode("OggS not a wav file at all, just some bytes to be long enough"));
+    expect(res.status).toBe(415);
+  });
+
+  it("explains the setup when no engine is configured", async () => {
+    vi.stubEnv("STT_FIXTURES_DIR", "");
+    vi.stubEnv("WHISPER_MODEL", "");
+    const res = await post(await fs.readFile(path.join(FIXTURES, "rate-limiter-answer.wav")));
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toMatch(/WHISPER_MODEL/);
+  });
+});
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { resolveStt, SttError } from "@/lib/stt/engine";
+import { readWavHeader } from "@/lib/stt/wav";
+
+// about eight minutes of 16 kHz mono
+const MAX_AUDIO_BYTES = 16 * 1024 * 1024;
+
+// The request body is the recording itself: a 16-bit PCM WAV (Content-Type: audio/wav)
+export async function POST(req: Request) {
+  try {
+    const resolved = resolveStt();
+    if (!resolved.ok) return NextResponse.json({ error: resolved.error }, { status: 500 });
+    const { engine } = resolved;
+
+    if (Number(req.headers.get("content-length") ?? 0) > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: "Recording is longer than 8 minutes." }, { status: 413 });
+    }
+    const audio = new Uint8Array(await req.arrayBuffer());
+    if (!audio.length) {
+      return NextResponse.json({ error: "Missing input: audio (send a WAV file as the request body)" }, { status: 400 });
+    }
+    if (audio.length > MAX_AUDIO_BYTES) {
+      return NextResponse.json({ error: "Recording is longer than 8 minutes." }, { status: 413 });
+    }
+
+    const info = readWavHeader(audio);
+    if (!info) return NextResponse.json({ error: "Expected a 16-bit PCM WAV recording" }, { status: 415 });
+
+    const text = await engine.transcribe(audio, info);
+    return NextResponse.json({ text, engine: engine.name, durationSec: Math.round(info.durationSec * 10) / 10 });
+  } catch (err) {
+    if (err instanceof SttError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Transcribe API error:", err);
+    return NextResponse.json({ error: "Transcription failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { PERSONA_KEYS, Persona } from "@/lib/interview/style";
+import { PITCH_RANGE, RATE_RANGE } from "@/lib/tts/settings";
+import { resolveTts, TtsError } from "@/lib/tts/engine";
+
+const MAX_TEXT_CHARS = 2000;
+
+// Whether server voices are available, so the page only offers them when they are
+export async function GET() {
+  const resolved = resolveTts();
+  return NextResponse.json(resolved.ok ? { available: true, engine: resolved.engine.name } : { available: false });
+}
+
+// JSON { text, persona?, rate?, pitch? } → the spoken audio
+export async function POST(req: Request) {
+  try {
+    const resolved = resolveTts();
+    if (!resolved.ok) return NextResponse.json({ error: resolved.error }, { status: 500 });
+    const { engine } = resolved;
+
+    const body = await req.json();
+    const text = typeof body?.text === "string" ? body.text.replace(/\s+/g, " ").trim() : "";
+    if (!text) return NextResponse.json({ error: "Missing input: text" }, { status: 400 });
+    if (text.length > MAX_TEXT_CHARS) {
+      return NextResponse.json({ error: "Text is too long (2,000 characters max)." }, { status: 413 });
+    }
+    if (body.persona !== undefined && !PERSONA_KEYS.includes(body.persona)) {
+      return NextResponse.json({ error: `persona must be one of: ${PERSONA_KEYS.join(", ")}` }, { status: 400 });
+    }
+    const inRange = (v: unknown, r: { min: number; max: number }) =>
+      v === undefined || (typeof v === "number" && v >= r.min && v <= r.max);
+    if (!inRange(body.rate, RATE_RANGE) || !inRange(body.pitch, PITCH_RANGE)) {
+      return NextResponse.json(
+        { error: `rate must be ${RATE_RANGE.min}–${RATE_RANGE.max} and pitch ${PITCH_RANGE.min}–${PITCH_RANGE.max}` },
+        { status: 400 }
+      );
+    }
+
+    const { audio, contentType } = await engine.synthesize({
+      text,
+      persona: body.persona as Persona | undefined,
+      rate: body.rate ?? 1,
+      pitch: body.pitch ?? 1,
+    });
+    return new Response(audio, { headers: { "Content-Type": contentType, "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof TtsError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("TTS API error:", err);
+    return NextResponse.json({ error: "Speech generation failed" }, { status: 500 });
+  }
+}
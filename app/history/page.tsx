@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { labelStyle } from "@/lib/interview/style";
+import type { SessionSummary } from "@/lib/sessions/types";
+import { canStoreClips, deleteClips } from "@/lib/video/store";
+
+function labelMode(mode: string) {
+  return mode.charAt(0).toUpperCase() + mode.slice(1);
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function HistoryPage() {
+  const router = useRouter();
+
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [error, setError] = useState<string>("");
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/sessions");
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data?.error || "Failed to load sessions");
+          setSessions([]);
+          return;
+        }
+        setSessions(data.sessions);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Network error");
+        setSessions([]);
+      }
+    })();
+  }, []);
+
+  async function deleteSession(id: string) {
+    if (!confirm("Delete this practice session? This can’t be undone.")) return;
+
+    setDeleting(id);
+    setError("");
+    try {
+      const res = await fetch(`/api/sessions/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setError(data?.error || "Delete failed");
+        return;
+      }
+      // answer videos live in this browser, not with the session
+      if (canStoreClips()) await deleteClips(id).catch(() => undefined);
+      setSessions((prev) => (prev ?? []).filter((s) => s.id !== id));
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setDeleting(null);
+    }
+  }
+
+  // Re-imports a JSON export as a new session and opens it
+  async function importSession(file: File) {
+    setImporting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/sessions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const fields = (data?.fields ?? []) as { field: string; message: string }[];
+        setError([data?.error || "Import failed", ...fields.map((f) => `• ${f.field}: ${f.message}`)].join("\n"));
+        return;
+      }
+      router.push(`/interview?session=${data.session.id}`);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-neutral-50">
+      {/* Top bar (match homepage) */}
+      <div className="border-b bg-black text-white">
+        <div className="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Practice History</h1>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.push("/progress")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              Progress
+            </button>
+            <button
+              onClick={() => router.push("/stories")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              Stories
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              New Blueprint
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-6 space-y-6">
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm">
+            <div className="font-semibold text-red-700">Error</div>
+            <div className="text-red-700/90 whitespace-pre-wrap break-words">{error}</div>
+          </div>
+        )}
+
+        <Panel>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h2 className="text-sm font-semibold">Sessions</h2>
+              <p className="text-xs text-black/60">Every interview you start is saved here. Reopen one to keep practicing.</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-black/50">
+                {sessions ? `${sessions.length} saved` : "Loading…"}
+              </span>
+              <label className="cursor-pointer rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50">
+                {importing ? "Importing…" : "Import JSON"}
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  disabled={importing}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importSession(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+
+          <Divider />
+
+          {sessions && sessions.length === 0 ? (
+            <p className="text-sm text-black/60">No sessions yet. Generate a blueprint and start an interview.</p>
+          ) : (
+            <div className="space-y-3">
+              {(sessions ?? []).map((s) => (
+                <div
+                  key={s.id}
+                  className="rounded-2xl border bg-white p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+                >
+                  <div className="space-y-1">
+                    <div className="text-sm font-semibold">{s.company}</div>
+                    <div className="text-xs text-black/60">
+                      {formatDate(s.updatedAt)} · {labelMode(s.mode)}
+                      {s.style ? ` · ${labelStyle(s.style)}` : ""} · {s.answerCount}{" "}
+                      {s.answerCount === 1 ? "answer" : "answers"}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <span className="rounded-full border bg-neutral-50 px-3 py-1 text-xs font-semibold text-black/70">
+                      {s.lastOverall === null ? "Not scored" : `Last score ${s.lastOverall}`}
+                    </span>
+                    {s.finished && (
+                      <button
+                        onClick={() => router.push(`/report?session=${s.id}`)}
+                        className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50"
+                      >
+                        Report
+                      </button>
+                    )}
+                    <button
+                      onClick={() => router.push(`/interview?session=${s.id}`)}
+                      className="rounded-xl bg-black text-white px-3 py-2 text-sm font-semibold hover:bg-black/90"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => deleteSession(s.id)}
+                      disabled={deleting === s.id}
+                      className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50 disabled:opacity-50"
+                    >
+                      {deleting === s.id ? "Deleting…" : "Delete"}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Panel>
+      </div>
+    </main>
+  );
+}
+
+/* ---------- UI helpers ---------- */
+
+function Panel({ children }: { children: React.ReactNode }) {
+  return <div className="rounded-2xl border bg-white p-4 md:p-5 space-y-4 shadow-sm">{children}</div>;
+}
+
+function Divider() {
+  return <div className="h-px bg-black/10" />;
+}
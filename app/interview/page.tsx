@@ -2,49 +2,68 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-
-type InterviewType = "behavioral_technical" | "behavioral_case";
-type Mode = "behavioral" | "technical" | "case";
-
-type Blueprint = {
-  role_focus: string[];
-  likely_interview_type: InterviewType;
-  risk_gaps: string[];
-  company_notes: string[];
-  sample_questions: { type: "behavioral" | "technical" | "case"; question: string }[];
-};
-
-type Turn = {
-  role: "interviewer" | "candidate";
-  content: string;
+import type { Blueprint } from "@/lib/blueprint";
+import { diffWords } from "@/lib/diff";
+import { formatNumber } from "@/lib/case/math";
+import { describeMath, MAX_SCRATCHPAD_CHARS } from "@/lib/case/types";
+import type { Exhibit, MathChecks } from "@/lib/case/types";
+import { describeRun, solutionAnswer, starterCode } from "@/lib/coding/types";
+import type { CodeRun, CodingLanguage } from "@/lib/coding/types";
+import { failedRun, runSolution } from "@/lib/coding/runner";
+import { describeDelivery, formatCounts } from "@/lib/delivery/types";
+import type { AnswerTiming, Delivery } from "@/lib/delivery/types";
+import { combineTimings, finishTiming, heardSpeech, startTiming } from "@/lib/delivery/timing";
+import type { TimingTracker } from "@/lib/delivery/timing";
+import { CONSISTENCY_LABELS, describeConsistency } from "@/lib/interview/consistency";
+import type { Consistency } from "@/lib/interview/consistency";
+import { defaultAnswerMode, InterviewPlan, MAX_FOLLOWUP_DEPTH, PlanDecision, PlanLength, PlanProgress } from "@/lib/interview/plan";
+import type { InterviewReport } from "@/lib/interview/report";
+import {
+  bandOffset,
+  DEFAULT_STYLE,
+  DIFFICULTIES,
+  DIFFICULTY_KEYS,
+  InterviewStyle,
+  PERSONA_KEYS,
+  PERSONAS,
+} from "@/lib/interview/style";
+import type { Coach, Mode, Scorecard, SessionMode, Turn } from "@/lib/interview/types";
+import { evidenceOf, rubricFor, RUBRICS, scoreOf } from "@/lib/scoring/rubrics";
+import type { InterviewSession, ScoredAnswer, SessionUpdate } from "@/lib/sessions/types";
+import { readSse } from "@/lib/sse";
+import { watchVoice, VoiceWatcher } from "@/lib/stt/activity";
+import { AudioRecording, canRecordAudio, recordAudio } from "@/lib/stt/recorder";
+import { ServerVoicePlayer } from "@/lib/tts/player";
+import { canRecordVideo, closeCamera, openCamera, recordClip, VideoClip } from "@/lib/video/recorder";
+import { canStoreClips, listClips, saveClip } from "@/lib/video/store";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  loadVoiceSettings,
+  PITCH_RANGE,
+  RATE_RANGE,
+  saveVoiceSettings,
+  SILENCE_RANGE,
+  VoiceSettings,
+} from "@/lib/tts/settings";
+
+// Final payload of a streamed /api/interview call ("done" event)
+type InterviewerPayload = {
+  interviewer: string;
+  coach?: Coach;
+  scorecard?: Scorecard;
+  plan?: InterviewPlan;
+  progress?: PlanProgress;
+  decision?: PlanDecision;
+  raw?: string;
 };
 
-type Scorecard = {
-  mode: Mode;
-  star: {
-    situation: { present: boolean; evidence: string };
-    task: { present: boolean; evidence: string };
-    action: { present: boolean; evidence: string };
-    result: { present: boolean; evidence: string };
-  };
-  scores: {
-    overall: number;
-    clarity: number;
-    structure: number;
-    impact: number;
-    roleFit: number;
-  };
-  strengths: string[];
-  gaps: string[];
-  rewrite: {
-    improvedAnswer: string;
-    bulletsToAdd: string[];
-  };
-};
+// TTS reads the opening of each question unless the voice settings ask for the whole thing
+const MAX_SPOKEN_SENTENCES = 2;
 
-function badgeForScore(overall: number) {
-  if (overall >= 85) return { label: "🟢 Strong", className: "border-emerald-500 bg-emerald-50 text-emerald-700" };
-  if (overall >= 70) return { label: "🟡 Good but sharpen", className: "border-yellow-500 bg-yellow-50 text-yellow-800" };
+// Bands move with the session's level: a staff answer needs more to count as strong
+function badgeForScore(overall: number, offset = 0) {
+  if (overall >= 85 + offset) return { label: "🟢 Strong", className: "border-emerald-500 bg-emerald-50 text-emerald-700" };
+  if (overall >= 70 + offset) return { label: "🟡 Good but sharpen", className: "border-yellow-500 bg-yellow-50 text-yellow-800" };
   return { label: "🔴 Needs work", className: "border-red-500 bg-red-50 text-red-700" };
 }
 
@@ -56,13 +75,37 @@ export default function InterviewPage() {
   const [jobDescription, setJobDescription] = useState("");
   const [blueprint, setBlueprint] = useState<Blueprint | null>(null);
 
-  const [mode, setMode] = useState<Mode>("behavioral");
+  const [mode, setMode] = useState<SessionMode>("mixed");
+  // null for sessions saved before personas: neutral interviewer, standard bar
+  const [style, setStyle] = useState<InterviewStyle | null>(DEFAULT_STYLE);
+  const [minutes, setMinutes] = useState<PlanLength>(30);
+  const [plan, setPlan] = useState<InterviewPlan | null>(null);
+  const [progress, setProgress] = useState<PlanProgress | null>(null);
 
   const [transcript, setTranscript] = useState<Turn[]>([]);
   const [answer, setAnswer] = useState("");
 
-  const [coach, setCoach] = useState<any>(null);
+  // Coding questions: the editor's code per planned question, and the last test run
+  const [codeLanguage, setCodeLanguage] = useState<CodingLanguage>("javascript");
+  const [codeDrafts, setCodeDrafts] = useState<Record<number, string>>({});
+  const [codeRun, setCodeRun] = useState<CodeRun | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Case questions: the candidate's framework notes per planned question
+  const [scratchpads, setScratchpads] = useState<Record<number, string>>({});
+
+  const [coach, setCoach] = useState<Coach | null>(null);
   const [scorecard, setScorecard] = useState<Scorecard | null>(null);
+  const [scoredAnswers, setScoredAnswers] = useState<ScoredAnswer[]>([]);
+
+  // server-side session this interview is saved to (see /history)
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<"idle" | "saving" | "saved" | "failed">("idle");
+  const [hasReport, setHasReport] = useState(false);
+  const [finishing, setFinishing] = useState(false);
+  // the answer the current scorecard was graded on (for the rewrite diff)
+  const [scoredAnswer, setScoredAnswer] = useState("");
+  const [showDiff, setShowDiff] = useState(false);
 
   const [raw, setRaw] = useState<string>("");
   const [error, setError] = useState<string>("");
@@ -75,8 +118,32 @@ export default function InterviewPage() {
   const [supportedSTT, setSupportedSTT] = useState(true);
   const [supportedTTS, setSupportedTTS] = useState(true);
   const [muted, setMuted] = useState(false);
+  const [voice, setVoice] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [serverVoice, setServerVoice] = useState(false);
+  const serverPlayerRef = useRef<ServerVoicePlayer | null>(null);
+  // Hands-free: speech and silence events fire from closures set up renders ago, so they submit
+  // through this ref to act on the current interview
+  const submitRef = useRef<() => void>(() => {});
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // transcript length at which the candidate pressed Stop; the mic stays closed for that turn
+  const pausedTurnRef = useRef(-1);
+
+  // Video: the camera stays open while it's on; each answer is one clip, saved in IndexedDB
+  const [videoOn, setVideoOn] = useState(false);
+  const [supportedVideo, setSupportedVideo] = useState(false);
+  const [clipCount, setClipCount] = useState(0);
+  const cameraRef = useRef<MediaStream | null>(null);
+  const clipRef = useRef<VideoClip | null>(null);
+  const previewRef = useRef<HTMLVideoElement | null>(null);
 
   const recognitionRef = useRef<any>(null);
+  // timing of the answer being spoken; kept across mic restarts until the answer is submitted
+  const timingRef = useRef<TimingTracker | null>(null);
+  // without the Web Speech API the mic is recorded and transcribed by /api/transcribe
+  const recordingRef = useRef<AudioRecording | null>(null);
+  const recordedTimingRef = useRef<AnswerTiming | null>(null);
+  const [transcribing, setTranscribing] = useState(false);
   const [draftAnswer, setDraftAnswer] = useState("");
   const speakingRef = useRef(false);
 
@@ -92,7 +159,29 @@ export default function InterviewPage() {
       : ["behavioral", "case"];
   }, [blueprint]);
 
+  // Type of the question currently being answered; drives the answer hint
+  const currentType: Mode = plan && progress ? plan.questions[progress.questionIndex].type : defaultAnswerMode(mode);
+
+  const currentProblem =
+    plan && progress && !progress.done ? plan.questions[progress.questionIndex].problem ?? null : null;
+  const code =
+    currentProblem && progress
+      ? codeDrafts[progress.questionIndex] ?? starterCode(currentProblem, codeLanguage)
+      : "";
+
+  const caseQuestion = currentType === "case" && plan && progress && !progress.done ? plan.questions[progress.questionIndex] : null;
+  const scratchpad = caseQuestion && progress ? scratchpads[progress.questionIndex] ?? "" : "";
+
+  const secondaryMode: Mode = blueprint?.likely_interview_type === "behavioral_case" ? "case" : "technical";
+
   useEffect(() => {
+    // /interview?session=<id> reopens a saved session from /history
+    const reopenId = new URLSearchParams(window.location.search).get("session");
+    if (reopenId) {
+      loadSession(reopenId);
+      return;
+    }
+
     const bp = sessionStorage.getItem("interviewee_blueprint");
     const comp = sessionStorage.getItem("interviewee_company");
     const res = sessionStorage.getItem("interviewee_resumeText");
@@ -109,26 +198,82 @@ export default function InterviewPage() {
     setResumeText(res);
     setJobDescription(jd);
 
-    // default mode
-    if (parsed?.likely_interview_type === "behavioral_technical") setMode("behavioral");
-    else setMode("behavioral");
+    // default to the blueprint's predicted loop: behavioral alternating with technical/case
+    setMode("mixed");
   }, [router]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
 
     const w = window as any;
-    const hasSTT = !!(w.SpeechRecognition || w.webkitSpeechRecognition);
+    const hasSTT = !!(w.SpeechRecognition || w.webkitSpeechRecognition) || canRecordAudio();
     const hasTTS = !!window.speechSynthesis;
 
     setSupportedSTT(hasSTT);
     setSupportedTTS(hasTTS);
+    setSupportedVideo(canRecordVideo() && canStoreClips());
   }, []);
 
+  // Voice settings are per browser; the voice list loads asynchronously in Chrome
+  useEffect(() => {
+    setVoice(loadVoiceSettings());
+
+    const synth = typeof window !== "undefined" ? window.speechSynthesis : undefined;
+    const loadVoices = () => setBrowserVoices(synth?.getVoices() ?? []);
+    loadVoices();
+    synth?.addEventListener("voiceschanged", loadVoices);
+
+    fetch("/api/tts")
+      .then((res) => res.json())
+      .then((data) => setServerVoice(Boolean(data?.available)))
+      .catch(() => setServerVoice(false));
+
+    return () => synth?.removeEventListener("voiceschanged", loadVoices);
+  }, []);
+
+  useEffect(() => {
+    submitRef.current = () => {
+      if (voice.handsFree && !loading) void submitAnswer();
+    };
+  });
+
+  // Hands-free turn-taking: once the interviewer has finished speaking, open the mic for the answer
+  useEffect(() => {
+    if (!voice.handsFree || !supportedSTT || !ready || loading || isSpeaking || isListening || transcribing) return;
+    if (transcript.at(-1)?.role !== "interviewer" || progress?.done || (draftAnswer || answer).trim()) return;
+    if (pausedTurnRef.current === transcript.length || voiceBusy()) return;
+    startListening();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [voice.handsFree, supportedSTT, ready, loading, isSpeaking, isListening, transcribing, transcript, progress?.done]);
+
+  // Video: a clip starts when a question is waiting for its answer and ends when the answer is submitted
+  useEffect(() => {
+    if (!videoOn || !cameraRef.current || !sessionId || loading || clipRef.current) return;
+    if (transcript.at(-1)?.role !== "interviewer" || progress?.done) return;
+    clipRef.current = recordClip(cameraRef.current);
+  }, [videoOn, sessionId, loading, transcript, progress?.done]);
+
+  // Barge-in: talking over the interviewer cuts them off, and the effect above opens the mic.
+  // Headphones only, or the interviewer's own voice from the speakers would cut them off.
+  useEffect(() => {
+    if (!voice.handsFree || !voice.headphones || !isSpeaking) return;
+    let watcher: VoiceWatcher | null = null;
+    let done = false;
+    watchVoice({ onSpeech: () => stopSpeaking() })
+      .then((w) => (done ? w.stop() : (watcher = w)))
+      .catch(() => undefined);
+    return () => {
+      done = true;
+      watcher?.stop();
+    };
+  }, [voice.handsFree, voice.headphones, isSpeaking]);
+
   useEffect(() => {
     return () => {
       stopListening();
       stopSpeaking();
+      clipRef.current?.cancel();
+      closeCamera(cameraRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -140,9 +285,43 @@ export default function InterviewPage() {
     return w.SpeechRecognition || w.webkitSpeechRecognition || null;
   }
 
+  function updateVoice(patch: Partial<VoiceSettings>) {
+    setVoice((v) => {
+      const next = { ...v, ...patch };
+      saveVoiceSettings(next);
+      return next;
+    });
+  }
+
+  function speaksWithServerVoice() {
+    return voice.engine === "server" && serverVoice;
+  }
+
+  function serverPlayer() {
+    serverPlayerRef.current ??= new ServerVoicePlayer({
+      onStart: () => {
+        speakingRef.current = true;
+        setIsSpeaking(true);
+      },
+      onIdle: () => {
+        speakingRef.current = false;
+        setIsSpeaking(false);
+      },
+      onError: (message) => setError(message),
+    });
+    return serverPlayerRef.current;
+  }
+
+  // speech queued or playing that hasn't reported its start yet counts too
+  function voiceBusy() {
+    const synth = typeof window !== "undefined" ? window.speechSynthesis : undefined;
+    return Boolean(synth?.speaking || synth?.pending || serverPlayerRef.current?.busy);
+  }
+
   function stopSpeaking() {
     if (typeof window === "undefined") return;
     window.speechSynthesis?.cancel();
+    serverPlayerRef.current?.cancel();
     speakingRef.current = false;
     setIsSpeaking(false);
   }
@@ -151,28 +330,34 @@ export default function InterviewPage() {
     const cleaned = String(text || "").replace(/\s+/g, " ").trim();
     if (!cleaned) return "";
     const parts = cleaned.split(/(?<=[.!?])\s+/);
-    return parts.slice(0, 2).join(" ");
+    return parts.slice(0, MAX_SPOKEN_SENTENCES).join(" ");
   }
 
-  function speak(text: string) {
+  // Queues behind whatever is already being said (used for sentence-by-sentence streaming)
+  function enqueueSpeech(text: string) {
     if (typeof window === "undefined") return;
-    if (!window.speechSynthesis) return;
     if (muted) return;
+    if (!text) return;
 
-    const toSay = firstOneTwoSentences(text);
-    if (!toSay) return;
-
-    stopSpeaking();
+    if (speaksWithServerVoice()) {
+      serverPlayer().enqueue(text, { persona: style?.persona, rate: voice.rate, pitch: voice.pitch });
+      return;
+    }
+    if (!window.speechSynthesis) return;
 
-    const u = new SpeechSynthesisUtterance(toSay);
-    u.rate = 1.0;
-    u.pitch = 1.0;
+    const u = new SpeechSynthesisUtterance(text);
+    u.rate = voice.rate;
+    u.pitch = voice.pitch;
+    const chosen = browserVoices.find((v) => v.voiceURI === voice.voiceURI);
+    if (chosen) u.voice = chosen;
 
     u.onstart = () => {
       speakingRef.current = true;
       setIsSpeaking(true);
     };
     u.onend = () => {
+      // more sentences may still be queued behind this one
+      if (window.speechSynthesis.pending) return;
       speakingRef.current = false;
       setIsSpeaking(false);
     };
@@ -180,10 +365,19 @@ export default function InterviewPage() {
     window.speechSynthesis.speak(u);
   }
 
+  function speak(text: string) {
+    const toSay = voice.reading === "full" ? String(text || "").replace(/\s+/g, " ").trim() : firstOneTwoSentences(text);
+    if (!toSay) return;
+
+    stopSpeaking();
+    enqueueSpeech(toSay);
+  }
+
   function startListening() {
     const SR = getSpeechRecognition();
     if (!SR) {
-      alert("Speech recognition not supported. Use Chrome or Edge.");
+      if (canRecordAudio()) void startRecording();
+      else alert("Voice input isn't supported in this browser.");
       return;
     }
 
@@ -191,6 +385,7 @@ export default function InterviewPage() {
 
     const rec = new SR();
     recognitionRef.current = rec;
+    if (!timingRef.current) timingRef.current = startTiming(Date.now());
 
     rec.lang = "en-US";
     rec.interimResults = true;
@@ -199,6 +394,7 @@ export default function InterviewPage() {
     let finalText = "";
 
     rec.onresult = (event: any) => {
+      if (timingRef.current) timingRef.current = heardSpeech(timingRef.current, Date.now());
       let interim = "";
 
       for (let i = event.resultIndex; i < event.results.length; i++) {
@@ -210,6 +406,12 @@ export default function InterviewPage() {
       const merged = (finalText + interim).trim();
       setDraftAnswer(merged);
       setAnswer(merged);
+
+      // hands-free: the answer ends after a stretch with nothing new recognized
+      if (voice.handsFree && merged) {
+        clearSilenceTimer();
+        silenceTimerRef.current = setTimeout(() => submitRef.current(), voice.silenceSec * 1000);
+      }
     };
 
     rec.onerror = () => setIsListening(false);
@@ -219,24 +421,252 @@ export default function InterviewPage() {
     rec.start();
   }
 
+  async function toggleVideo(on: boolean) {
+    if (!on) {
+      clipRef.current?.cancel();
+      clipRef.current = null;
+      closeCamera(cameraRef.current);
+      cameraRef.current = null;
+      setVideoOn(false);
+      return;
+    }
+    try {
+      cameraRef.current = await openCamera();
+      if (previewRef.current) previewRef.current.srcObject = cameraRef.current;
+      setVideoOn(true);
+    } catch {
+      setError("Couldn't use the camera. Check the browser's permission for this site.");
+    }
+  }
+
+  // Ends the running clip and stores it against the answer's candidate turn
+  async function saveAnswerClip(turnIndex: number, question: string) {
+    const clip = clipRef.current;
+    clipRef.current = null;
+    if (!clip || !sessionId) return;
+    try {
+      const { video, durationMs } = await clip.stop();
+      await saveClip({ sessionId, turnIndex, question, video, durationMs, recordedAt: new Date().toISOString() });
+      setClipCount((n) => n + 1);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? `Video not saved: ${e.message}` : "Video not saved");
+    }
+  }
+
+  function clearSilenceTimer() {
+    if (silenceTimerRef.current) clearTimeout(silenceTimerRef.current);
+    silenceTimerRef.current = null;
+  }
+
   function stopListening() {
+    clearSilenceTimer();
     try {
       recognitionRef.current?.stop();
     } catch {}
+    // a recording stopped this way is dropped, not transcribed
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
     setIsListening(false);
   }
 
+  async function startRecording() {
+    try {
+      recordingRef.current = await recordAudio(
+        voice.handsFree ? { silenceMs: voice.silenceSec * 1000, onSilence: () => submitRef.current() } : {}
+      );
+      setIsListening(true);
+    } catch {
+      setError("Couldn't use the microphone. Check the browser's permission for this site.");
+    }
+  }
+
+  // Stops the recording and appends its server transcript to the answer; returns the answer so far
+  async function finishRecording(): Promise<string> {
+    const current = (draftAnswer || answer).trim();
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsListening(false);
+    if (!recording) return current;
+
+    setTranscribing(true);
+    try {
+      const { wav, timing } = await recording.stop();
+      const res = await fetch("/api/transcribe", { method: "POST", headers: { "Content-Type": "audio/wav" }, body: wav });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Transcription failed");
+
+      recordedTimingRef.current = combineTimings(recordedTimingRef.current, timing);
+      const merged = [current, String(data.text ?? "").trim()].filter(Boolean).join(" ");
+      setDraftAnswer(merged);
+      setAnswer(merged);
+      return merged;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Transcription failed");
+      return current;
+    } finally {
+      setTranscribing(false);
+    }
+  }
+
   function readLastInterviewer() {
     const last = [...transcript].reverse().find((t) => t.role === "interviewer");
     if (!last) return;
     speak(last.content);
   }
 
+  // -------- Sessions --------
+  async function loadSession(id: string) {
+    try {
+      const res = await fetch(`/api/sessions/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Could not load session");
+        return;
+      }
+
+      const session = data.session as InterviewSession;
+      const last = session.scorecards[session.scorecards.length - 1];
+
+      setSessionId(session.id);
+      setBlueprint(session.blueprint);
+      setCompany(session.company);
+      setResumeText(session.resumeText);
+      setJobDescription(session.jobDescription);
+      setMode(session.mode);
+      setStyle(session.style ?? null);
+      setPlan(session.plan ?? null);
+      setProgress(session.progress ?? null);
+      setCodeDrafts({});
+      setCodeRun(null);
+      setScratchpads({});
+      if (session.plan) setMinutes(session.plan.minutes);
+      setTranscript(session.turns);
+      setScoredAnswers(session.scorecards);
+      if (canStoreClips()) {
+        listClips(session.id)
+          .then((clips) => setClipCount(clips.length))
+          .catch(() => setClipCount(0));
+      }
+      setScorecard(last?.scorecard ?? null);
+      setCoach(last?.coach ?? null);
+      setScoredAnswer(last ? session.turns[last.turnIndex]?.content ?? "" : "");
+      setHasReport(Boolean(session.report));
+      setSaveState("saved");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    }
+  }
+
+  async function createSession(): Promise<string | null> {
+    const res = await fetch("/api/sessions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ company, resumeText, jobDescription, blueprint, mode, ...(style ? { style } : {}) }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(`Session not saved: ${data?.error || `request failed (${res.status})`}`);
+      setSaveState("failed");
+      return null;
+    }
+
+    const id = data.session.id as string;
+    setSessionId(id);
+    // keep the URL reopenable without re-running the page's load effect
+    window.history.replaceState(null, "", `/interview?session=${id}`);
+    return id;
+  }
+
+  // Takes effect from the next question; saved right away when the session exists
+  function changeStyle(change: Partial<InterviewStyle>) {
+    const next = { ...(style ?? DEFAULT_STYLE), ...change };
+    setStyle(next);
+    if (sessionId) saveSession(sessionId, { style: next });
+  }
+
+  // Saving is best-effort: a failed save never blocks the interview itself.
+  async function saveSession(id: string | null, patch: SessionUpdate) {
+    if (!id) return;
+    setSaveState("saving");
+    try {
+      const res = await fetch(`/api/sessions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      setSaveState(res.ok ? "saved" : "failed");
+    } catch {
+      setSaveState("failed");
+    }
+  }
+
   // -------- App logic --------
   function transcriptStringFromTurns(turns: Turn[]) {
     return turns.map((t) => `${t.role.toUpperCase()}: ${t.content}`).join("\n");
   }
 
+  // Streams the interviewer's next question into the transcript and speaks each sentence as soon
+  // as it completes. Resolves with the final payload, or null after surfacing an error.
+  async function streamInterviewer(
+    payload: Record<string, unknown>,
+    failure: string
+  ): Promise<InterviewerPayload | null> {
+    const res = await fetch("/api/interview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...payload, stream: true }),
+    });
+
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      setError(data?.error || failure);
+      return null;
+    }
+
+    let text = "";
+    let spokenChars = 0;
+    let spokenSentences = 0;
+    let result: InterviewerPayload | null = null;
+
+    const setLastInterviewerTurn = (content: string) =>
+      setTranscript((prev) => [...prev.slice(0, -1), { role: "interviewer", content }]);
+
+    const maxSentences = voice.reading === "full" ? Infinity : MAX_SPOKEN_SENTENCES;
+    const speakCompletedSentences = (final: boolean) => {
+      while (spokenSentences < maxSentences) {
+        const pending = text.slice(spokenChars);
+        const m = pending.match(/^[\s\S]*?[.!?]+(?=\s)/) ?? (final && pending.trim() ? [pending] : null);
+        if (!m) return;
+        spokenChars += m[0].length;
+        spokenSentences++;
+        enqueueSpeech(m[0].trim());
+      }
+    };
+
+    stopSpeaking();
+    setTranscript((prev) => [...prev, { role: "interviewer", content: "" }]);
+
+    await readSse(res, ({ event, data }) => {
+      const d = data as { text?: string; error?: string } & InterviewerPayload;
+
+      if (event === "token" && d.text) {
+        text += d.text;
+        setLastInterviewerTurn(text);
+        speakCompletedSentences(false);
+      } else if (event === "done") {
+        if (!text.trim()) text = d.interviewer;
+        setLastInterviewerTurn(d.interviewer);
+        speakCompletedSentences(true);
+        result = d;
+      } else if (event === "error") {
+        setError(d.error || failure);
+        if (!text.trim()) setTranscript((prev) => prev.slice(0, -1));
+      }
+    });
+
+    return result;
+  }
+
   async function startInterview() {
     if (!ready) return;
 
@@ -244,40 +674,53 @@ export default function InterviewPage() {
     setError("");
     setCoach(null);
     setScorecard(null);
+    setScoredAnswers([]);
+    setScoredAnswer("");
+    setHasReport(false);
+    setPlan(null);
+    setProgress(null);
+    clipRef.current?.cancel();
+    clipRef.current = null;
+    setClipCount(0);
+    setCodeDrafts({});
+    setCodeRun(null);
+    setScratchpads({});
     setRaw("");
     setTranscript([]);
     setAnswer("");
     setDraftAnswer("");
+    timingRef.current = null;
+    recordedTimingRef.current = null;
 
     stopListening();
     stopSpeaking();
 
     try {
-      const res = await fetch("/api/interview", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      const id = await createSession();
+
+      const data = await streamInterviewer(
+        {
           step: "start",
           company,
           resumeText,
           jobDescription,
           blueprint,
           mode,
-        }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        setError(data?.error || "Start interview failed");
-        setLoading(false);
-        return;
-      }
-
-      if (data?.interviewer) {
-        const q = data.interviewer as string;
-        setTranscript([{ role: "interviewer", content: q }]);
-        setTimeout(() => speak(q), 250);
+          minutes,
+          ...(style ? { style } : {}),
+          ...(id ? { sessionId: id } : {}),
+        },
+        "Start interview failed"
+      );
+
+      if (data) {
+        setPlan(data.plan ?? null);
+        setProgress(data.progress ?? null);
+        saveSession(id, {
+          mode,
+          turns: [{ role: "interviewer", content: data.interviewer }],
+          ...(data.plan && data.progress ? { plan: data.plan, progress: data.progress } : {}),
+        });
       }
     } catch (e: any) {
       setError(e?.message || "Network error");
@@ -286,10 +729,13 @@ export default function InterviewPage() {
     setLoading(false);
   }
 
-  async function submitAnswer() {
+  // `solution` is set when a coding answer is submitted: the code (with any notes) and its test run
+  async function submitAnswer(solution?: { answer: string; run: CodeRun }) {
     if (!ready) return;
 
-    const finalAnswer = (draftAnswer || answer).trim();
+    // a recording still running is transcribed first and becomes (the end of) the answer
+    const spoken = recordingRef.current ? await finishRecording() : null;
+    const finalAnswer = solution?.answer ?? (spoken ?? (draftAnswer || answer)).trim();
     if (!finalAnswer) return;
 
     if (transcript.length === 0) {
@@ -302,46 +748,70 @@ export default function InterviewPage() {
     setRaw("");
 
     stopListening();
+    // coding answers are judged on the code, not how it was said
+    const timing = solution ? null : combineTimings(finishTiming(timingRef.current), recordedTimingRef.current);
+    timingRef.current = null;
+    recordedTimingRef.current = null;
 
     const nextTurns: Turn[] = [...transcript, { role: "candidate", content: finalAnswer }];
+    void saveAnswerClip(transcript.length, transcript.at(-1)?.content ?? "");
 
     setTranscript(nextTurns);
     setAnswer("");
     setDraftAnswer("");
 
     try {
-      const res = await fetch("/api/interview", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      const data = await streamInterviewer(
+        {
           step: "followup",
           company,
           resumeText,
           jobDescription,
           blueprint,
           mode,
-          transcript: transcriptStringFromTurns(nextTurns),
+          // saved sessions are remembered server-side; otherwise send the whole transcript
+          ...(sessionId ? { sessionId } : { transcript: transcriptStringFromTurns(nextTurns) }),
           candidateAnswer: finalAnswer,
-        }),
-      });
+          ...(style ? { style } : {}),
+          ...(plan && progress ? { plan, progress } : {}),
+          ...(solution ? { codeRun: solution.run } : {}),
+          ...(scratchpad.trim() ? { scratchpad } : {}),
+          ...(timing ? { timing } : {}),
+        },
+        "Follow-up failed"
+      );
 
-      const data = await res.json();
-
-      if (!res.ok) {
-        setError(data?.error || "Follow-up failed");
-        setLoading(false);
-        return;
+      if (data?.coach) setCoach(data.coach);
+      if (data?.scorecard) {
+        setScorecard(data.scorecard);
+        setScoredAnswer(finalAnswer);
       }
-
-      if (data?.interviewer) {
-        const q = data.interviewer as string;
-        setTranscript((prev) => [...prev, { role: "interviewer", content: q }]);
-        setTimeout(() => speak(q), 250);
+      if (data?.raw) setRaw(data.raw);
+      if (data?.progress) {
+        if (data.progress.questionIndex !== progress?.questionIndex) setCodeRun(null);
+        setProgress(data.progress);
       }
 
-      if (data?.coach) setCoach(data.coach);
-      if (data?.scorecard) setScorecard(data.scorecard);
-      if (data?.raw) setRaw(data.raw);
+      if (data) {
+        const scored: ScoredAnswer[] = data.scorecard
+          ? [
+              ...scoredAnswers,
+              {
+                turnIndex: nextTurns.length - 1,
+                scorecard: data.scorecard,
+                coach: data.coach,
+                answeredAt: new Date().toISOString(),
+              },
+            ]
+          : scoredAnswers;
+        setScoredAnswers(scored);
+        saveSession(sessionId, {
+          mode,
+          turns: [...nextTurns, { role: "interviewer", content: data.interviewer }],
+          scorecards: scored,
+          ...(data.progress ? { progress: data.progress } : {}),
+        });
+      }
     } catch (e: any) {
       setError(e?.message || "Network error");
     }
@@ -349,6 +819,111 @@ export default function InterviewPage() {
     setLoading(false);
   }
 
+  // Runs the editor's code against the current problem in a sandboxed worker. TypeScript is
+  // stripped to JavaScript by the server first; a syntax error comes back as a failed run.
+  async function runCode(): Promise<CodeRun | null> {
+    if (!currentProblem) return null;
+
+    setRunning(true);
+    setError("");
+    try {
+      let js = code;
+      if (codeLanguage === "typescript") {
+        const res = await fetch("/api/coding/transpile", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code }),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          if (res.status !== 422) {
+            setError(data?.error || "Transpile failed");
+            return null;
+          }
+          const run = failedRun(currentProblem, codeLanguage, data.error);
+          setCodeRun(run);
+          return run;
+        }
+        js = data.js;
+      }
+
+      const run = await runSolution(js, currentProblem, codeLanguage);
+      setCodeRun(run);
+      return run;
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Could not run the tests");
+      return null;
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  // Runs the tests one last time and sends the code, the answer box's notes and the results
+  async function submitSolution() {
+    const run = await runCode();
+    if (!run) return;
+    await submitAnswer({ answer: solutionAnswer(draftAnswer || answer, code, codeLanguage), run });
+  }
+
+  // Follow-up depth is editable per question until the interview moves past it
+  function setFollowupDepth(index: number, depth: number) {
+    if (!plan) return;
+    const next: InterviewPlan = {
+      ...plan,
+      questions: plan.questions.map((q, i) => (i === index ? { ...q, maxFollowups: depth } : q)),
+    };
+    setPlan(next);
+    saveSession(sessionId, { plan: next });
+  }
+
+  // Ends the interview: builds the session report, saves it, and opens the report page.
+  async function finishInterview() {
+    if (!scoredAnswers.length) return;
+
+    setFinishing(true);
+    setError("");
+
+    stopListening();
+    stopSpeaking();
+    // the clip running now is of a question nobody answered
+    clipRef.current?.cancel();
+    clipRef.current = null;
+
+    try {
+      const res = await fetch("/api/interview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          step: "finish",
+          company,
+          blueprint,
+          mode,
+          ...(style ? { style } : {}),
+          turns: transcript,
+          scorecards: scoredAnswers,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data?.error || "Finish interview failed");
+        return;
+      }
+
+      const report = data.report as InterviewReport;
+      // the report page reads this when the session couldn't be saved
+      sessionStorage.setItem("interviewee_report", JSON.stringify(report));
+      await saveSession(sessionId, { report });
+      setHasReport(true);
+
+      router.push(sessionId ? `/report?session=${sessionId}` : "/report");
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setFinishing(false);
+    }
+  }
+
   const hasCandidateAnswered = useMemo(
     () => transcript.some((t) => t.role === "candidate"),
     [transcript]
@@ -364,7 +939,7 @@ export default function InterviewPage() {
   }
 
   const overall = scorecard?.scores?.overall ?? 0;
-  const badge = badgeForScore(overall);
+  const badge = badgeForScore(overall, bandOffset(style ?? undefined));
 
   return (
     <main className="min-h-screen bg-neutral-50">
@@ -383,6 +958,13 @@ export default function InterviewPage() {
               Gemini-powered
             </span>
 
+            <button
+              onClick={() => router.push("/history")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              History
+            </button>
+
             <button
               onClick={() => router.push("/")}
               className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
@@ -421,37 +1003,111 @@ export default function InterviewPage() {
 
               <div className="grid gap-3">
                 <MiniStat label="Company" value={company || "—"} />
+                <MiniStat
+                  label="History"
+                  value={
+                    !sessionId
+                      ? "Not saved yet"
+                      : saveState === "saving"
+                        ? "Saving…"
+                        : saveState === "failed"
+                          ? "Save failed"
+                          : "Saved"
+                  }
+                  hint={sessionId ? "Reopen it any time from History." : "Saved once you start the interview."}
+                />
                 <MiniStat
                   label="Mode"
-                  value={mode.charAt(0).toUpperCase() + mode.slice(1)}
+                  value={
+                    mode === "mixed"
+                      ? `Mixed · now ${currentType}`
+                      : mode === "coding"
+                        ? "Coding (graded as technical)"
+                        : mode.charAt(0).toUpperCase() + mode.slice(1)
+                  }
                   hint={blueprint?.likely_interview_type ? `Blueprint: ${blueprint.likely_interview_type}` : ""}
                 />
               </div>
 
+              {sessionId && <ExportLinks sessionId={sessionId} />}
+
               <Divider />
 
               <Field label="Interview mode">
                 <select
                   className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
                   value={mode}
-                  onChange={(e) => setMode(e.target.value as Mode)}
+                  onChange={(e) => setMode(e.target.value as SessionMode)}
                   disabled={!ready || loading}
                 >
+                  <option value="mixed">
+                    Mixed (Behavioral + {secondaryMode.charAt(0).toUpperCase() + secondaryMode.slice(1)})
+                  </option>
                   {allowedModes.includes("behavioral") && <option value="behavioral">Behavioral</option>}
                   {allowedModes.includes("technical") && <option value="technical">Technical</option>}
                   {allowedModes.includes("case") && <option value="case">Case</option>}
+                  {allowedModes.includes("technical") && <option value="coding">Coding (live editor)</option>}
                 </select>
                 <p className="text-xs text-black/50 mt-1">
-                  Limited by blueprint: {blueprint?.likely_interview_type ?? "—"}.
+                  Limited by blueprint: {blueprint?.likely_interview_type ?? "—"}. Mixed alternates two-question segments.
                 </p>
               </Field>
 
+              <div className="grid grid-cols-2 gap-3">
+                <Field label="Interviewer">
+                  <select
+                    className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                    value={(style ?? DEFAULT_STYLE).persona}
+                    onChange={(e) => changeStyle({ persona: e.target.value as InterviewStyle["persona"] })}
+                    disabled={!ready || loading}
+                  >
+                    {PERSONA_KEYS.map((p) => (
+                      <option key={p} value={p}>
+                        {PERSONAS[p].label}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label="Level">
+                  <select
+                    className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                    value={(style ?? DEFAULT_STYLE).difficulty}
+                    onChange={(e) => changeStyle({ difficulty: e.target.value as InterviewStyle["difficulty"] })}
+                    disabled={!ready || loading}
+                  >
+                    {DIFFICULTY_KEYS.map((d) => (
+                      <option key={d} value={d}>
+                        {DIFFICULTIES[d].label}
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+              </div>
+              <p className="text-xs text-black/50 -mt-2">
+                {style
+                  ? `${PERSONAS[style.persona].followups} ${DIFFICULTIES[style.difficulty].label} bar: ${DIFFICULTIES[style.difficulty].expectations}`
+                  : "This session predates personas: neutral interviewer, standard bar. Pick one to switch."}
+              </p>
+
+              <Field label="Interview length">
+                <select
+                  className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                  value={minutes}
+                  onChange={(e) => setMinutes(Number(e.target.value) as PlanLength)}
+                  disabled={!ready || loading}
+                >
+                  <option value={30}>30 minutes · {mode === "coding" ? "2 problems" : "4 questions"}</option>
+                  <option value={45}>45 minutes · {mode === "coding" ? "3 problems" : "6 questions"}</option>
+                </select>
+                <p className="text-xs text-black/50 mt-1">Applies when you start a new interview.</p>
+              </Field>
+
               {/* Voice Controls */}
               <div className="rounded-2xl border bg-white p-4 space-y-3 shadow-sm">
                 <div className="flex items-center justify-between">
                   <div className="text-sm font-semibold">Voice controls</div>
                   <span className="text-xs text-black/50">
-                    {isListening ? "Listening…" : isSpeaking ? "Speaking…" : "Idle"}
+                    {transcribing ? "Transcribing…" : isListening ? "Listening…" : isSpeaking ? "Speaking…" : "Idle"}
                   </span>
                 </div>
 
@@ -466,15 +1122,17 @@ export default function InterviewPage() {
                         stopSpeaking();
                         startListening();
                       }}
-                      disabled={isListening || loading}
+                      disabled={isListening || transcribing || loading}
                     >
                       🎙 Start Voice
                     </Btn>
 
                     <Btn
                       onClick={() => {
-                        stopListening();
+                        if (recordingRef.current) void finishRecording();
+                        else stopListening();
                         stopSpeaking();
+                        pausedTurnRef.current = transcript.length;
                       }}
                       disabled={!isListening && !isSpeaking}
                     >
@@ -498,8 +1156,159 @@ export default function InterviewPage() {
                     </Btn>
                   </div>
                 )}
+
+                {supportedSTT && supportedTTS && (
+                  <label className="flex items-start gap-2 text-xs text-black/70">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 accent-emerald-600"
+                      checked={voice.handsFree}
+                      onChange={(e) => {
+                        if (!e.target.checked) clearSilenceTimer();
+                        updateVoice({ handsFree: e.target.checked });
+                      }}
+                    />
+                    <span>
+                      <span className="font-semibold">Hands-free</span> — the mic opens when the interviewer stops,{" "}
+                      {voice.silenceSec}s of silence submits your answer.
+                    </span>
+                  </label>
+                )}
+
+                {supportedSTT && supportedTTS && voice.handsFree && (
+                  <label className="flex items-start gap-2 text-xs text-black/70">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 accent-emerald-600"
+                      checked={voice.headphones}
+                      onChange={(e) => updateVoice({ headphones: e.target.checked })}
+                    />
+                    <span>
+                      <span className="font-semibold">I&apos;m wearing headphones</span> — talking cuts the interviewer
+                      off. Left off, you wait for each question to finish, so the speakers can&apos;t interrupt it.
+                    </span>
+                  </label>
+                )}
+
+                <details className="text-xs">
+                  <summary className="cursor-pointer font-semibold text-black/70">Voice settings</summary>
+                  <div className="space-y-2 pt-2">
+                    {serverVoice && (
+                      <Field label="Interviewer voice">
+                        <select
+                          className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                          value={voice.engine}
+                          onChange={(e) => updateVoice({ engine: e.target.value as VoiceSettings["engine"] })}
+                        >
+                          <option value="browser">This browser&apos;s voices</option>
+                          <option value="server">Persona voice (same in every browser)</option>
+                        </select>
+                      </Field>
+                    )}
+
+                    {!speaksWithServerVoice() && (
+                      <Field label="Browser voice">
+                        <select
+                          className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                          value={voice.voiceURI ?? ""}
+                          onChange={(e) => updateVoice({ voiceURI: e.target.value || null })}
+                        >
+                          <option value="">Default</option>
+                          {browserVoices.map((v) => (
+                            <option key={v.voiceURI} value={v.voiceURI}>
+                              {v.name} ({v.lang})
+                            </option>
+                          ))}
+                        </select>
+                      </Field>
+                    )}
+
+                    <Field label={`Rate · ${voice.rate.toFixed(1)}×`}>
+                      <input
+                        type="range"
+                        className="w-full accent-emerald-600"
+                        min={RATE_RANGE.min}
+                        max={RATE_RANGE.max}
+                        step={0.1}
+                        value={voice.rate}
+                        onChange={(e) => updateVoice({ rate: Number(e.target.value) })}
+                      />
+                    </Field>
+
+                    <Field label={`Pitch · ${voice.pitch.toFixed(1)}`}>
+                      <input
+                        type="range"
+                        className="w-full accent-emerald-600"
+                        min={PITCH_RANGE.min}
+                        max={PITCH_RANGE.max}
+                        step={0.1}
+                        value={voice.pitch}
+                        onChange={(e) => updateVoice({ pitch: Number(e.target.value) })}
+                      />
+                    </Field>
+
+                    <Field label={`Hands-free: end the answer after ${voice.silenceSec}s of silence`}>
+                      <input
+                        type="range"
+                        className="w-full accent-emerald-600"
+                        min={SILENCE_RANGE.min}
+                        max={SILENCE_RANGE.max}
+                        step={1}
+                        value={voice.silenceSec}
+                        onChange={(e) => updateVoice({ silenceSec: Number(e.target.value) })}
+                      />
+                    </Field>
+
+                    <Field label="Read aloud">
+                      <select
+                        className="w-full rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                        value={voice.reading}
+                        onChange={(e) => updateVoice({ reading: e.target.value as VoiceSettings["reading"] })}
+                      >
+                        <option value="summary">Opening sentences of each question</option>
+                        <option value="full">The whole question</option>
+                      </select>
+                    </Field>
+
+                    <Btn
+                      onClick={() => {
+                        stopSpeaking();
+                        enqueueSpeech("Tell me about a time you had to make a decision without all the data.");
+                      }}
+                      disabled={muted}
+                    >
+                      ▶ Test voice
+                    </Btn>
+                  </div>
+                </details>
               </div>
 
+              {supportedVideo && (
+                <div className="rounded-2xl border bg-white p-4 space-y-3 shadow-sm">
+                  <label className="flex items-start gap-2 text-xs text-black/70">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 accent-emerald-600"
+                      checked={videoOn}
+                      onChange={(e) => void toggleVideo(e.target.checked)}
+                      disabled={!sessionId}
+                    />
+                    <span>
+                      <span className="font-semibold">Record video of my answers</span> — stays in this browser, for
+                      reviewing body language next to your scores.
+                      {!sessionId && " Needs a saved session."}
+                    </span>
+                  </label>
+                  <video
+                    ref={previewRef}
+                    autoPlay
+                    muted
+                    playsInline
+                    className={`w-full rounded-xl bg-black aspect-video -scale-x-100 ${videoOn ? "" : "hidden"}`}
+                  />
+                </div>
+              )}
+
               <button
                 onClick={startInterview}
                 disabled={!ready || loading}
@@ -515,6 +1324,61 @@ export default function InterviewPage() {
               </div>
             </Panel>
 
+            {plan && progress && (
+              <Panel>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-sm font-semibold">Interview plan</h2>
+                    <p className="text-xs text-black/60">
+                      {plan.minutes} minutes · question {Math.min(progress.questionIndex + 1, plan.questions.length)} of{" "}
+                      {plan.questions.length}
+                    </p>
+                  </div>
+                  <span className="inline-flex items-center rounded-full border bg-white px-3 py-1 text-xs text-black/60">
+                    {progress.done ? "Complete" : `Follow-ups ${progress.followupsAsked}/${plan.questions[progress.questionIndex].maxFollowups}`}
+                  </span>
+                </div>
+
+                <Divider />
+
+                <ol className="space-y-2">
+                  {plan.questions.map((q, i) => {
+                    const status =
+                      i < progress.questionIndex || progress.done ? "done" : i === progress.questionIndex ? "current" : "upcoming";
+                    return (
+                      <li
+                        key={i}
+                        className={`rounded-xl border p-3 text-xs space-y-1 ${
+                          status === "current" ? "border-emerald-500 bg-emerald-50" : "bg-white"
+                        } ${status === "done" ? "opacity-60" : ""}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-semibold">
+                            {status === "done" ? "✓ " : ""}Q{i + 1} · {q.type.charAt(0).toUpperCase() + q.type.slice(1)}
+                            {q.focus ? ` · ${q.focus}` : ""}
+                          </span>
+                          <select
+                            className="rounded-lg border bg-white px-1.5 py-0.5 text-xs"
+                            value={q.maxFollowups}
+                            onChange={(e) => setFollowupDepth(i, Number(e.target.value))}
+                            disabled={status === "done" || loading}
+                            title="Follow-up depth"
+                          >
+                            {Array.from({ length: MAX_FOLLOWUP_DEPTH + 1 }, (_, n) => (
+                              <option key={n} value={n}>
+                                {n} follow-up{n === 1 ? "" : "s"}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="text-black/70">{q.question}</div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </Panel>
+            )}
+
             <Panel>
               <h2 className="text-sm font-semibold">Coach feedback</h2>
               {!hasCandidateAnswered ? (
@@ -522,7 +1386,7 @@ export default function InterviewPage() {
               ) : (
                 <pre className="text-xs whitespace-pre-wrap text-black/70">
                   {coach
-                    ? `Mode: ${coach.mode}\nSTAR: ${coach.star}\nMissing: ${coach.missing}\nWhy: ${coach.why}\nFollow-up intent: ${coach.intent}`
+                    ? `Mode: ${coach.mode}\n${coach.mode === "behavioral" ? "STAR" : "Rubric"}: ${coach.star}\nMissing: ${coach.missing}\nWhy: ${coach.why}\nFollow-up intent: ${coach.intent}`
                     : "—"}
                 </pre>
               )}
@@ -549,28 +1413,72 @@ export default function InterviewPage() {
                     </div>
 
                     <div className="text-right text-xs text-black/50">
-                      Out of 100
+                      <div>Out of 100</div>
+                      <div>{scorecard.source === "model" ? "Graded by Gemini" : "Quick heuristic score"}</div>
                     </div>
                   </div>
 
                   <Divider />
 
-                  <div className="space-y-2">
-                    <div className="text-xs font-semibold text-black/70">STAR checklist</div>
-                    <StarRow label="Situation" item={scorecard.star.situation} />
-                    <StarRow label="Task" item={scorecard.star.task} />
-                    <StarRow label="Action" item={scorecard.star.action} />
-                    <StarRow label="Result" item={scorecard.star.result} />
-                  </div>
+                  {scorecard.mode === "technical" && scorecard.tests && (
+                    <>
+                      <div className="rounded-xl border bg-white p-3 text-xs">
+                        <div className="font-semibold">Tests</div>
+                        <div className="text-black/60 mt-1">{describeRun(scorecard.tests)}</div>
+                      </div>
 
-                  <Divider />
+                      <Divider />
+                    </>
+                  )}
+
+                  {scorecard.mode === "case" && scorecard.math && (
+                    <>
+                      <MathResults math={scorecard.math} />
+
+                      <Divider />
+                    </>
+                  )}
+
+                  {scorecard.consistency && (
+                    <>
+                      <ConsistencyResults consistency={scorecard.consistency} />
+
+                      <Divider />
+                    </>
+                  )}
+
+                  {scorecard.delivery && (
+                    <>
+                      <DeliveryResults delivery={scorecard.delivery} />
+
+                      <Divider />
+                    </>
+                  )}
+
+                  {scorecard.mode === "behavioral" && (
+                    <>
+                      <div className="space-y-2">
+                        <div className="text-xs font-semibold text-black/70">STAR checklist</div>
+                        <StarRow label="Situation" item={scorecard.star.situation} />
+                        <StarRow label="Task" item={scorecard.star.task} />
+                        <StarRow label="Action" item={scorecard.star.action} />
+                        <StarRow label="Result" item={scorecard.star.result} />
+                      </div>
+
+                      <Divider />
+                    </>
+                  )}
 
                   <div className="space-y-2">
-                    <div className="text-xs font-semibold text-black/70">Category scores</div>
-                    <ScoreRow label="Clarity" value={scorecard.scores.clarity} />
-                    <ScoreRow label="Structure" value={scorecard.scores.structure} />
-                    <ScoreRow label="Impact" value={scorecard.scores.impact} />
-                    <ScoreRow label="Role fit" value={scorecard.scores.roleFit} />
+                    <div className="text-xs font-semibold text-black/70">{rubricFor(scorecard).name} rubric</div>
+                    {rubricFor(scorecard).dimensions.map((d) => (
+                      <ScoreRow
+                        key={d.key}
+                        label={d.label}
+                        value={scoreOf(scorecard, d.key) ?? 0}
+                        evidence={evidenceOf(scorecard, d.key)}
+                      />
+                    ))}
                   </div>
                 </div>
               )}
@@ -617,6 +1525,106 @@ export default function InterviewPage() {
               )}
             </Panel>
 
+            {caseQuestion && progress && (
+              <Panel>
+                <div>
+                  <h2 className="text-sm font-semibold">Case workspace</h2>
+                  <p className="text-xs text-black/60">
+                    {caseQuestion.exhibits
+                      ? "Work from the exhibits. Calculations written as “a × b = c” are checked against them."
+                      : "Sketch your framework here. Calculations written as “a × b = c” are checked."}
+                  </p>
+                </div>
+
+                {caseQuestion.exhibits?.map((e, i) => <ExhibitView key={i} exhibit={e} n={i + 1} />)}
+
+                <Divider />
+
+                <Field label="Scratchpad (sent with your answer)">
+                  <textarea
+                    className="w-full rounded-2xl border p-3 font-mono text-xs min-h-[120px] outline-none focus:ring-4 focus:ring-emerald-200"
+                    value={scratchpad}
+                    maxLength={MAX_SCRATCHPAD_CHARS}
+                    onChange={(e) => setScratchpads((d) => ({ ...d, [progress.questionIndex]: e.target.value }))}
+                    placeholder={"- Revenue: price × volume\n- Costs: fixed vs variable\n- 120k × $40 = $4.8M"}
+                    disabled={loading}
+                  />
+                </Field>
+              </Panel>
+            )}
+
+            {currentProblem && progress && (
+              <Panel>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-sm font-semibold">{currentProblem.title}</h2>
+                    <p className="text-xs text-black/60">
+                      Write <code className="font-mono">{currentProblem.functionName}</code>. Examples are shown; hidden
+                      tests run too.
+                    </p>
+                  </div>
+                  <select
+                    className="rounded-xl border bg-white px-2 py-1 text-xs"
+                    value={codeLanguage}
+                    onChange={(e) => setCodeLanguage(e.target.value as CodingLanguage)}
+                    disabled={loading || running}
+                  >
+                    <option value="javascript">JavaScript</option>
+                    <option value="typescript">TypeScript</option>
+                  </select>
+                </div>
+
+                <p className="text-sm text-black/80">{currentProblem.statement}</p>
+
+                <ul className="space-y-1 text-xs font-mono text-black/70">
+                  {currentProblem.examples.map((t, i) => (
+                    <li key={i}>
+                      {currentProblem.functionName}({t.args.map((a) => JSON.stringify(a)).join(", ")}) →{" "}
+                      {JSON.stringify(t.expected)}
+                    </li>
+                  ))}
+                </ul>
+
+                <Divider />
+
+                <textarea
+                  className="w-full rounded-2xl border bg-neutral-950 text-neutral-100 p-3 font-mono text-xs min-h-[220px] outline-none focus:ring-4 focus:ring-emerald-200"
+                  value={code}
+                  spellCheck={false}
+                  onChange={(e) => setCodeDrafts((d) => ({ ...d, [progress.questionIndex]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    // Tab indents instead of leaving the editor
+                    if (e.key !== "Tab") return;
+                    e.preventDefault();
+                    const el = e.currentTarget;
+                    const { selectionStart: start, selectionEnd: end } = el;
+                    const next = `${code.slice(0, start)}  ${code.slice(end)}`;
+                    setCodeDrafts((d) => ({ ...d, [progress.questionIndex]: next }));
+                    requestAnimationFrame(() => el.setSelectionRange(start + 2, start + 2));
+                  }}
+                  disabled={loading}
+                />
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <Btn onClick={runCode} disabled={loading || running}>
+                    {running ? "Running…" : "▶ Run Tests"}
+                  </Btn>
+                  <button
+                    onClick={submitSolution}
+                    disabled={!ready || loading || running}
+                    className="rounded-xl bg-black text-white px-4 py-2.5 text-sm font-semibold shadow-sm hover:bg-black/90 disabled:opacity-50"
+                  >
+                    Submit Solution
+                  </button>
+                  <span className="sm:ml-auto self-center text-xs text-black/50">
+                    Notes in “Your answer” are sent with the code.
+                  </span>
+                </div>
+
+                {codeRun && <TestResults run={codeRun} />}
+              </Panel>
+            )}
+
             <Panel>
               <h2 className="text-sm font-semibold">Your answer</h2>
               <p className="text-xs text-black/60">
@@ -633,17 +1641,19 @@ export default function InterviewPage() {
                   setAnswer(e.target.value);
                 }}
                 placeholder={
-                  mode === "behavioral"
-                    ? "Situation… Task… Action… Result…"
-                    : "Type your answer…"
+                  currentProblem
+                    ? "Talk through your approach and complexity, or answer the follow-up…"
+                    : currentType === "behavioral"
+                      ? "Situation… Task… Action… Result…"
+                      : "Type your answer…"
                 }
                 disabled={!ready || loading}
               />
 
               <div className="mt-3 flex flex-col sm:flex-row gap-3">
                 <button
-                  onClick={submitAnswer}
-                  disabled={!ready || loading || !(draftAnswer || answer).trim()}
+                  onClick={() => submitAnswer()}
+                  disabled={!ready || loading || transcribing || progress?.done || !(draftAnswer || answer).trim()}
                   className="rounded-xl bg-black text-white px-4 py-2.5 text-sm font-semibold shadow-sm hover:bg-black/90 disabled:opacity-50"
                 >
                   {loading ? "Thinking…" : "Submit Answer"}
@@ -659,7 +1669,39 @@ export default function InterviewPage() {
                 >
                   Clear
                 </button>
+
+                <button
+                  onClick={finishInterview}
+                  disabled={loading || finishing || scoredAnswers.length === 0}
+                  className="sm:ml-auto rounded-xl border border-emerald-600 bg-white px-4 py-2.5 text-sm font-semibold text-emerald-700 hover:bg-emerald-50 disabled:opacity-50"
+                >
+                  {finishing ? "Building report…" : "Finish Interview"}
+                </button>
+
+                {clipCount > 0 && sessionId && (
+                  <button
+                    onClick={() => router.push(`/review?session=${sessionId}`)}
+                    className="rounded-xl border bg-white px-4 py-2.5 text-sm font-semibold hover:bg-neutral-50"
+                  >
+                    Review Video
+                  </button>
+                )}
+
+                {hasReport && sessionId && (
+                  <button
+                    onClick={() => router.push(`/report?session=${sessionId}`)}
+                    className="rounded-xl border bg-white px-4 py-2.5 text-sm font-semibold hover:bg-neutral-50"
+                  >
+                    View Report
+                  </button>
+                )}
               </div>
+
+              {progress?.done && (
+                <p className="mt-3 text-xs text-emerald-700">
+                  That was the last planned question. Click Finish Interview for your report.
+                </p>
+              )}
             </Panel>
 
             {scorecard && (
@@ -686,18 +1728,33 @@ export default function InterviewPage() {
 
                 <Panel>
                   <div className="flex items-center justify-between gap-3">
-                    <h2 className="text-sm font-semibold">Rewritten answer (STAR)</h2>
-                    <button
-                      onClick={() => copy(scorecard.rewrite.improvedAnswer)}
-                      className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50"
-                    >
-                      Copy
-                    </button>
+                    <h2 className="text-sm font-semibold">
+                      Rewritten answer ({RUBRICS[scorecard.mode].outline.join(" / ")})
+                    </h2>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setShowDiff((d) => !d)}
+                        disabled={!scoredAnswer}
+                        className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50 disabled:opacity-50"
+                      >
+                        {showDiff ? "Rewrite" : "Diff"}
+                      </button>
+                      <button
+                        onClick={() => copy(scorecard.rewrite.improvedAnswer)}
+                        className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50"
+                      >
+                        Copy
+                      </button>
+                    </div>
                   </div>
                   <Divider />
-                  <pre className="text-sm whitespace-pre-wrap text-black/80">
-                    {scorecard.rewrite.improvedAnswer}
-                  </pre>
+                  {showDiff && scoredAnswer ? (
+                    <RewriteDiff before={scoredAnswer} after={scorecard.rewrite.improvedAnswer} />
+                  ) : (
+                    <pre className="text-sm whitespace-pre-wrap text-black/80">
+                      <Placeholders text={scorecard.rewrite.improvedAnswer} />
+                    </pre>
+                  )}
                 </Panel>
 
                 <Panel>
@@ -768,6 +1825,25 @@ function Btn({
   );
 }
 
+// Downloads come straight from the export route; the PDF/Markdown include everything saved so far
+function ExportLinks({ sessionId }: { sessionId: string }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-semibold text-black/60">Export</span>
+      {(["md", "pdf", "json"] as const).map((format) => (
+        <a
+          key={format}
+          href={`/api/sessions/${sessionId}/export?format=${format}`}
+          download
+          className="rounded-lg border bg-white px-2 py-1 font-semibold hover:bg-neutral-50"
+        >
+          {format === "md" ? "Markdown" : format.toUpperCase()}
+        </a>
+      ))}
+    </div>
+  );
+}
+
 function MiniStat({
   label,
   value,
@@ -817,12 +1893,289 @@ function StarRow({
   );
 }
 
-function ScoreRow({ label, value }: { label: string; value: number }) {
+function ScoreRow({ label, value, evidence }: { label: string; value: number; evidence?: string[] }) {
   const v = Math.max(0, Math.min(25, Number(value || 0)));
   return (
-    <div className="flex items-center justify-between rounded-xl border bg-white p-3">
-      <div className="text-xs font-semibold">{label}</div>
-      <div className="text-xs text-black/60">{v}/25</div>
+    <div className="rounded-xl border bg-white p-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold">{label}</div>
+        <div className="text-xs text-black/60">{v}/25</div>
+      </div>
+      {evidence && evidence.length > 0 ? (
+        <ul className="mt-1 space-y-1">
+          {evidence.map((e, i) => (
+            <li key={i} className="text-xs text-black/60 italic">
+              “{e}”
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+// Examples show what the function returned; hidden tests only pass/fail
+function TestResults({ run }: { run: CodeRun }) {
+  return (
+    <div className="rounded-2xl border bg-neutral-50 p-3 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold">
+          {run.error ? "Did not run" : `${run.passed}/${run.total} passed`}
+          {run.timedOut ? " · timed out" : ""}
+        </span>
+        <span className="text-black/50">{run.runtimeMs} ms</span>
+      </div>
+      {run.error && <pre className="text-xs text-red-700 whitespace-pre-wrap">{run.error}</pre>}
+      <ul className="space-y-1">
+        {run.results.map((r, i) => (
+          <li key={i} className="text-xs flex items-start gap-2">
+            <span>{r.passed ? "✅" : "❌"}</span>
+            <span className="text-black/70">
+              {r.hidden ? "Hidden test" : `Example ${i + 1}`}
+              {!r.hidden && r.actual !== undefined ? ` · returned ${r.actual}` : ""}
+              {r.error ? ` · ${r.error}` : ""}
+              {` · ${r.ms} ms`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Tables as tables; bar and line charts plot every numeric column against the first
+function ExhibitView({ exhibit, n }: { exhibit: Exhibit; n: number }) {
+  const { title, kind, columns, rows, unit, note } = exhibit;
+  const series = columns.slice(1);
+  const values = rows.flatMap((r) => r.slice(1).map(Number));
+  const max = Math.max(1, ...values);
+  const colors = ["fill-emerald-600 stroke-emerald-600", "fill-sky-600 stroke-sky-600", "fill-amber-500 stroke-amber-500"];
+  const width = 600;
+  const height = 160;
+  const pad = 16;
+  const x = (i: number) => (rows.length === 1 ? width / 2 : pad + (i * (width - pad * 2)) / (rows.length - 1));
+  const y = (v: number) => height - pad - (Math.max(0, v) / max) * (height - pad * 2);
+
+  return (
+    <div className="rounded-2xl border bg-white p-3 space-y-2">
+      <div className="text-xs font-semibold">
+        Exhibit {n} — {title}
+        {unit ? <span className="font-normal text-black/50"> ({unit})</span> : null}
+      </div>
+
+      {kind === "table" && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              {columns.map((c) => (
+                <th key={c} className="text-left font-semibold text-black/60 border-b py-1 pr-2">
+                  {c}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={i}>
+                {r.map((c, j) => (
+                  <td key={j} className={`py-1 pr-2 border-b border-black/5 ${j > 0 ? "font-mono" : ""}`}>
+                    {typeof c === "number" ? c.toLocaleString("en-US") : c}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {kind === "bar" && (
+        <div className="space-y-1">
+          {rows.map((r, i) => (
+            <div key={i} className="space-y-0.5">
+              {series.map((name, j) => (
+                <div key={name} className="flex items-center gap-2 text-xs">
+                  <span className="w-28 truncate text-black/70">{j === 0 ? r[0] : ""}</span>
+                  <div className="flex-1 h-3 rounded bg-neutral-100">
+                    <div
+                      className={`h-3 rounded ${colors[j % colors.length].split(" ")[0]}`}
+                      style={{ width: `${(Number(r[j + 1]) / max) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-16 text-right font-mono">{Number(r[j + 1]).toLocaleString("en-US")}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {kind === "line" && (
+        <>
+          <svg viewBox={`0 0 ${width} ${height}`} className="w-full" preserveAspectRatio="none" role="img">
+            {[0.25, 0.5, 0.75].map((f) => (
+              <line key={f} x1={pad} x2={width - pad} y1={y(max * f)} y2={y(max * f)} className="stroke-black/10" />
+            ))}
+            {series.map((name, j) => (
+              <g key={name} className={colors[j % colors.length]}>
+                <polyline points={rows.map((r, i) => `${x(i)},${y(Number(r[j + 1]))}`).join(" ")} fill="none" strokeWidth={3} />
+                {rows.map((r, i) => (
+                  <circle key={i} cx={x(i)} cy={y(Number(r[j + 1]))} r={4}>
+                    <title>
+                      {name} · {r[0]}: {Number(r[j + 1]).toLocaleString("en-US")}
+                    </title>
+                  </circle>
+                ))}
+              </g>
+            ))}
+          </svg>
+          <div className="flex justify-between text-[11px] text-black/50">
+            {rows.map((r, i) => (
+              <span key={i}>{r[0]}</span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {kind !== "table" && series.length > 1 && (
+        <div className="flex gap-3 text-[11px] text-black/60">
+          {series.map((name, j) => (
+            <span key={name} className="flex items-center gap-1">
+              <span className={`inline-block h-2 w-2 rounded-full ${colors[j % colors.length].split(" ")[0]}`} />
+              {name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {note && <div className="text-[11px] text-black/50">{note}</div>}
+    </div>
+  );
+}
+
+// Each calculation found in a case answer, with the right figure when it was off
+function MathResults({ math }: { math: MathChecks }) {
+  return (
+    <div className="rounded-xl border bg-white p-3 text-xs space-y-1">
+      <div className="font-semibold">Math check</div>
+      <div className="text-black/60">{describeMath(math)}</div>
+      <ul className="space-y-1 pt-1">
+        {math.items.map((m, i) => (
+          <li key={i} className="flex items-start gap-2">
+            <span>{m.correct ? "✅" : "❌"}</span>
+            <span className="text-black/70">
+              <span className="font-mono">{m.expression}</span>
+              {m.correct ? "" : ` · actually ${formatNumber(m.computed)}`}
+              {m.sources.length ? <span className="text-black/50"> · from {m.sources.join("; ")}</span> : null}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// The answer's claims checked against the resume and job description
+function ConsistencyResults({ consistency }: { consistency: Consistency }) {
+  return (
+    <div className="rounded-xl border bg-white p-3 text-xs space-y-1">
+      <div className="font-semibold">Consistency</div>
+      <div className="text-black/60">{describeConsistency(consistency)}</div>
+      <ul className="space-y-1 pt-1">
+        {consistency.items.map((c, i) => (
+          <li key={i} className="flex items-start gap-2">
+            <span>{c.status === "consistent" ? "✅" : c.status === "contradiction" ? "❌" : "⚠️"}</span>
+            <span className="text-black/70">
+              <span className="font-medium">{CONSISTENCY_LABELS[c.status]}:</span> “{c.claim}”
+              {c.note ? <span className="text-black/50"> · {c.note}</span> : null}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// How the spoken answer came across, against the targets for its question type
+function DeliveryResults({ delivery }: { delivery: Delivery }) {
+  const { targets } = delivery;
+  const rows: [string, string, string][] = [
+    ["Length", `${delivery.durationSec}s`, `${targets.durationSec.min}–${targets.durationSec.max}s`],
+    ["Pace", `${delivery.wpm} wpm`, `${targets.wpm.min}–${targets.wpm.max} wpm`],
+    ["First word", `${delivery.firstWordSec}s`, `under ${targets.firstWordSec}s`],
+    ["Fillers", `${delivery.fillers.per100} per 100 words`, `${targets.fillersPer100} or fewer`],
+    ["Long pauses", `${delivery.longPauses}`, delivery.longPauses ? `longest ${delivery.longestPauseSec}s` : ""],
+  ];
+  return (
+    <div className="rounded-xl border bg-white p-3 text-xs space-y-1">
+      <div className="font-semibold">Delivery</div>
+      <div className="text-black/60">{describeDelivery(delivery)}</div>
+      <div className="grid grid-cols-[auto_auto_1fr] gap-x-3 gap-y-0.5 pt-1">
+        {rows.map(([label, value, target]) => (
+          <div key={label} className="contents">
+            <span className="text-black/60">{label}</span>
+            <span className="font-medium">{value}</span>
+            <span className="text-black/40">{target}</span>
+          </div>
+        ))}
+      </div>
+      {delivery.fillers.items.length > 0 && (
+        <div className="text-black/60">Fillers: {formatCounts(delivery.fillers.items)}</div>
+      )}
+      {delivery.hedges.items.length > 0 && (
+        <div className="text-black/60">Hedges: {formatCounts(delivery.hedges.items)}</div>
+      )}
+      {delivery.flags.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 pt-1 text-black/70">
+          {delivery.flags.map((f, i) => (
+            <li key={i}>{f}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// [ADD: …] markers in the rewrite are things the candidate still has to fill in
+function Placeholders({ text }: { text: string }) {
+  const parts = String(text || "").split(/(\[ADD:[^\]]*\])/g);
+  return (
+    <>
+      {parts.map((p, i) =>
+        p.startsWith("[ADD:") ? (
+          <mark key={i} className="rounded bg-yellow-100 px-1 text-yellow-900">
+            {p}
+          </mark>
+        ) : (
+          <span key={i}>{p}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function RewriteDiff({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  return (
+    <div className="space-y-2">
+      <pre className="text-sm whitespace-pre-wrap text-black/80">
+        {parts.map((p, i) =>
+          p.type === "added" ? (
+            <ins key={i} className="no-underline rounded bg-emerald-100 text-emerald-900">
+              {p.text}
+            </ins>
+          ) : p.type === "removed" ? (
+            <del key={i} className="rounded bg-red-50 text-red-700/80">
+              {p.text}
+            </del>
+          ) : (
+            <span key={i}>{p.text}</span>
+          )
+        )}
+      </pre>
+      <div className="text-xs text-black/50">
+        <span className="text-emerald-700">Green</span> = added by the rewrite,{" "}
+        <span className="text-red-700">struck</span> = dropped from your answer.
+      </div>
     </div>
   );
 }
@@ -2,16 +2,9 @@
 
 import React, { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-
-type InterviewType = "behavioral_technical" | "behavioral_case";
-
-type Blueprint = {
-  role_focus: string[];
-  likely_interview_type: InterviewType;
-  risk_gaps: string[];
-  company_notes: string[];
-  sample_questions: { type: "behavioral" | "technical" | "case"; question: string }[];
-};
+import type { Blueprint, FieldError, InterviewType } from "@/lib/blueprint";
+import type { StructuredJobDescription } from "@/lib/jd/types";
+import type { StructuredResume } from "@/lib/resume/sections";
 
 export default function Home() {
   const router = useRouter();
@@ -19,10 +12,18 @@ export default function Home() {
   
   const [company, setCompany] = useState("");
   const [resumeText, setResumeText] = useState("");
+  // set by an upload; cleared as soon as the text is edited by hand
+  const [resume, setResume] = useState<StructuredResume | null>(null);
+  const [uploading, setUploading] = useState(false);
   const [jobDescription, setJobDescription] = useState("");
+  // same idea for the JD: set by a URL/HTML import, cleared on manual edit
+  const [jd, setJd] = useState<StructuredJobDescription | null>(null);
+  const [jdUrl, setJdUrl] = useState("");
+  const [importing, setImporting] = useState(false);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>("");
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
   const [raw, setRaw] = useState<string>("");
   const [blueprint, setBlueprint] = useState<Blueprint | null>(null);
 
@@ -38,9 +39,72 @@ export default function Home() {
     return t === "behavioral_technical" ? "Behavioral + Technical" : "Behavioral + Case";
   }
 
+  async function uploadResume(file: File) {
+    setUploading(true);
+    setError("");
+    setFieldErrors([]);
+
+    try {
+      const form = new FormData();
+      form.append("file", file);
+
+      const res = await fetch("/api/resume", { method: "POST", body: form });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data?.error || `Upload failed (${res.status})`);
+        return;
+      }
+
+      setResume(data.resume);
+      setResumeText(data.resume.text);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function importJd(source: { url: string } | { file: File }) {
+    setImporting(true);
+    setError("");
+    setFieldErrors([]);
+
+    try {
+      let init: RequestInit;
+      if ("file" in source) {
+        const form = new FormData();
+        form.append("file", source.file);
+        init = { method: "POST", body: form };
+      } else {
+        init = {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: source.url }),
+        };
+      }
+
+      const res = await fetch("/api/jd", init);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data?.error || `Import failed (${res.status})`);
+        return;
+      }
+
+      setJd(data.jd);
+      setJobDescription(data.jd.text);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setImporting(false);
+    }
+  }
+
   async function generateBlueprint() {
     setLoading(true);
     setError("");
+    setFieldErrors([]);
     setRaw("");
     setBlueprint(null);
 
@@ -48,13 +112,20 @@ export default function Home() {
       const res = await fetch("/api/blueprint", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ company, resumeText, jobDescription }),
+        body: JSON.stringify({
+          company,
+          resumeText,
+          resume: resume ?? undefined,
+          jobDescription,
+          jd: jd ?? undefined,
+        }),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
         setError(data?.error || `Request failed (${res.status})`);
+        if (Array.isArray(data?.fields)) setFieldErrors(data.fields);
         if (data?.raw) setRaw(data.raw);
         return;
       }
@@ -86,11 +157,18 @@ export default function Home() {
 
           </div>
 
-          <div className="hidden md:flex items-center gap-2">
-            <span className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs text-white/80">
+          <div className="flex items-center gap-3">
+            <span className="hidden md:inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs text-white/80">
               <span className="h-2 w-2 rounded-full bg-emerald-400" />
               Gemini-powered
             </span>
+
+            <button
+              onClick={() => router.push("/history")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              History
+            </button>
           </div>
         </div>
       </div>
@@ -119,20 +197,101 @@ export default function Home() {
                 />
               </Field>
 
-              <Field label="Resume (paste text)">
+              <Field label="Resume (upload or paste text)">
+                <input
+                  type="file"
+                  accept=".pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain"
+                  disabled={uploading || loading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) uploadResume(file);
+                    e.target.value = "";
+                  }}
+                  className="w-full text-xs text-black/60 file:mr-3 file:rounded-xl file:border file:bg-white file:px-3 file:py-1.5 file:text-xs file:font-semibold hover:file:bg-neutral-50"
+                />
+                {uploading && <p className="text-xs text-black/50">Extracting text…</p>}
+                {resume && (
+                  <div className="flex flex-wrap gap-1">
+                    <span className="rounded-full border bg-emerald-50 border-emerald-200 px-2 py-0.5 text-[11px] text-emerald-800">
+                      {resume.source.toUpperCase()}
+                    </span>
+                    {resume.sections
+                      .filter((sec) => sec.name !== "other")
+                      .map((sec, i) => (
+                        <span key={i} className="rounded-full border bg-neutral-50 px-2 py-0.5 text-[11px] text-black/60">
+                          {sec.name}
+                        </span>
+                      ))}
+                  </div>
+                )}
                 <textarea
                   className="w-full rounded-xl border bg-white px-3 py-2 text-sm min-h-[160px] resize-y outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
                   value={resumeText}
-                  onChange={(e) => setResumeText(e.target.value)}
+                  onChange={(e) => {
+                    setResumeText(e.target.value);
+                    setResume(null);
+                  }}
                   placeholder="Paste your resume text here…"
                 />
               </Field>
 
-              <Field label="Job Description (paste text)">
+              <Field label="Job Description (import or paste text)">
+                <div className="flex gap-2">
+                  <input
+                    className="flex-1 rounded-xl border bg-white px-3 py-2 text-sm outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
+                    value={jdUrl}
+                    onChange={(e) => setJdUrl(e.target.value)}
+                    placeholder="https://… job posting URL"
+                  />
+                  <button
+                    onClick={() => importJd({ url: jdUrl })}
+                    disabled={!jdUrl.trim() || importing || loading}
+                    className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50 disabled:opacity-50"
+                  >
+                    Import
+                  </button>
+                </div>
+                <input
+                  type="file"
+                  accept=".html,.htm,text/html"
+                  disabled={importing || loading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importJd({ file });
+                    e.target.value = "";
+                  }}
+                  className="w-full text-xs text-black/60 file:mr-3 file:rounded-xl file:border file:bg-white file:px-3 file:py-1.5 file:text-xs file:font-semibold hover:file:bg-neutral-50"
+                />
+                {importing && <p className="text-xs text-black/50">Importing posting…</p>}
+                {jd && (
+                  <div className="flex flex-wrap gap-1">
+                    {jd.title && (
+                      <span className="rounded-full border bg-emerald-50 border-emerald-200 px-2 py-0.5 text-[11px] text-emerald-800">
+                        {jd.title}
+                      </span>
+                    )}
+                    {(
+                      [
+                        ["responsibilities", jd.responsibilities.length],
+                        ["requirements", jd.requirements.length],
+                        ["nice to have", jd.niceToHaves.length],
+                      ] as const
+                    )
+                      .filter(([, n]) => n > 0)
+                      .map(([label, n]) => (
+                        <span key={label} className="rounded-full border bg-neutral-50 px-2 py-0.5 text-[11px] text-black/60">
+                          {label} · {n}
+                        </span>
+                      ))}
+                  </div>
+                )}
                 <textarea
                   className="w-full rounded-xl border bg-white px-3 py-2 text-sm min-h-[160px] resize-y outline-none focus:ring-4 focus:ring-emerald-200 focus:border-emerald-500"
                   value={jobDescription}
-                  onChange={(e) => setJobDescription(e.target.value)}
+                  onChange={(e) => {
+                    setJobDescription(e.target.value);
+                    setJd(null);
+                  }}
                   placeholder="Paste the job description here…"
                 />
               </Field>
@@ -156,6 +315,15 @@ export default function Home() {
                 <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm">
                   <div className="font-semibold text-red-700 mb-1">Error</div>
                   <div className="text-red-700/90 whitespace-pre-wrap break-words">{error}</div>
+                  {fieldErrors.length > 0 && (
+                    <ul className="mt-2 list-disc pl-5 space-y-1 text-xs text-red-700/90">
+                      {fieldErrors.map((f, i) => (
+                        <li key={i}>
+                          <span className="font-mono">{f.field}</span>: {f.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
             </Panel>
@@ -262,6 +430,7 @@ export default function Home() {
                       setBlueprint(null);
                       setRaw("");
                       setError("");
+                      setFieldErrors([]);
                     }}
                     className="rounded-xl border bg-white px-4 py-2.5 text-sm font-semibold hover:bg-neutral-50"
                   >
@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { ProgressPoint, ProgressReport, ScoreKey } from "@/lib/progress";
+import { DIMENSION_MAX, dimensionLabel } from "@/lib/scoring/rubrics";
+
+function scoreLabel(key: ScoreKey) {
+  return key === "overall" ? "Overall" : dimensionLabel(key);
+}
+
+function scoreMax(key: ScoreKey) {
+  return key === "overall" ? 100 : DIMENSION_MAX;
+}
+
+function labelMode(mode: string) {
+  return mode.charAt(0).toUpperCase() + mode.slice(1);
+}
+
+export default function ProgressPage() {
+  const router = useRouter();
+
+  const [progress, setProgress] = useState<ProgressReport | null>(null);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/progress");
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data?.error || "Failed to load progress");
+          return;
+        }
+        setProgress(data.progress);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Network error");
+      }
+    })();
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-neutral-50">
+      {/* Top bar (match homepage) */}
+      <div className="border-b bg-black text-white">
+        <div className="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Progress</h1>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.push("/history")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              History
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              New Blueprint
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-6 space-y-6">
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm">
+            <div className="font-semibold text-red-700">Error</div>
+            <div className="text-red-700/90 whitespace-pre-wrap break-words">{error}</div>
+          </div>
+        )}
+
+        {!progress ? (
+          !error && (
+            <Panel>
+              <p className="text-sm text-black/60">Loading…</p>
+            </Panel>
+          )
+        ) : progress.answers === 0 ? (
+          <Panel>
+            <h2 className="text-sm font-semibold">No scored answers yet</h2>
+            <p className="text-sm text-black/60">
+              Finish a few interview answers and your scores will be tracked here across sessions.
+            </p>
+          </Panel>
+        ) : (
+          <>
+            <Panel>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-sm font-semibold">Overall trend</h2>
+                  <p className="text-xs text-black/60">
+                    {progress.answers} scored {progress.answers === 1 ? "answer" : "answers"} across {progress.sessions}{" "}
+                    {progress.sessions === 1 ? "session" : "sessions"}.
+                  </p>
+                </div>
+                <TrendBadge value={progress.trend.overall} />
+              </div>
+
+              <Divider />
+
+              <TrendChart points={progress.points} scoreKey="overall" />
+            </Panel>
+
+            <div className="grid lg:grid-cols-[1fr_360px] gap-6">
+              <section className="space-y-6">
+                {progress.byMode.map((m) => (
+                  <Panel key={m.mode}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <h2 className="text-sm font-semibold">{labelMode(m.mode)}</h2>
+                        <p className="text-xs text-black/60">
+                          {m.answers} {m.answers === 1 ? "answer" : "answers"} · average {m.averages.overall}/100
+                        </p>
+                      </div>
+                      <TrendBadge value={m.trend.overall} />
+                    </div>
+
+                    <Divider />
+
+                    <TrendChart points={m.points} scoreKey="overall" />
+
+                    <div className="grid sm:grid-cols-4 gap-3">
+                      {m.keys
+                        .filter((k) => k !== "overall")
+                        .map((k) => (
+                          <StatCard
+                            key={k}
+                            label={scoreLabel(k)}
+                            value={`${m.averages[k] ?? 0}/${scoreMax(k)}`}
+                            trend={m.trend[k] ?? null}
+                          >
+                            <TrendChart points={m.points} scoreKey={k} compact />
+                          </StatCard>
+                        ))}
+                    </div>
+                  </Panel>
+                ))}
+              </section>
+
+              <aside className="lg:sticky lg:top-6 h-fit">
+                <Panel>
+                  <h2 className="text-sm font-semibold">Most-missed STAR components</h2>
+                  <p className="text-xs text-black/60">
+                    Across {progress.starAnswers} behavioral {progress.starAnswers === 1 ? "answer" : "answers"}.
+                  </p>
+
+                  <Divider />
+
+                  {progress.starAnswers === 0 ? (
+                    <p className="text-xs text-black/60">Answer a behavioral question to see STAR coverage.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {progress.starMisses.map((s, i) => (
+                        <div key={s.component} className="space-y-1">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="font-semibold">
+                              {s.component.charAt(0).toUpperCase() + s.component.slice(1)}
+                              {i === 0 && s.missed > 0 ? " · focus here" : ""}
+                            </span>
+                            <span className="text-black/60">
+                              missed {s.missed}× ({s.rate}%)
+                            </span>
+                          </div>
+                          <div className="h-2 rounded-full bg-black/10">
+                            <div className="h-2 rounded-full bg-red-400" style={{ width: `${s.rate}%` }} />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Panel>
+              </aside>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/* ---------- UI helpers ---------- */
+
+function Panel({ children }: { children: React.ReactNode }) {
+  return <div className="rounded-2xl border bg-white p-4 md:p-5 space-y-4 shadow-sm">{children}</div>;
+}
+
+function Divider() {
+  return <div className="h-px bg-black/10" />;
+}
+
+function TrendBadge({ value }: { value: number | null }) {
+  if (value === null) {
+    return <span className="rounded-full border bg-white px-3 py-1 text-xs text-black/60">Need 2+ answers</span>;
+  }
+  const className =
+    value > 0
+      ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+      : value < 0
+        ? "border-red-500 bg-red-50 text-red-700"
+        : "bg-white text-black/60";
+  return (
+    <span className={`rounded-full border px-3 py-1 text-xs font-semibold ${className}`}>
+      {value > 0 ? "▲" : value < 0 ? "▼" : "■"} {value > 0 ? "+" : ""}
+      {value}
+    </span>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  trend,
+  children,
+}: {
+  label: string;
+  value: string;
+  trend: number | null;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-2xl border bg-neutral-50 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold text-black/60">{label}</div>
+        {trend !== null && (
+          <div className={`text-xs ${trend > 0 ? "text-emerald-700" : trend < 0 ? "text-red-700" : "text-black/50"}`}>
+            {trend > 0 ? "+" : ""}
+            {trend}
+          </div>
+        )}
+      </div>
+      <div className="text-lg font-bold">{value}</div>
+      {children}
+    </div>
+  );
+}
+
+// Plain SVG line chart: one point per scored answer, oldest on the left.
+function TrendChart({
+  points,
+  scoreKey,
+  compact,
+}: {
+  points: ProgressPoint[];
+  scoreKey: ScoreKey;
+  compact?: boolean;
+}) {
+  const width = 600;
+  const height = compact ? 60 : 180;
+  const pad = compact ? 4 : 16;
+  const max = scoreMax(scoreKey);
+  // answers graded on a different rubric have no value for this dimension
+  points = points.filter((p) => typeof p.scores[scoreKey] === "number");
+
+  if (points.length === 0) return null;
+
+  const x = (i: number) => (points.length === 1 ? width / 2 : pad + (i * (width - pad * 2)) / (points.length - 1));
+  const y = (v: number) => height - pad - (Math.max(0, Math.min(max, v)) / max) * (height - pad * 2);
+  const line = points.map((p, i) => `${x(i)},${y(p.scores[scoreKey]!)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" preserveAspectRatio="none" role="img">
+      {!compact &&
+        [0.25, 0.5, 0.75].map((f) => (
+          <line key={f} x1={pad} x2={width - pad} y1={y(max * f)} y2={y(max * f)} className="stroke-black/10" />
+        ))}
+      <polyline points={line} fill="none" className="stroke-emerald-600" strokeWidth={compact ? 2 : 3} />
+      {!compact &&
+        points.map((p, i) => (
+          <circle key={i} cx={x(i)} cy={y(p.scores[scoreKey]!)} r={4} className="fill-emerald-600">
+            <title>
+              {p.company} · {labelMode(p.mode)} · {p.scores[scoreKey]}/{max}
+            </title>
+          </circle>
+        ))}
+    </svg>
+  );
+}
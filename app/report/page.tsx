@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { HireSignal, InterviewReport, labelSignal } from "@/lib/interview/report";
+import { InterviewStyle, labelStyle } from "@/lib/interview/style";
+import { MODES } from "@/lib/interview/types";
+import { rubricFor, RUBRICS, scoreOf } from "@/lib/scoring/rubrics";
+import type { InterviewSession } from "@/lib/sessions/types";
+import { canStoreClips, listClips } from "@/lib/video/store";
+
+const SIGNAL_STYLES: Record<HireSignal, string> = {
+  strong_hire: "border-emerald-500 bg-emerald-50 text-emerald-700",
+  hire: "border-emerald-400 bg-emerald-50 text-emerald-700",
+  lean_no_hire: "border-yellow-500 bg-yellow-50 text-yellow-800",
+  no_hire: "border-red-500 bg-red-50 text-red-700",
+};
+
+function labelMode(mode: string) {
+  return mode.charAt(0).toUpperCase() + mode.slice(1);
+}
+
+export default function ReportPage() {
+  const router = useRouter();
+
+  const [report, setReport] = useState<InterviewReport | null>(null);
+  const [company, setCompany] = useState("");
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [style, setStyle] = useState<InterviewStyle | null>(null);
+  const [error, setError] = useState<string>("");
+  const [loaded, setLoaded] = useState(false);
+  const [hasVideo, setHasVideo] = useState(false);
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("session");
+
+    (async () => {
+      try {
+        if (!id) {
+          // unsaved interview: the interview page left the report in sessionStorage
+          const stored = sessionStorage.getItem("interviewee_report");
+          if (stored) setReport(JSON.parse(stored));
+          setCompany(sessionStorage.getItem("interviewee_company") || "");
+          return;
+        }
+
+        const res = await fetch(`/api/sessions/${id}`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data?.error || "Could not load session");
+          return;
+        }
+
+        const session = data.session as InterviewSession;
+        setSessionId(session.id);
+        setCompany(session.company);
+        setStyle(session.style ?? null);
+        setReport(session.report ?? null);
+        if (canStoreClips()) setHasVideo((await listClips(session.id).catch(() => [])).length > 0);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Network error");
+      } finally {
+        setLoaded(true);
+      }
+    })();
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-neutral-50">
+      {/* Top bar (match homepage) */}
+      <div className="border-b bg-black text-white">
+        <div className="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">
+            Interview Report{company ? ` · ${company}` : ""}
+          </h1>
+
+          <div className="flex items-center gap-3">
+            {sessionId && (
+              <button
+                onClick={() => router.push(`/interview?session=${sessionId}`)}
+                className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+              >
+                Back to Interview
+              </button>
+            )}
+            {sessionId && hasVideo && (
+              <button
+                onClick={() => router.push(`/review?session=${sessionId}`)}
+                className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+              >
+                Review Video
+              </button>
+            )}
+            <button
+              onClick={() => router.push("/history")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              History
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              New Blueprint
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-6 space-y-6">
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm">
+            <div className="font-semibold text-red-700">Error</div>
+            <div className="text-red-700/90 whitespace-pre-wrap break-words">{error}</div>
+          </div>
+        )}
+
+        {!report ? (
+          !error && (
+            <Panel>
+              <p className="text-sm text-black/60">
+                {loaded ? "This interview hasn’t been finished yet. Click “Finish Interview” to build its report." : "Loading…"}
+              </p>
+            </Panel>
+          )
+        ) : (
+          <>
+            <Panel>
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <h2 className="text-sm font-semibold">Overall signal</h2>
+                  <p className="text-sm text-black/70 max-w-2xl">{report.summary}</p>
+                  <p className="text-xs text-black/50">
+                    {report.source === "model" ? "Debrief written by the model" : "Debrief built from the scorecards"} ·{" "}
+                    {new Date(report.generatedAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                    {style ? ` · ${labelStyle(style)} bar` : ""}
+                  </p>
+                </div>
+                <div className="flex flex-col items-start sm:items-end gap-2">
+                  <span className={`rounded-full border px-4 py-1.5 text-sm font-semibold ${SIGNAL_STYLES[report.signal]}`}>
+                    {labelSignal(report.signal)}
+                  </span>
+                  {sessionId && <ExportLinks sessionId={sessionId} />}
+                </div>
+              </div>
+
+              <Divider />
+
+              <div className="grid sm:grid-cols-5 gap-3">
+                <Stat label="Overall" value={`${report.averages.overall}/100`} />
+                {MODES.flatMap((m) => RUBRICS[m].dimensions)
+                  .filter((d) => typeof report.averages[d.key] === "number")
+                  .map((d) => (
+                    <Stat key={d.key} label={d.label} value={`${report.averages[d.key]}/25`} />
+                  ))}
+              </div>
+            </Panel>
+
+            <div className="grid lg:grid-cols-[1fr_360px] gap-6">
+              <section className="space-y-6">
+                <Panel>
+                  <h2 className="text-sm font-semibold">Per-question scores</h2>
+                  <Divider />
+                  <div className="space-y-3">
+                    {report.questions.map((q, i) => (
+                      <div key={i} className="rounded-2xl border bg-white p-4 space-y-2">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="text-sm font-semibold">
+                            Q{i + 1}. {q.question || "(question not recorded)"}
+                          </div>
+                          <span className="shrink-0 rounded-full border bg-neutral-50 px-3 py-1 text-xs font-semibold text-black/70">
+                            {q.scores.overall}/100
+                          </span>
+                        </div>
+                        <p className="text-xs text-black/60 whitespace-pre-wrap line-clamp-3">{q.answer}</p>
+                        <div className="text-xs text-black/50">
+                          {labelMode(q.mode)} ·{" "}
+                          {rubricFor(q)
+                            .dimensions.map((d) => `${d.label.toLowerCase()} ${scoreOf(q, d.key)}`)
+                            .join(" · ")}{" "}
+                          · {q.source === "model" ? "model-graded" : "heuristic"}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Panel>
+
+                <Panel>
+                  <h2 className="text-sm font-semibold">Practice plan</h2>
+                  <Divider />
+                  <ol className="space-y-3">
+                    {report.practicePlan.map((p, i) => (
+                      <li key={i} className="text-sm">
+                        <div className="font-semibold">
+                          {i + 1}. {p.focus}
+                        </div>
+                        <div className="text-black/70">{p.drill}</div>
+                      </li>
+                    ))}
+                  </ol>
+                </Panel>
+              </section>
+
+              <aside className="lg:sticky lg:top-6 h-fit space-y-6">
+                <Panel>
+                  <h2 className="text-sm font-semibold">Top strengths</h2>
+                  <Divider />
+                  <ul className="list-disc pl-5 space-y-1 text-sm text-black/80">
+                    {report.strengths.map((s, i) => (
+                      <li key={i}>{s}</li>
+                    ))}
+                  </ul>
+                </Panel>
+
+                <Panel>
+                  <h2 className="text-sm font-semibold">Top gaps</h2>
+                  <Divider />
+                  <ul className="space-y-3">
+                    {report.gaps.map((g, i) => (
+                      <li key={i} className="text-sm space-y-1">
+                        <div className="text-black/80">{g.gap}</div>
+                        {g.riskGap ? (
+                          <span className="inline-block rounded-full border border-red-200 bg-red-50 px-2 py-0.5 text-[11px] text-red-700">
+                            Confirms risk gap: {g.riskGap}
+                          </span>
+                        ) : (
+                          <span className="inline-block rounded-full border bg-neutral-50 px-2 py-0.5 text-[11px] text-black/50">
+                            Not in blueprint risk gaps
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </Panel>
+              </aside>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/* ---------- UI helpers ---------- */
+
+function Panel({ children }: { children: React.ReactNode }) {
+  return <div className="rounded-2xl border bg-white p-4 md:p-5 space-y-4 shadow-sm">{children}</div>;
+}
+
+function Divider() {
+  return <div className="h-px bg-black/10" />;
+}
+
+function ExportLinks({ sessionId }: { sessionId: string }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-semibold text-black/60">Export</span>
+      {(["md", "pdf", "json"] as const).map((format) => (
+        <a
+          key={format}
+          href={`/api/sessions/${sessionId}/export?format=${format}`}
+          download
+          className="rounded-lg border bg-white px-2 py-1 font-semibold hover:bg-neutral-50"
+        >
+          {format === "md" ? "Markdown" : format.toUpperCase()}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border bg-neutral-50 p-3 space-y-1">
+      <div className="text-xs font-semibold text-black/60">{label}</div>
+      <div className="text-lg font-bold">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { describeDelivery } from "@/lib/delivery/types";
+import { rubricFor, scoreOf } from "@/lib/scoring/rubrics";
+import type { InterviewSession } from "@/lib/sessions/types";
+import { AnswerClip, deleteClips, listClips } from "@/lib/video/store";
+
+function formatDuration(ms: number) {
+  const sec = Math.round(ms / 1000);
+  return `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, "0")}`;
+}
+
+// Plays back the webcam clips of a session's answers, one per question, with each answer's
+// scorecard alongside. Clips only exist in the browser that recorded them.
+export default function ReviewPage() {
+  const router = useRouter();
+
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [clips, setClips] = useState<AnswerClip[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [error, setError] = useState("");
+  const [loaded, setLoaded] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  // the first clip waits for play; ones picked from the list or reached by auto-advance start on their own
+  const [autoPlay, setAutoPlay] = useState(false);
+  const [src, setSrc] = useState("");
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("session");
+
+    (async () => {
+      try {
+        if (!id) {
+          setError("No session to review. Open one from History.");
+          return;
+        }
+
+        const res = await fetch(`/api/sessions/${id}`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data?.error || "Could not load session");
+          return;
+        }
+        setSession(data.session as InterviewSession);
+        setClips(await listClips(id));
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Could not load recordings");
+      } finally {
+        setLoaded(true);
+      }
+    })();
+  }, []);
+
+  const clip = clips[selected] ?? null;
+
+  // one object URL at a time; released when the clip changes
+  useEffect(() => {
+    if (!clip) return;
+    const url = URL.createObjectURL(clip.video);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [clip]);
+
+  const scored = clip ? session?.scorecards.find((s) => s.turnIndex === clip.turnIndex) : undefined;
+
+  function jumpTo(i: number) {
+    setSelected(i);
+    setAutoPlay(true);
+  }
+
+  async function removeRecordings() {
+    if (!session || !confirm("Delete the video recordings of this session? The transcript and scores stay.")) return;
+
+    setDeleting(true);
+    try {
+      await deleteClips(session.id);
+      setClips([]);
+      setSelected(0);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-neutral-50">
+      {/* Top bar (match homepage) */}
+      <div className="border-b bg-black text-white">
+        <div className="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">
+            Answer Review{session ? ` · ${session.company}` : ""}
+          </h1>
+
+          <div className="flex items-center gap-3">
+            {session && (
+              <button
+                onClick={() => router.push(`/interview?session=${session.id}`)}
+                className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+              >
+                Back to Interview
+              </button>
+            )}
+            {session?.report && (
+              <button
+                onClick={() => router.push(`/report?session=${session.id}`)}
+                className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+              >
+                Report
+              </button>
+            )}
+            <button
+              onClick={() => router.push("/history")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              History
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-6 space-y-6">
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm">
+            <div className="font-semibold text-red-700">Error</div>
+            <div className="text-red-700/90 whitespace-pre-wrap break-words">{error}</div>
+          </div>
+        )}
+
+        {!clip ? (
+          !error && (
+            <Panel>
+              <p className="text-sm text-black/60">
+                {loaded
+                  ? "No video in this browser for this session. Turn on “Record video of my answers” on the interview page."
+                  : "Loading…"}
+              </p>
+            </Panel>
+          )
+        ) : (
+          <div className="grid lg:grid-cols-[1fr_360px] gap-6">
+            <section className="space-y-6">
+              <Panel>
+                <video
+                  key={src}
+                  src={src || undefined}
+                  autoPlay={autoPlay}
+                  controls
+                  playsInline
+                  className="w-full rounded-xl bg-black aspect-video"
+                  onEnded={() => {
+                    if (autoAdvance && selected < clips.length - 1) jumpTo(selected + 1);
+                  }}
+                />
+                <div className="flex items-center justify-between gap-3 text-xs text-black/60">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="accent-emerald-600"
+                      checked={autoAdvance}
+                      onChange={(e) => setAutoAdvance(e.target.checked)}
+                    />
+                    Play the next answer when one ends
+                  </label>
+                  <button
+                    onClick={removeRecordings}
+                    disabled={deleting}
+                    className="rounded-lg border bg-white px-2 py-1 font-semibold text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    {deleting ? "Deleting…" : "Delete recordings"}
+                  </button>
+                </div>
+              </Panel>
+
+              <Panel>
+                <h2 className="text-sm font-semibold">Questions</h2>
+                <Divider />
+                <ol className="space-y-2">
+                  {clips.map((c, i) => {
+                    const overall = session?.scorecards.find((s) => s.turnIndex === c.turnIndex)?.scorecard.scores.overall;
+                    return (
+                      <li key={c.turnIndex}>
+                        <button
+                          onClick={() => jumpTo(i)}
+                          className={`w-full rounded-xl border px-3 py-2 text-left text-sm hover:bg-neutral-50 ${
+                            i === selected ? "border-emerald-500 bg-emerald-50" : "bg-white"
+                          }`}
+                        >
+                          <div className="flex items-start justify-between gap-3">
+                            <span className="font-semibold line-clamp-2">
+                              Q{i + 1}. {c.question || "(question not recorded)"}
+                            </span>
+                            <span className="shrink-0 text-xs text-black/50">
+                              {formatDuration(c.durationMs)}
+                              {typeof overall === "number" ? ` · ${overall}/100` : ""}
+                            </span>
+                          </div>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </Panel>
+            </section>
+
+            <aside className="lg:sticky lg:top-6 h-fit space-y-6">
+              <Panel>
+                <div className="flex items-start justify-between gap-3">
+                  <h2 className="text-sm font-semibold">Scorecard</h2>
+                  {scored && (
+                    <span className="shrink-0 rounded-full border bg-neutral-50 px-3 py-1 text-xs font-semibold text-black/70">
+                      {scored.scorecard.scores.overall}/100
+                    </span>
+                  )}
+                </div>
+                <Divider />
+                {!scored ? (
+                  <p className="text-sm text-black/60">This answer wasn’t scored.</p>
+                ) : (
+                  <div className="space-y-3 text-sm">
+                    <div className="grid grid-cols-2 gap-2">
+                      {rubricFor(scored.scorecard).dimensions.map((d) => (
+                        <div key={d.key} className="rounded-xl border bg-neutral-50 px-3 py-2">
+                          <div className="text-xs text-black/60">{d.label}</div>
+                          <div className="font-semibold">{scoreOf(scored.scorecard, d.key) ?? "—"}/25</div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {scored.scorecard.delivery && (
+                      <div className="text-xs text-black/60">Delivery: {describeDelivery(scored.scorecard.delivery)}</div>
+                    )}
+
+                    <div>
+                      <div className="text-xs font-semibold text-black/70">Strengths</div>
+                      <ul className="list-disc pl-5 space-y-1 text-black/80">
+                        {scored.scorecard.strengths.map((s, i) => (
+                          <li key={i}>{s}</li>
+                        ))}
+                      </ul>
+                    </div>
+
+                    <div>
+                      <div className="text-xs font-semibold text-black/70">Gaps</div>
+                      <ul className="list-disc pl-5 space-y-1 text-black/80">
+                        {scored.scorecard.gaps.map((g, i) => (
+                          <li key={i}>{g}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                )}
+              </Panel>
+
+              <Panel>
+                <h2 className="text-sm font-semibold">What you said</h2>
+                <Divider />
+                <p className="text-sm text-black/70 whitespace-pre-wrap">
+                  {session?.turns[clip.turnIndex]?.content || "(answer not recorded)"}
+                </p>
+              </Panel>
+            </aside>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+/* ---------- UI helpers ---------- */
+
+function Panel({ children }: { children: React.ReactNode }) {
+  return <div className="rounded-2xl border bg-white p-4 md:p-5 space-y-4 shadow-sm">{children}</div>;
+}
+
+function Divider() {
+  return <div className="h-px bg-black/10" />;
+}
@@ -0,0 +1,484 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { Blueprint } from "@/lib/blueprint";
+import { fitStories } from "@/lib/stories/fit";
+import { STORY_TAGS } from "@/lib/stories/types";
+import type { Story, StoryTag } from "@/lib/stories/types";
+
+type Draft = {
+  title: string;
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  tags: StoryTag[];
+  // one metric per line
+  metrics: string;
+};
+
+const STAR_FIELDS = ["situation", "task", "action", "result"] as const;
+
+const EMPTY_DRAFT: Draft = { title: "", situation: "", task: "", action: "", result: "", tags: [], metrics: "" };
+
+function labelTag(tag: string) {
+  return tag.charAt(0).toUpperCase() + tag.slice(1);
+}
+
+function toDraft(story: Story): Draft {
+  return {
+    title: story.title,
+    situation: story.situation,
+    task: story.task,
+    action: story.action,
+    result: story.result,
+    tags: story.tags,
+    metrics: story.metrics.join("\n"),
+  };
+}
+
+function fromDraft(draft: Draft) {
+  return {
+    ...draft,
+    metrics: draft.metrics
+      .split("\n")
+      .map((m) => m.trim())
+      .filter(Boolean),
+  };
+}
+
+// 422s name the failing fields; show them under the error
+function errorText(data: { error?: string; fields?: { field: string; message: string }[] } | null, fallback: string) {
+  return [data?.error || fallback, ...(data?.fields ?? []).map((f) => `• ${f.field}: ${f.message}`)].join("\n");
+}
+
+export default function StoriesPage() {
+  const router = useRouter();
+
+  const [stories, setStories] = useState<Story[] | null>(null);
+  const [blueprint, setBlueprint] = useState<Blueprint | null>(null);
+  const [error, setError] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
+  const [extracting, setExtracting] = useState(false);
+  // id of the story being edited, "new" for a blank one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    // fit is shown against the blueprint from the homepage, when there is one
+    const bp = sessionStorage.getItem("interviewee_blueprint");
+    if (bp) {
+      try {
+        setBlueprint(JSON.parse(bp));
+      } catch {
+        // a broken blueprint just hides the fit panel
+      }
+    }
+
+    (async () => {
+      try {
+        const res = await fetch("/api/stories");
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data?.error || "Failed to load stories");
+          setStories([]);
+          return;
+        }
+        setStories(data.stories);
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Network error");
+        setStories([]);
+      }
+    })();
+  }, []);
+
+  const coverage = useMemo(() => (blueprint ? fitStories(stories ?? [], blueprint) : null), [stories, blueprint]);
+
+  async function extractStories() {
+    setExtracting(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch("/api/stories/extract", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{}",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data?.error || "Extraction failed");
+        return;
+      }
+      const added = data.added as Story[];
+      setStories((prev) => [...added, ...(prev ?? [])]);
+      setNotice(
+        added.length
+          ? `Added ${added.length} ${added.length === 1 ? "story" : "stories"}${data.remaining ? ` — ${data.remaining} more to go, run it again` : ""}.`
+          : "No new stories: every complete behavioral answer is already in the bank."
+      );
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setExtracting(false);
+    }
+  }
+
+  function startEditing(story: Story | null) {
+    setEditing(story ? story.id : "new");
+    setDraft(story ? toDraft(story) : EMPTY_DRAFT);
+    setError("");
+    setNotice("");
+  }
+
+  async function saveDraft() {
+    if (!editing) return;
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(editing === "new" ? "/api/stories" : `/api/stories/${editing}`, {
+        method: editing === "new" ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(fromDraft(draft)),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(errorText(data, "Save failed"));
+        return;
+      }
+      const saved = data.story as Story;
+      setStories((prev) => [saved, ...(prev ?? []).filter((s) => s.id !== saved.id)]);
+      setEditing(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteStory(id: string) {
+    if (!confirm("Delete this story? This can’t be undone.")) return;
+
+    setError("");
+    try {
+      const res = await fetch(`/api/stories/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setError(data?.error || "Delete failed");
+        return;
+      }
+      setStories((prev) => (prev ?? []).filter((s) => s.id !== id));
+      if (editing === id) setEditing(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Network error");
+    }
+  }
+
+  const editor = (
+    <StoryEditor
+      draft={draft}
+      onChange={setDraft}
+      onSave={saveDraft}
+      onCancel={() => setEditing(null)}
+      saving={saving}
+    />
+  );
+
+  return (
+    <main className="min-h-screen bg-neutral-50">
+      {/* Top bar (match homepage) */}
+      <div className="border-b bg-black text-white">
+        <div className="max-w-6xl mx-auto px-6 py-5 flex items-center justify-between">
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Story Bank</h1>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => router.push("/history")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              History
+            </button>
+            <button
+              onClick={() => router.push("/")}
+              className="rounded-xl border border-white/20 bg-white/10 px-3 py-2 text-sm hover:bg-white/15"
+            >
+              New Blueprint
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-6 space-y-6">
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm">
+            <div className="font-semibold text-red-700">Error</div>
+            <div className="text-red-700/90 whitespace-pre-wrap break-words">{error}</div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <Panel>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-sm font-semibold">Stories</h2>
+                  <p className="text-xs text-black/60">
+                    Pulled from your behavioral answers, one per story — retellings aren’t added twice. Edit them into
+                    the version you want to tell.
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => startEditing(null)}
+                    className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50"
+                  >
+                    New story
+                  </button>
+                  <button
+                    onClick={extractStories}
+                    disabled={extracting}
+                    className="rounded-xl bg-black text-white px-3 py-2 text-sm font-semibold hover:bg-black/90 disabled:opacity-50"
+                  >
+                    {extracting ? "Extracting…" : "Extract from answers"}
+                  </button>
+                </div>
+              </div>
+
+              {notice && <div className="text-xs text-black/60">{notice}</div>}
+
+              <Divider />
+
+              {editing === "new" && editor}
+
+              {stories && stories.length === 0 && editing !== "new" ? (
+                <p className="text-sm text-black/60">
+                  No stories yet. Answer a few behavioral questions, then extract them — or write one yourself.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {(stories ?? []).map((s) =>
+                    editing === s.id ? (
+                      <div key={s.id}>{editor}</div>
+                    ) : (
+                      <StoryCard
+                        key={s.id}
+                        story={s}
+                        onEdit={() => startEditing(s)}
+                        onDelete={() => deleteStory(s.id)}
+                      />
+                    )
+                  )}
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div className="space-y-6">
+            <Panel>
+              <div>
+                <h2 className="text-sm font-semibold">Best fit per question</h2>
+                <p className="text-xs text-black/60">The blueprint’s behavioral sample questions and the stories to tell.</p>
+              </div>
+
+              <Divider />
+
+              {!coverage ? (
+                <p className="text-sm text-black/60">Generate a blueprint to see which story answers which question.</p>
+              ) : coverage.questions.length === 0 ? (
+                <p className="text-sm text-black/60">This blueprint has no behavioral sample questions.</p>
+              ) : (
+                <div className="space-y-3">
+                  {coverage.questions.map((q, i) => (
+                    <div key={i} className="rounded-xl border bg-neutral-50 p-3 text-xs space-y-1">
+                      <div className="font-semibold text-black/80">{q.question}</div>
+                      {q.fits.length ? (
+                        q.fits.map((f, j) => (
+                          <div key={f.story.id} className="text-black/70">
+                            {j === 0 ? "★" : "·"} {f.story.title}
+                            <span className="text-black/50"> — {f.reasons.join(", ")}</span>
+                          </div>
+                        ))
+                      ) : (
+                        <div className="text-red-700/80">No story fits yet.</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Panel>
+
+            <Panel>
+              <div>
+                <h2 className="text-sm font-semibold">Gaps</h2>
+                <p className="text-xs text-black/60">Competencies you don’t have a story for yet.</p>
+              </div>
+
+              <Divider />
+
+              <div className="space-y-2 text-xs">
+                <div>
+                  <div className="font-semibold text-black/70">Tags</div>
+                  <div className="text-black/60">
+                    {(coverage?.missingTags ?? STORY_TAGS.filter((t) => !(stories ?? []).some((s) => s.tags.includes(t))))
+                      .map(labelTag)
+                      .join(", ") || "Every tag has a story."}
+                  </div>
+                </div>
+                {coverage && (
+                  <div>
+                    <div className="font-semibold text-black/70">Role focus</div>
+                    <div className="text-black/60">{coverage.missingFocus.join(", ") || "Every focus area has a story."}</div>
+                  </div>
+                )}
+              </div>
+            </Panel>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+/* ---------- UI helpers ---------- */
+
+function Panel({ children }: { children: React.ReactNode }) {
+  return <div className="rounded-2xl border bg-white p-4 md:p-5 space-y-4 shadow-sm">{children}</div>;
+}
+
+function Divider() {
+  return <div className="h-px bg-black/10" />;
+}
+
+function StoryCard({ story, onEdit, onDelete }: { story: Story; onEdit: () => void; onDelete: () => void }) {
+  return (
+    <div className="rounded-2xl border bg-white p-4 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold">{story.title}</div>
+          <div className="flex flex-wrap gap-1">
+            {story.tags.map((t) => (
+              <span key={t} className="rounded-full border bg-neutral-50 px-2 py-0.5 text-[11px] font-semibold text-black/70">
+                {labelTag(t)}
+              </span>
+            ))}
+            {story.source && (
+              <span className="text-[11px] text-black/50">
+                from {story.source.company}, answer {story.source.turnIndex + 1}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={onEdit}
+            className="rounded-xl border bg-white px-3 py-1.5 text-xs font-semibold hover:bg-neutral-50"
+          >
+            Edit
+          </button>
+          <button
+            onClick={onDelete}
+            className="rounded-xl border bg-white px-3 py-1.5 text-xs font-semibold hover:bg-neutral-50"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+        {STAR_FIELDS.map((k) => (
+          <div key={k}>
+            <span className="font-semibold text-black/70">{labelTag(k)}: </span>
+            <span className="text-black/70">{story[k] || <span className="text-black/40">—</span>}</span>
+          </div>
+        ))}
+      </div>
+
+      {story.metrics.length > 0 && (
+        <div className="text-xs text-black/60">Metrics: {story.metrics.join(" · ")}</div>
+      )}
+    </div>
+  );
+}
+
+function StoryEditor({
+  draft,
+  onChange,
+  onSave,
+  onCancel,
+  saving,
+}: {
+  draft: Draft;
+  onChange: (d: Draft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  saving: boolean;
+}) {
+  const field = "w-full rounded-xl border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-black/10";
+
+  return (
+    <div className="rounded-2xl border bg-neutral-50 p-4 space-y-3">
+      <input
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        placeholder="Title, e.g. Billing migration under a deadline"
+        className={field}
+      />
+
+      {STAR_FIELDS.map((k) => (
+        <label key={k} className="block space-y-1">
+          <span className="text-xs font-semibold text-black/70">{labelTag(k)}</span>
+          <textarea
+            value={draft[k]}
+            onChange={(e) => onChange({ ...draft, [k]: e.target.value })}
+            rows={2}
+            className={field}
+          />
+        </label>
+      ))}
+
+      <div className="space-y-1">
+        <span className="text-xs font-semibold text-black/70">Tags</span>
+        <div className="flex flex-wrap gap-2">
+          {STORY_TAGS.map((t) => {
+            const on = draft.tags.includes(t);
+            return (
+              <button
+                key={t}
+                type="button"
+                onClick={() => onChange({ ...draft, tags: on ? draft.tags.filter((x) => x !== t) : [...draft.tags, t] })}
+                className={`rounded-full border px-3 py-1 text-xs font-semibold ${on ? "bg-black text-white" : "bg-white text-black/70"}`}
+              >
+                {labelTag(t)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs font-semibold text-black/70">Metrics (one per line)</span>
+        <textarea
+          value={draft.metrics}
+          onChange={(e) => onChange({ ...draft, metrics: e.target.value })}
+          rows={2}
+          placeholder="cut p95 latency 40%"
+          className={field}
+        />
+      </label>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onSave}
+          disabled={saving}
+          className="rounded-xl bg-black text-white px-3 py-2 text-sm font-semibold hover:bg-black/90 disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save story"}
+        </button>
+        <button onClick={onCancel} className="rounded-xl border bg-white px-3 py-2 text-sm font-semibold hover:bg-neutral-50">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+export type InterviewType = "behavioral_technical" | "behavioral_case";
+
+export type QuestionType = "behavioral" | "technical" | "case";
+
+export type Blueprint = {
+  role_focus: string[];
+  likely_interview_type: InterviewType;
+  risk_gaps: string[];
+  company_notes: string[];
+  sample_questions: { type: QuestionType; question: string }[];
+};
+
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+const INTERVIEW_TYPES: InterviewType[] = ["behavioral_technical", "behavioral_case"];
+const QUESTION_TYPES: QuestionType[] = ["behavioral", "technical", "case"];
+
+// [min, max] items per list field. role_focus is "top 5 skills" in the prompt, but blueprints
+// saved in the browser before this check existed can list fewer or more: fewer is fine, and
+// anything past the fifth is dropped rather than rejected.
+const LIST_LIMITS = {
+  role_focus: [1, 5],
+  risk_gaps: [1, 8],
+  company_notes: [1, 8],
+} as const;
+
+const SAMPLE_QUESTION_LIMITS = [3, 10] as const;
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+function validateStringList(field: keyof typeof LIST_LIMITS, value: unknown, errors: FieldError[]) {
+  const [min, max] = LIST_LIMITS[field];
+
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: "must be an array of strings" });
+    return [];
+  }
+  if (value.length < min || value.length > max) {
+    errors.push({ field, message: `must have ${min}–${max} items (got ${value.length})` });
+  }
+
+  value.forEach((v, i) => {
+    if (!isNonEmptyString(v)) errors.push({ field: `${field}[${i}]`, message: "must be a non-empty string" });
+  });
+
+  return value.filter(isNonEmptyString).map((v) => v.trim());
+}
+
+// Runtime check of the model's blueprint JSON. Returns a trimmed copy when valid,
+// otherwise every failing field so the repair prompt (and the 422) can name them.
+export function validateBlueprint(data: unknown): { ok: true; blueprint: Blueprint } | { ok: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { ok: false, errors: [{ field: "$", message: "must be a JSON object" }] };
+  }
+  const d = data as Record<string, unknown>;
+
+  const focus = Array.isArray(d.role_focus) ? d.role_focus.slice(0, LIST_LIMITS.role_focus[1]) : d.role_focus;
+  const role_focus = validateStringList("role_focus", focus, errors);
+  const risk_gaps = validateStringList("risk_gaps", d.risk_gaps, errors);
+  const company_notes = validateStringList("company_notes", d.company_notes, errors);
+
+  const likely = d.likely_interview_type;
+  if (!INTERVIEW_TYPES.includes(likely as InterviewType)) {
+    errors.push({
+      field: "likely_interview_type",
+      message: `must be one of ${INTERVIEW_TYPES.join(" | ")} (got ${JSON.stringify(likely ?? null)})`,
+    });
+  }
+
+  const sample_questions: Blueprint["sample_questions"] = [];
+  if (!Array.isArray(d.sample_questions)) {
+    errors.push({ field: "sample_questions", message: "must be an array of { type, question }" });
+  } else {
+    const [min, max] = SAMPLE_QUESTION_LIMITS;
+    if (d.sample_questions.length < min || d.sample_questions.length > max) {
+      errors.push({
+        field: "sample_questions",
+        message: `must have ${min}–${max} items (got ${d.sample_questions.length})`,
+      });
+    }
+
+    d.sample_questions.forEach((q: unknown, i) => {
+      const item = (q ?? {}) as { type?: unknown; question?: unknown };
+      let ok = true;
+      if (!QUESTION_TYPES.includes(item.type as QuestionType)) {
+        errors.push({ field: `sample_questions[${i}].type`, message: `must be one of ${QUESTION_TYPES.join(" | ")}` });
+        ok = false;
+      }
+      if (!isNonEmptyString(item.question)) {
+        errors.push({ field: `sample_questions[${i}].question`, message: "must be a non-empty string" });
+        ok = false;
+      }
+      if (ok) sample_questions.push({ type: item.type as QuestionType, question: (item.question as string).trim() });
+    });
+
+    if (!sample_questions.some((q) => q.type === "behavioral")) {
+      errors.push({ field: "sample_questions", message: "must include at least one behavioral question" });
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    blueprint: {
+      role_focus,
+      likely_interview_type: likely as InterviewType,
+      risk_gaps,
+      company_notes,
+      sample_questions,
+    },
+  };
+}
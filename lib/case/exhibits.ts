@@ -0,0 +1,161 @@
+import type { InterviewPlan } from "@/lib/interview/plan";
+import { Exhibit, isExhibitList } from "./types";
+
+export type CaseWithExhibits = {
+  question: string;
+  exhibits: Exhibit[];
+};
+
+// Used when the model's exhibits are missing or malformed: each case question comes with its data
+export const CASE_BANK: CaseWithExhibits[] = [
+  {
+    question: "Our sign-ups dropped 20% last month. How would you investigate?",
+    exhibits: [
+      {
+        title: "Monthly sign-ups by channel",
+        kind: "table",
+        columns: ["Channel", "April", "May"],
+        rows: [
+          ["Paid search", 4000, 2400],
+          ["Organic", 3000, 3100],
+          ["Referral", 2000, 1900],
+          ["Partners", 1000, 600],
+        ],
+        unit: "sign-ups",
+      },
+      {
+        title: "Paid search spend",
+        kind: "bar",
+        columns: ["Month", "Spend"],
+        rows: [
+          ["March", 80],
+          ["April", 80],
+          ["May", 48],
+        ],
+        unit: "$k",
+        note: "Budget was cut mid-May.",
+      },
+    ],
+  },
+  {
+    question: "Should we launch a cheaper tier of our product? How would you decide?",
+    exhibits: [
+      {
+        title: "Current plan and customer base",
+        kind: "table",
+        columns: ["Metric", "Value"],
+        rows: [
+          ["Price per month ($)", 40],
+          ["Paying customers", 25000],
+          ["Monthly churn (%)", 4],
+          ["Trial-to-paid conversion (%)", 12],
+        ],
+      },
+      {
+        title: "Survey: would buy at this price (non-paying trial users)",
+        kind: "bar",
+        columns: ["Price", "Share"],
+        rows: [
+          ["$15", 35],
+          ["$20", 25],
+          ["$30", 10],
+        ],
+        unit: "%",
+      },
+    ],
+  },
+  {
+    question: "A competitor just cut prices by 30%. What should we do?",
+    exhibits: [
+      {
+        title: "Market share",
+        kind: "line",
+        columns: ["Quarter", "Us", "Competitor"],
+        rows: [
+          ["Q1", 34, 30],
+          ["Q2", 33, 31],
+          ["Q3", 30, 35],
+        ],
+        unit: "%",
+        note: "The competitor's price cut took effect at the start of Q3.",
+      },
+      {
+        title: "Unit economics",
+        kind: "table",
+        columns: ["Metric", "Us", "Competitor"],
+        rows: [
+          ["Price ($)", 100, 70],
+          ["Variable cost ($)", 55, 60],
+          ["Units sold (k)", 120, 140],
+        ],
+      },
+    ],
+  },
+  {
+    question: "Estimate the market size for a meal-kit delivery service in one city.",
+    exhibits: [
+      {
+        title: "City households",
+        kind: "table",
+        columns: ["Segment", "Households (k)", "Would try meal kits (%)"],
+        rows: [
+          ["Singles", 300, 15],
+          ["Couples", 250, 20],
+          ["Families", 450, 10],
+        ],
+      },
+      {
+        title: "Average order",
+        kind: "table",
+        columns: ["Metric", "Value"],
+        rows: [
+          ["Price per kit ($)", 60],
+          ["Kits per month (active customer)", 3],
+        ],
+      },
+    ],
+  },
+];
+
+// Exhibit shape expected from the model, for the planning prompt
+export const EXHIBIT_SCHEMA = `{
+      "title": "...",
+      "kind": "table" | "bar" | "line",
+      "columns": ["label column", "numeric column", "..."],
+      "rows": [["label", 0]],
+      "unit": "optional, e.g. $M or %",
+      "note": "optional one-line context"
+    }`;
+
+function clean(e: Exhibit): Exhibit {
+  return {
+    title: e.title.trim(),
+    kind: e.kind,
+    columns: e.columns.map((c) => c.trim()),
+    rows: e.rows,
+    ...(e.unit?.trim() ? { unit: e.unit.trim() } : {}),
+    ...(e.note?.trim() ? { note: e.note.trim() } : {}),
+  };
+}
+
+// Model exhibits attach to the plan's case questions in order. A case slot whose exhibits are
+// missing or malformed takes a bank case instead — its own, if the question came from the bank.
+export function mergeExhibits(base: InterviewPlan, proposed: unknown): InterviewPlan {
+  const list = Array.isArray(proposed) ? proposed : [];
+  const used = new Set(base.questions.map((q) => q.question));
+  let caseIndex = 0;
+
+  return {
+    ...base,
+    questions: base.questions.map((slot) => {
+      if (slot.type !== "case") return slot;
+      const exhibits = (list[caseIndex++] as { exhibits?: unknown } | undefined)?.exhibits;
+      if (isExhibitList(exhibits)) return { ...slot, exhibits: exhibits.map(clean) };
+
+      const own = CASE_BANK.find((c) => c.question === slot.question);
+      const fallback = own ?? CASE_BANK.find((c) => !used.has(c.question)) ?? CASE_BANK[0];
+      used.add(fallback.question);
+      return { ...slot, question: fallback.question, exhibits: fallback.exhibits };
+    }),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { checkMath } from "./math";
+import type { Exhibit } from "./types";
+
+describe("checkMath", () => {
+  it.each([
+    ["120 x 30% = 36", true],
+    ["$4M - $3.2M ≈ $0.8M", true],
+    ["30/120 = 25%", true],
+    ["12 x 3 equals 36", true],
+    ["(200 + 100) / 3 = 90", false],
+    // a dropped unit is rescaled...
+    ["12M x 3 = 36", true],
+    ["1.2 x 3 = 3.6K", true],
+    ["30/120 = 25", true],
+    ["30/120 x 100 = 25%", true],
+    ["120K x 30 = 3.6M", true],
+    // ...but a result off by a power of ten is a slip, not a dropped unit
+    ["500 x 20% = 1", false],
+    ["2 x 3 = 6000", false],
+    ["120K x 30 = 3.6K", false],
+    ["1,200 x 3 = 36", false],
+    ["$4M - $3.2M = $800", false],
+  ])("checks %s", (text, correct) => {
+    const { checked, items } = checkMath(text);
+    expect(checked).toBe(1);
+    expect(items[0].correct).toBe(correct);
+  });
+
+  it.each([
+    "From 2019-2021 is 2 years of data",
+    "From 2019-2021 = 2 years",
+    "Churn is 10-15% = a real problem",
+    "1 of 3 is 33%",
+    "2 + 2 is 4",
+  ])("leaves prose alone: %s", (text) => {
+    expect(checkMath(text).checked).toBe(0);
+  });
+
+  it("credits operands taken from an exhibit, in its unit or as printed", () => {
+    const exhibits: Exhibit[] = [{ title: "Revenue", kind: "table", columns: ["Segment", "$M"], rows: [["SMB", 12.5]] }];
+    expect(checkMath("$12.5M x 2 = $25M", exhibits).items[0].sources).toEqual(["Exhibit 1, SMB / $M"]);
+    expect(checkMath("12.5 x 2 = 25", exhibits).items[0].sources).toEqual(["Exhibit 1, SMB / $M"]);
+    expect(checkMath("$12.5K x 2 = $25K", exhibits).items[0].sources).toEqual([]);
+  });
+
+  it("reads percentages against a % exhibit", () => {
+    const exhibits: Exhibit[] = [{ title: "Churn", kind: "line", columns: ["Month", "Churn"], rows: [["Mar", 30]], unit: "%" }];
+    expect(checkMath("30% x 200 = 60", exhibits).items[0].sources).toEqual(["Exhibit 1, Mar / Churn"]);
+  });
+});
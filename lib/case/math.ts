@@ -0,0 +1,221 @@
+import type { Exhibit, MathCheck, MathChecks } from "./types";
+
+// Finds the calculations a candidate wrote out ("120 x 30% = 36", "$4M - $3.2M ≈ $0.8M"),
+// recomputes them, and notes which operands came straight from the exhibits.
+
+const NUMBER = String.raw`\$?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|k\b|K\b|M\b|mm\b|bn\b|B\b|million\b|billion\b|thousand\b))?`;
+const OPERAND = String.raw`\(*\s*${NUMBER}\s*\)*`;
+const OPERATOR = String.raw`\s*(?:[+\-*×x/÷]|times|plus|minus|divided by|of)\s*`;
+// only an explicit sign or "equals": "is" and "gives" turn prose ("2019-2021 is 2 years") into math
+const EQUALS = String.raw`\s*(?:=|≈|~=|equals|is equal to)\s*`;
+const CALCULATION = new RegExp(
+  String.raw`(${OPERAND}(?:${OPERATOR}${OPERAND})+)${EQUALS}(${NUMBER})`,
+  "gi"
+);
+const NUMBER_PATTERN = new RegExp(NUMBER, "gi");
+const TOKEN = new RegExp(String.raw`(${NUMBER})|([()])|([+\-*×x/÷]|times|plus|minus|divided by|of)`, "gi");
+
+// "2019-2021", "10-15%": an unspaced hyphen into a bigger number is a range, not a subtraction
+const HYPHENATED = /(\d[\d,]*(?:\.\d+)?)-\$?(\d[\d,]*(?:\.\d+)?)/g;
+
+const MAX_CHECKS = 12;
+// case math is rounded aggressively ("4.8k, call it 5k"); within 5% counts as right
+const TOLERANCE = 0.05;
+
+const SCALE: Record<string, number> = {
+  "%": 0.01,
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+export function parseNumber(token: string): number {
+  const m = token.trim().match(/^\$?([\d,]+(?:\.\d+)?)\s?([a-z%]*)$/i);
+  if (!m) return NaN;
+  const value = Number(m[1].replace(/,/g, ""));
+  return value * (SCALE[m[2].toLowerCase()] ?? 1);
+}
+
+type Op = "+" | "-" | "*" | "/";
+
+function toOp(word: string): Op {
+  const w = word.toLowerCase();
+  if (w === "+" || w === "plus") return "+";
+  if (w === "-" || w === "minus") return "-";
+  if (w === "/" || w === "÷" || w === "divided by") return "/";
+  return "*";
+}
+
+const PRECEDENCE: Record<Op, number> = { "+": 1, "-": 1, "*": 2, "/": 2 };
+
+function apply(values: number[], op: Op) {
+  const b = values.pop()!;
+  const a = values.pop()!;
+  values.push(op === "+" ? a + b : op === "-" ? a - b : op === "*" ? a * b : a / b);
+}
+
+// Shunting-yard over numbers, + - * / and parentheses. NaN for anything malformed.
+function evaluate(expression: string): { value: number; operands: number[] } {
+  const values: number[] = [];
+  const ops: (Op | "(")[] = [];
+  const operands: number[] = [];
+  let expectNumber = true;
+  let previous = "";
+
+  for (const [, num, paren, word] of expression.matchAll(TOKEN)) {
+    if (num !== undefined) {
+      if (!expectNumber) return { value: NaN, operands };
+      previous = num.trim();
+      const n = parseNumber(num);
+      values.push(n);
+      operands.push(n);
+      expectNumber = false;
+    } else if (paren === "(") {
+      ops.push("(");
+    } else if (paren === ")") {
+      while (ops.length && ops[ops.length - 1] !== "(") apply(values, ops.pop() as Op);
+      if (ops.pop() !== "(") return { value: NaN, operands };
+    } else if (word !== undefined) {
+      // "of" only multiplies after a percentage ("30% of 200"); "1 of 3" isn't arithmetic
+      if (expectNumber || (word.toLowerCase() === "of" && !previous.endsWith("%"))) return { value: NaN, operands };
+      const op = toOp(word);
+      while (ops.length && ops[ops.length - 1] !== "(" && PRECEDENCE[ops[ops.length - 1] as Op] >= PRECEDENCE[op]) {
+        apply(values, ops.pop() as Op);
+      }
+      ops.push(op);
+      expectNumber = true;
+    }
+  }
+  while (ops.length) {
+    const op = ops.pop()!;
+    if (op === "(") return { value: NaN, operands };
+    apply(values, op);
+  }
+  return { value: values.length === 1 ? values[0] : NaN, operands };
+}
+
+function close(a: number, b: number, tolerance: number) {
+  return Math.abs(a - b) <= Math.max(Math.abs(b) * tolerance, 1e-9);
+}
+
+// 1e6 for "12M" or "$3.2 million", 1 for a bare number or a percentage
+function magnitude(token: string) {
+  const suffix = token.trim().match(/[a-z]+$/i)?.[0].toLowerCase();
+  return suffix ? (SCALE[suffix] ?? 1) : 1;
+}
+
+// What the stated result may be scaled by before comparing: only the units the candidate
+// actually dropped. "12M x 3 = 36" dropped the M, "1.2 x 3 = 3.6K" wrote the thousands on the
+// result only, "30/120 = 25" is a percentage without its sign and "30/120 x 100 = 25%" one
+// that was multiplied out. Anything else has to match as written, so "2 x 3 = 6000" is wrong.
+function droppedUnitScales(expression: string, stated: string): number[] {
+  const operandMagnitudes = [...expression.matchAll(NUMBER_PATTERN)].map(([n]) => magnitude(n)).filter((m) => m > 1);
+  const resultMagnitude = magnitude(stated);
+  const scales = [1];
+
+  if (resultMagnitude === 1) scales.push(...operandMagnitudes);
+  else if (!operandMagnitudes.length) scales.push(1 / resultMagnitude);
+
+  if (stated.trim().endsWith("%")) scales.push(100);
+  else if (/\/|÷|divided by/i.test(expression)) scales.push(0.01);
+  return scales;
+}
+
+function matchesStated(stated: number, computed: number, scales: number[]) {
+  return scales.some((scale) => close(stated * scale, computed, TOLERANCE));
+}
+
+function hasRange(expression: string) {
+  return [...expression.matchAll(HYPHENATED)].some(([, from, to]) => parseNumber(to) > parseNumber(from));
+}
+
+// A cell's value in the exhibit's unit, and what one of that unit is worth
+type ExhibitCell = { value: number; unit: number; label: string };
+
+// "$M" → 1e6, "Subscribers (k)" → 1e3, "%" → 0.01, "sign-ups" → 1
+function unitValue(unit: string) {
+  if (unit.includes("%")) return 0.01;
+  if (/\b(b|bn|billion)\b/i.test(unit)) return 1e9;
+  if (/\b(m|mm|million)\b/i.test(unit)) return 1e6;
+  if (/\b(k|thousand)\b/i.test(unit)) return 1e3;
+  return 1;
+}
+
+function exhibitCells(exhibits: Exhibit[]): ExhibitCell[] {
+  return exhibits.flatMap((e, i) =>
+    e.rows.flatMap((row, r) =>
+      row.flatMap((cell, c) =>
+        typeof cell === "number" && c > 0
+          ? [
+              {
+                value: cell,
+                unit: unitValue(`${e.unit ?? ""} ${e.columns[c] ?? ""}`),
+                label: `Exhibit ${i + 1}, ${row[0] ?? `row ${r + 1}`} / ${e.columns[c]}`,
+              },
+            ]
+          : []
+      )
+    )
+  );
+}
+
+// An operand comes from an exhibit when it equals a cell, either as printed or in the
+// exhibit's unit ("$12.5M" or 12.5 for 12.5 in a "$M" column, "30%" or 30 in a "%" column).
+// Single digits are too common to attribute.
+function sourcesOf(operands: number[], cells: ExhibitCell[]): string[] {
+  const found = new Set<string>();
+  for (const n of operands) {
+    if (Number.isInteger(n) && Math.abs(n) < 10) continue;
+    for (const cell of cells) {
+      if (close(n, cell.value, 1e-6) || close(n, cell.value * cell.unit, 1e-6)) found.add(cell.label);
+    }
+  }
+  return [...found];
+}
+
+export function checkMath(text: string, exhibits: Exhibit[] = []): MathChecks {
+  const cells = exhibitCells(exhibits);
+  const items: MathCheck[] = [];
+
+  for (const m of text.matchAll(CALCULATION)) {
+    if (items.length >= MAX_CHECKS) break;
+    if (hasRange(m[1])) continue;
+    const { value: computed, operands } = evaluate(m[1]);
+    const stated = parseNumber(m[2]);
+    if (!Number.isFinite(computed) || !Number.isFinite(stated)) continue;
+    items.push({
+      expression: m[0].trim().replace(/,$/, ""),
+      stated,
+      computed: Math.round(computed * 1e6) / 1e6,
+      correct: matchesStated(stated, computed, droppedUnitScales(m[1], m[2])),
+      sources: sourcesOf(operands, cells),
+    });
+  }
+
+  return {
+    checked: items.length,
+    correct: items.filter((i) => i.correct).length,
+    fromExhibits: items.filter((i) => i.sources.length).length,
+    items,
+  };
+}
+
+// Quantitative reasoning a case answer can earn at most once its math has been checked:
+// the share of calculations that were right
+export function mathCeiling(math: MathChecks): number {
+  return math.checked ? Math.round((25 * math.correct) / math.checked) : 25;
+}
+
+// 36000000 → "36M", 0.25 → "0.25", 1234.5 → "1,234.5"
+export function formatNumber(n: number): string {
+  const abs = Math.abs(n);
+  const round = (v: number) => String(Math.round(v * 100) / 100);
+  if (abs >= 1e9) return `${round(n / 1e9)}B`;
+  if (abs >= 1e6) return `${round(n / 1e6)}M`;
+  return (Math.round(n * 100) / 100).toLocaleString("en-US");
+}
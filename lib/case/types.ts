@@ -0,0 +1,89 @@
+export type ExhibitKind = "table" | "bar" | "line";
+
+export const EXHIBIT_KINDS: ExhibitKind[] = ["table", "bar", "line"];
+
+// One exhibit handed to the candidate. Charts use the same shape as tables: the first
+// column holds the labels (x axis) and every other column is a numeric series.
+export type Exhibit = {
+  title: string;
+  kind: ExhibitKind;
+  columns: string[];
+  rows: (string | number)[][];
+  // e.g. "$M", "%", "thousand users" — applies to every number in the exhibit
+  unit?: string;
+  note?: string;
+};
+
+// One calculation found in the candidate's answer or scratchpad, e.g. "120 x 0.3 = 40"
+export type MathCheck = {
+  expression: string;
+  stated: number;
+  computed: number;
+  correct: boolean;
+  // exhibit cells the operands were read from, e.g. "Exhibit 1, Revenue / 2023"
+  sources: string[];
+};
+
+export type MathChecks = {
+  checked: number;
+  correct: number;
+  // calculations that used at least one number from the exhibits
+  fromExhibits: number;
+  items: MathCheck[];
+};
+
+export const MAX_SCRATCHPAD_CHARS = 4000;
+
+const MAX_EXHIBITS = 3;
+const MAX_ROWS = 24;
+const MAX_COLUMNS = 8;
+
+function isCell(v: unknown): v is string | number {
+  return typeof v === "string" || (typeof v === "number" && Number.isFinite(v));
+}
+
+export function isExhibit(value: unknown): value is Exhibit {
+  const e = value as Exhibit | null;
+  return (
+    typeof e?.title === "string" &&
+    e.title.trim().length > 0 &&
+    EXHIBIT_KINDS.includes(e.kind) &&
+    Array.isArray(e.columns) &&
+    e.columns.length >= 2 &&
+    e.columns.length <= MAX_COLUMNS &&
+    e.columns.every((c) => typeof c === "string") &&
+    Array.isArray(e.rows) &&
+    e.rows.length >= 1 &&
+    e.rows.length <= MAX_ROWS &&
+    e.rows.every((r) => Array.isArray(r) && r.length === e.columns.length && r.every(isCell)) &&
+    // charts plot every column after the first, so those must be numbers
+    (e.kind === "table" || e.rows.every((r) => r.slice(1).every((c) => typeof c === "number"))) &&
+    (e.unit === undefined || typeof e.unit === "string") &&
+    (e.note === undefined || typeof e.note === "string")
+  );
+}
+
+export function isExhibitList(value: unknown): value is Exhibit[] {
+  return Array.isArray(value) && value.length >= 1 && value.length <= MAX_EXHIBITS && value.every(isExhibit);
+}
+
+// Exhibits as plain text for prompts: "Exhibit 1 — Title ($M)" then one line per row
+export function describeExhibits(exhibits: Exhibit[]): string {
+  return exhibits
+    .map((e, i) =>
+      [
+        `Exhibit ${i + 1} — ${e.title}${e.unit ? ` (${e.unit})` : ""}`,
+        `  ${e.columns.join(" | ")}`,
+        ...e.rows.map((r) => `  ${r.join(" | ")}`),
+        ...(e.note ? [`  Note: ${e.note}`] : []),
+      ].join("\n")
+    )
+    .join("\n");
+}
+
+// e.g. "3/4 calculations correct (2 from the exhibits)" — used in prompts, coach notes and exports
+export function describeMath(math: MathChecks): string {
+  if (!math.checked) return "No calculations to check";
+  const exhibits = math.fromExhibits ? ` (${math.fromExhibits} from the exhibits)` : "";
+  return `${math.correct}/${math.checked} calculations correct${exhibits}`;
+}
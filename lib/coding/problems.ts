@@ -0,0 +1,156 @@
+import type { Blueprint } from "@/lib/blueprint";
+import type { InterviewPlan, PlanLength } from "@/lib/interview/plan";
+import { CodingProblem, isCodingProblem } from "./types";
+
+// A coding exercise takes a lot longer than a spoken answer
+export const CODING_PLAN_LENGTHS: Record<PlanLength, { problems: number; followups: number }> = {
+  30: { problems: 2, followups: 1 },
+  45: { problems: 3, followups: 2 },
+};
+
+// Used when the model's problems are missing or malformed
+export const PROBLEM_BANK: CodingProblem[] = [
+  {
+    title: "Two Sum",
+    statement:
+      "Given an array of integers nums and an integer target, return the indices [i, j] (i < j) of the two numbers that add up to target. Exactly one answer exists.",
+    functionName: "twoSum",
+    params: ["nums", "target"],
+    examples: [
+      { args: [[2, 7, 11, 15], 9], expected: [0, 1] },
+      { args: [[3, 2, 4], 6], expected: [1, 2] },
+    ],
+    tests: [
+      { args: [[3, 3], 6], expected: [0, 1] },
+      { args: [[-1, -2, -3, -4, -5], -8], expected: [2, 4] },
+      { args: [[0, 4, 3, 0], 0], expected: [0, 3] },
+      { args: [[1, 5, 9, 13, 20, 40], 53], expected: [3, 5] },
+    ],
+  },
+  {
+    title: "Valid Parentheses",
+    statement:
+      "Given a string s containing only the characters ()[]{}, return true if every bracket is closed by the same type of bracket in the correct order, otherwise false.",
+    functionName: "isValid",
+    params: ["s"],
+    examples: [
+      { args: ["()[]{}"], expected: true },
+      { args: ["(]"], expected: false },
+    ],
+    tests: [
+      { args: [""], expected: true },
+      { args: ["{[]}"], expected: true },
+      { args: ["(("], expected: false },
+      { args: ["){"], expected: false },
+      { args: ["([)]"], expected: false },
+    ],
+  },
+  {
+    title: "Merge Intervals",
+    statement:
+      "Given an array of [start, end] intervals, merge all overlapping intervals and return them sorted by start. Intervals that touch (end equals the next start) overlap.",
+    functionName: "merge",
+    params: ["intervals"],
+    examples: [
+      { args: [[[1, 3], [2, 6], [8, 10], [15, 18]]], expected: [[1, 6], [8, 10], [15, 18]] },
+      { args: [[[1, 4], [4, 5]]], expected: [[1, 5]] },
+    ],
+    tests: [
+      { args: [[]], expected: [] },
+      { args: [[[1, 4]]], expected: [[1, 4]] },
+      { args: [[[5, 7], [1, 3]]], expected: [[1, 3], [5, 7]] },
+      { args: [[[1, 10], [2, 3], [4, 5]]], expected: [[1, 10]] },
+    ],
+  },
+  {
+    title: "Longest Substring Without Repeats",
+    statement: "Given a string s, return the length of the longest substring that contains no repeated characters.",
+    functionName: "lengthOfLongestSubstring",
+    params: ["s"],
+    examples: [
+      { args: ["abcabcbb"], expected: 3 },
+      { args: ["bbbbb"], expected: 1 },
+    ],
+    tests: [
+      { args: [""], expected: 0 },
+      { args: ["pwwkew"], expected: 3 },
+      { args: [" "], expected: 1 },
+      { args: ["abba"], expected: 2 },
+      { args: ["dvdf"], expected: 3 },
+    ],
+  },
+  {
+    title: "First Unique Character",
+    statement: "Given a string s, return the index of the first character that appears exactly once, or -1 if there is none.",
+    functionName: "firstUniqChar",
+    params: ["s"],
+    examples: [
+      { args: ["leetcode"], expected: 0 },
+      { args: ["loveleetcode"], expected: 2 },
+    ],
+    tests: [
+      { args: ["aabb"], expected: -1 },
+      { args: [""], expected: -1 },
+      { args: ["z"], expected: 0 },
+      { args: ["aadadaad"], expected: -1 },
+    ],
+  },
+  {
+    title: "Binary Search",
+    statement:
+      "Given a sorted array of distinct integers nums and a target, return the index of target, or -1 if it is not present. Aim for O(log n).",
+    functionName: "search",
+    params: ["nums", "target"],
+    examples: [
+      { args: [[-1, 0, 3, 5, 9, 12], 9], expected: 4 },
+      { args: [[-1, 0, 3, 5, 9, 12], 2], expected: -1 },
+    ],
+    tests: [
+      { args: [[], 1], expected: -1 },
+      { args: [[5], 5], expected: 0 },
+      { args: [[1, 3], 3], expected: 1 },
+      { args: [[1, 3, 5, 7, 9, 11, 13], 1], expected: 0 },
+    ],
+  },
+];
+
+// The question the interviewer asks for a problem; the details live in the editor panel
+export function problemQuestion(problem: CodingProblem): string {
+  return `Coding exercise — ${problem.title}: ${problem.statement}`;
+}
+
+// One technical slot per problem, drawn from the bank in order
+export function codingPlan(blueprint: Blueprint, minutes: PlanLength): InterviewPlan {
+  const { problems, followups } = CODING_PLAN_LENGTHS[minutes];
+  return {
+    minutes,
+    questions: PROBLEM_BANK.slice(0, problems).map((problem, i) => ({
+      type: "technical",
+      question: problemQuestion(problem),
+      focus: blueprint.role_focus[i % blueprint.role_focus.length] ?? "",
+      maxFollowups: followups,
+      problem,
+    })),
+  };
+}
+
+// Model-written problems replace bank problems slot by slot; anything invalid keeps the bank one.
+export function mergeProblems(base: InterviewPlan, proposed: unknown): InterviewPlan {
+  if (!Array.isArray(proposed)) return base;
+  return {
+    ...base,
+    questions: base.questions.map((slot, i) => {
+      const problem = proposed[i];
+      if (!isCodingProblem(problem)) return slot;
+      const clean: CodingProblem = {
+        title: problem.title.trim(),
+        statement: problem.statement.trim(),
+        functionName: problem.functionName,
+        params: problem.params,
+        examples: problem.examples,
+        tests: problem.tests,
+      };
+      return { ...slot, question: problemQuestion(clean), problem: clean };
+    }),
+  };
+}
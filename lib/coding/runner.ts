@@ -0,0 +1,166 @@
+import type { CodeRun, CodingLanguage, CodingProblem, TestResult } from "./types";
+
+// Browser-only. Each run gets a fresh worker built from this source: no DOM, no network,
+// and the whole worker is terminated if the tests don't finish in time.
+export const RUN_TIMEOUT_MS = 3000;
+
+const MAX_ACTUAL_CHARS = 200;
+
+// Everything the harness needs is captured in a closure before the candidate's code runs, so
+// the code can't replace the comparator or post fake results; network APIs are removed from
+// the global and every prototype it inherits from.
+const WORKER_SOURCE = `
+"use strict";
+(() => {
+  const post = self.postMessage.bind(self);
+  const listen = self.addEventListener.bind(self);
+  const is = Object.is, keys = Object.keys, isArray = Array.isArray;
+  const getPrototypeOf = Object.getPrototypeOf, defineProperty = Object.defineProperty, hasOwn = Object.hasOwn;
+  const stringify = JSON.stringify, parse = JSON.parse, toString = String;
+  const now = performance.now.bind(performance);
+
+  const blocked = ["fetch", "XMLHttpRequest", "WebSocket", "WebTransport", "EventSource", "importScripts", "Worker",
+    "SharedWorker", "BroadcastChannel", "indexedDB", "caches", "postMessage"];
+  for (const name of blocked) {
+    for (let o = self; o; o = getPrototypeOf(o)) {
+      if (hasOwn(o, name)) try { delete o[name]; } catch (e) {}
+    }
+    try { defineProperty(self, name, { value: undefined, writable: false, configurable: false }); } catch (e) {}
+  }
+
+  function same(a, b) {
+    if (is(a, b)) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (isArray(a) !== isArray(b)) return false;
+    const ka = keys(a), kb = keys(b);
+    if (ka.length !== kb.length) return false;
+    for (let i = 0; i < ka.length; i++) if (!same(a[ka[i]], b[ka[i]])) return false;
+    return true;
+  }
+
+  function show(v) {
+    if (v === undefined) return "undefined";
+    try { const s = stringify(v); return s.length > ${MAX_ACTUAL_CHARS} ? s.slice(0, ${MAX_ACTUAL_CHARS}) + "…" : s; }
+    catch (e) { return toString(v); }
+  }
+
+  listen("message", async (e) => {
+    const { code, functionName, tests } = e.data;
+    let fn;
+    try {
+      const module = { exports: {} };
+      fn = new Function("exports", "module", code + "\\n;return typeof " + functionName + " === 'function' ? " +
+        functionName + " : (module.exports." + functionName + " || exports." + functionName + ");")(module.exports, module);
+    } catch (err) {
+      post({ type: "error", error: toString(err && err.message || err) });
+      return;
+    }
+    if (typeof fn !== "function") {
+      post({ type: "error", error: "No function named " + functionName + " was defined." });
+      return;
+    }
+    for (const t of tests) {
+      const start = now();
+      try {
+        const actual = await fn(...parse(stringify(t.args)));
+        const ms = now() - start;
+        post({ type: "result", passed: same(actual, t.expected), ms, actual: show(actual) });
+      } catch (err) {
+        post({ type: "result", passed: false, ms: now() - start, error: toString(err && err.message || err) });
+      }
+    }
+    post({ type: "done" });
+  });
+})();
+`;
+
+type WorkerMessage =
+  | { type: "result"; passed: boolean; ms: number; actual?: string; error?: string }
+  | { type: "error"; error: string }
+  | { type: "done" };
+
+type RunTest = CodingProblem["tests"][number] & { hidden: boolean };
+
+function runTests(problem: CodingProblem): RunTest[] {
+  return [
+    ...problem.examples.map((t) => ({ ...t, hidden: false })),
+    ...problem.tests.map((t) => ({ ...t, hidden: true })),
+  ];
+}
+
+function toRun(
+  tests: RunTest[],
+  results: TestResult[],
+  language: CodingLanguage,
+  extra: { timedOut?: boolean; error?: string }
+): CodeRun {
+  // tests that never reported (timeout, crash) count as failures
+  const all: TestResult[] = tests.map(
+    (t, i) => results[i] ?? { hidden: t.hidden, passed: false, ms: 0, error: extra.timedOut ? "Timed out" : "Not run" }
+  );
+  const hidden = all.filter((r) => r.hidden);
+  return {
+    language,
+    passed: all.filter((r) => r.passed).length,
+    total: all.length,
+    hiddenPassed: hidden.filter((r) => r.passed).length,
+    hiddenTotal: hidden.length,
+    runtimeMs: Math.round(results.reduce((sum, r) => sum + r.ms, 0) * 100) / 100,
+    timedOut: Boolean(extra.timedOut),
+    ...(extra.error ? { error: extra.error } : {}),
+    results: all,
+  };
+}
+
+// A run that never started, e.g. the TypeScript didn't compile
+export function failedRun(problem: CodingProblem, language: CodingLanguage, error: string): CodeRun {
+  return toRun(runTests(problem), [], language, { error });
+}
+
+// Runs the (already JavaScript) solution against the problem's examples, then its hidden tests.
+// Never rejects: a crash, missing function or timeout comes back as part of the CodeRun.
+export function runSolution(
+  js: string,
+  problem: CodingProblem,
+  language: CodingLanguage,
+  timeoutMs = RUN_TIMEOUT_MS
+): Promise<CodeRun> {
+  const tests = runTests(problem);
+  const results: TestResult[] = [];
+  const finish = (extra: { timedOut?: boolean; error?: string }) => toRun(tests, results, language, extra);
+
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: "text/javascript" }));
+    const worker = new Worker(url);
+
+    const done = (run: CodeRun) => {
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      resolve(run);
+    };
+    const timer = setTimeout(() => done(finish({ timedOut: true })), timeoutMs);
+
+    worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === "error") return done(finish({ error: msg.error }));
+      if (msg.type === "done") return done(finish({}));
+
+      const test = tests[results.length];
+      results.push({
+        hidden: test.hidden,
+        passed: msg.passed,
+        ms: Math.round(msg.ms * 100) / 100,
+        // hidden tests report pass/fail only
+        ...(!test.hidden && msg.actual !== undefined ? { actual: msg.actual } : {}),
+        ...(msg.error ? { error: msg.error } : {}),
+      });
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      done(finish({ error: e.message || "The solution crashed." }));
+    };
+
+    worker.postMessage({ code: js, functionName: problem.functionName, tests });
+  });
+}
@@ -0,0 +1,23 @@
+import ts from "typescript";
+
+export const MAX_SOURCE_CHARS = 50_000;
+
+export type TranspileResult = { ok: true; js: string } | { ok: false; errors: string[] };
+
+// Strips types from a TypeScript solution so the browser worker can run it. Only syntax errors
+// are reported — type errors don't stop a solution from running, same as in an interview.
+export function transpileSolution(code: string): TranspileResult {
+  const out = ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+    reportDiagnostics: true,
+  });
+
+  const errors = (out.diagnostics ?? []).map((d) => {
+    const message = ts.flattenDiagnosticMessageText(d.messageText, "\n");
+    if (!d.file || d.start === undefined) return message;
+    const { line, character } = d.file.getLineAndCharacterOfPosition(d.start);
+    return `Line ${line + 1}:${character + 1} ${message}`;
+  });
+
+  return errors.length ? { ok: false, errors } : { ok: true, js: out.outputText };
+}
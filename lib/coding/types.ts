@@ -0,0 +1,122 @@
+export type CodingLanguage = "javascript" | "typescript";
+
+export const CODING_LANGUAGES: CodingLanguage[] = ["javascript", "typescript"];
+
+// One call of the candidate's function: args are spread into it, the result must deep-equal expected
+export type CodingTest = {
+  args: unknown[];
+  expected: unknown;
+};
+
+export type CodingProblem = {
+  title: string;
+  statement: string;
+  functionName: string;
+  params: string[];
+  // shown to the candidate with their expected output
+  examples: CodingTest[];
+  // never shown; only pass/fail comes back
+  tests: CodingTest[];
+};
+
+export type TestResult = {
+  hidden: boolean;
+  passed: boolean;
+  ms: number;
+  // what the function returned (examples only), or why the call failed
+  actual?: string;
+  error?: string;
+};
+
+export type CodeRun = {
+  language: CodingLanguage;
+  passed: number;
+  total: number;
+  hiddenPassed: number;
+  hiddenTotal: number;
+  runtimeMs: number;
+  timedOut: boolean;
+  // compile error, or the function could not be found/loaded
+  error?: string;
+  results: TestResult[];
+};
+
+// What a scorecard keeps of a run: the counts, not every result
+export type CodeRunSummary = Omit<CodeRun, "results">;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const MAX_TESTS = 20;
+
+function isTestList(value: unknown, arity: number, min: number): value is CodingTest[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= min &&
+    value.length <= MAX_TESTS &&
+    value.every((t) => Array.isArray(t?.args) && t.args.length === arity && "expected" in t)
+  );
+}
+
+export function isCodingProblem(value: unknown): value is CodingProblem {
+  const p = value as CodingProblem | null;
+  return (
+    typeof p?.title === "string" &&
+    p.title.trim().length > 0 &&
+    typeof p.statement === "string" &&
+    p.statement.trim().length > 0 &&
+    typeof p.functionName === "string" &&
+    IDENTIFIER.test(p.functionName) &&
+    Array.isArray(p.params) &&
+    p.params.every((n) => typeof n === "string" && IDENTIFIER.test(n)) &&
+    isTestList(p.examples, p.params.length, 1) &&
+    isTestList(p.tests, p.params.length, 1)
+  );
+}
+
+function isCount(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= 0;
+}
+
+export function isCodeRun(value: unknown): value is CodeRun {
+  const r = value as CodeRun | null;
+  return (
+    CODING_LANGUAGES.includes(r?.language as CodingLanguage) &&
+    isCount(r?.passed) &&
+    isCount(r.total) &&
+    r.passed <= r.total &&
+    isCount(r.hiddenPassed) &&
+    isCount(r.hiddenTotal) &&
+    r.hiddenPassed <= r.hiddenTotal &&
+    typeof r.runtimeMs === "number" &&
+    typeof r.timedOut === "boolean" &&
+    (r.error === undefined || typeof r.error === "string") &&
+    Array.isArray(r.results)
+  );
+}
+
+export function summarizeRun(run: CodeRun): CodeRunSummary {
+  const { language, passed, total, hiddenPassed, hiddenTotal, runtimeMs, timedOut, error } = run;
+  return { language, passed, total, hiddenPassed, hiddenTotal, runtimeMs, timedOut, ...(error ? { error } : {}) };
+}
+
+// e.g. "4/6 tests passed (hidden 2/3), 1.3 ms" — used in prompts, coach notes and exports
+export function describeRun(run: CodeRunSummary): string {
+  if (run.error) return `Did not run: ${run.error}`;
+  const parts = [
+    `${run.passed}/${run.total} tests passed`,
+    run.hiddenTotal ? ` (hidden ${run.hiddenPassed}/${run.hiddenTotal})` : "",
+    `, ${Math.round(run.runtimeMs * 10) / 10} ms`,
+    run.timedOut ? ", timed out" : "",
+  ];
+  return parts.join("");
+}
+
+export function starterCode(problem: CodingProblem, language: CodingLanguage): string {
+  const params = language === "typescript" ? problem.params.map((p) => `${p}: any`) : problem.params;
+  return `function ${problem.functionName}(${params.join(", ")}) {\n  // your code here\n}\n`;
+}
+
+// How a submitted solution appears in the transcript: the candidate's notes, then the code
+export function solutionAnswer(notes: string, code: string, language: CodingLanguage): string {
+  const fence = language === "typescript" ? "ts" : "js";
+  return `${notes.trim()}\n\n\`\`\`${fence}\n${code.trim()}\n\`\`\``.trim();
+}
@@ -0,0 +1,102 @@
+import type { Mode } from "@/lib/interview/types";
+import { AnswerTiming, Delivery, DELIVERY_TARGETS, formatCounts, PhraseCount } from "./types";
+
+// Delivery analysis of a spoken answer: pace and timing against the question type's targets,
+// plus filler words and hedging phrases counted from the transcript. Content scores don't use it.
+
+type Phrase = { phrase: string; pattern: RegExp };
+
+const FILLERS: Phrase[] = [
+  { phrase: "um", pattern: /\b(um+|uhm+|erm+)\b/gi },
+  { phrase: "uh", pattern: /\b(uh+|er)\b/gi },
+  // "like" as a filler, not "I'd like to" or "looks like a cache"
+  {
+    phrase: "like",
+    pattern:
+      /(?<!\b(i|i'd|you|we|they|would|look|looks|looked|feel|feels|felt|seem|seems|something|things|just|more|less)\s)\blike\b(?!\s+(to|this|that|a|an|the|it|when)\b)/gi,
+  },
+  { phrase: "you know", pattern: /\byou know\b(?!\s+(what|how|why|that|the|when|where|if)\b)/gi },
+  { phrase: "basically", pattern: /\bbasically\b/gi },
+  { phrase: "literally", pattern: /\bliterally\b/gi },
+  { phrase: "I mean", pattern: /\bi mean\b/gi },
+];
+
+const HEDGES: Phrase[] = [
+  { phrase: "I think", pattern: /\bi think\b/gi },
+  { phrase: "I guess", pattern: /\bi guess\b/gi },
+  { phrase: "I feel like", pattern: /\bi feel like\b/gi },
+  { phrase: "maybe", pattern: /\bmaybe\b/gi },
+  { phrase: "probably", pattern: /\bprobably\b/gi },
+  { phrase: "sort of", pattern: /\bsort of\b/gi },
+  { phrase: "kind of", pattern: /\bkind of\b/gi },
+  { phrase: "I'm not sure", pattern: /\bi'?m not (really )?sure\b/gi },
+  { phrase: "hopefully", pattern: /\bhopefully\b/gi },
+];
+
+// below this, words per minute swing too much to judge
+const MIN_TIMED_SEC = 10;
+const MAX_HEDGES = 2;
+const MAX_LONG_PAUSES = 2;
+
+function countPhrases(text: string, phrases: Phrase[]): PhraseCount[] {
+  return phrases
+    .map(({ phrase, pattern }) => ({ phrase, count: text.match(pattern)?.length ?? 0 }))
+    .filter((p) => p.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+function total(items: PhraseCount[]) {
+  return items.reduce((sum, i) => sum + i.count, 0);
+}
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+export function analyzeDelivery(answer: string, mode: Mode, timing: AnswerTiming): Delivery {
+  const targets = DELIVERY_TARGETS[mode];
+  const words = answer.trim().split(/\s+/).filter(Boolean).length;
+  const durationSec = Math.round(timing.durationMs / 1000);
+  const firstWordSec = round1(timing.firstWordMs / 1000);
+  const wpm = timing.durationMs > 0 ? Math.round(words / (timing.durationMs / 60000)) : 0;
+
+  const fillerItems = countPhrases(answer, FILLERS);
+  const fillerCount = total(fillerItems);
+  const per100 = words ? round1((fillerCount * 100) / words) : 0;
+  const hedgeItems = countPhrases(answer, HEDGES);
+  const hedgeCount = total(hedgeItems);
+
+  const { durationSec: length, wpm: pace } = targets;
+  const flags: string[] = [];
+  if (durationSec < length.min) flags.push(`Short: ${durationSec}s — aim for ${length.min}–${length.max}s on a ${mode} answer.`);
+  if (durationSec > length.max) flags.push(`Long: ${durationSec}s — aim for ${length.min}–${length.max}s on a ${mode} answer.`);
+  if (durationSec >= MIN_TIMED_SEC && wpm > pace.max) flags.push(`Fast: ${wpm} wpm — slow down to ${pace.min}–${pace.max}.`);
+  if (durationSec >= MIN_TIMED_SEC && wpm < pace.min) flags.push(`Slow: ${wpm} wpm — pick up to ${pace.min}–${pace.max}.`);
+  if (firstWordSec > targets.firstWordSec) {
+    flags.push(
+      `Slow start: ${firstWordSec}s to the first word — aim for under ${targets.firstWordSec}s${
+        mode === "behavioral" ? "." : "; think out loud while you plan."
+      }`
+    );
+  }
+  if (per100 > targets.fillersPer100) {
+    flags.push(`Fillers: ${per100} per 100 words (${formatCounts(fillerItems)}) — aim for ${targets.fillersPer100} or fewer.`);
+  }
+  if (hedgeCount > MAX_HEDGES) flags.push(`Hedging: ${formatCounts(hedgeItems)} — state what you did and know plainly.`);
+  if (timing.longPauses > MAX_LONG_PAUSES) {
+    flags.push(`${timing.longPauses} long pauses (longest ${round1(timing.longestPauseMs / 1000)}s) — bridge them with “let me think about …”.`);
+  }
+
+  return {
+    words,
+    durationSec,
+    firstWordSec,
+    wpm,
+    longPauses: timing.longPauses,
+    longestPauseSec: round1(timing.longestPauseMs / 1000),
+    fillers: { count: fillerCount, per100, items: fillerItems },
+    hedges: { count: hedgeCount, items: hedgeItems },
+    targets,
+    flags,
+  };
+}
@@ -0,0 +1,74 @@
+import { AnswerTiming, LONG_PAUSE_MS } from "./types";
+
+// Timing of one spoken answer as speech recognition runs. Every recognition result counts as
+// hearing speech; the silences between results are the pauses.
+export type TimingTracker = {
+  startedAt: number;
+  firstAt: number | null;
+  lastAt: number | null;
+  longPauses: number;
+  longestPauseMs: number;
+};
+
+export function startTiming(now: number): TimingTracker {
+  return { startedAt: now, firstAt: null, lastAt: null, longPauses: 0, longestPauseMs: 0 };
+}
+
+export function heardSpeech(tracker: TimingTracker, now: number): TimingTracker {
+  if (tracker.lastAt === null) return { ...tracker, firstAt: now, lastAt: now };
+  const gap = now - tracker.lastAt;
+  return {
+    ...tracker,
+    lastAt: now,
+    longPauses: tracker.longPauses + (gap >= LONG_PAUSE_MS ? 1 : 0),
+    longestPauseMs: Math.max(tracker.longestPauseMs, gap),
+  };
+}
+
+// null when nothing was heard
+export function finishTiming(tracker: TimingTracker | null): AnswerTiming | null {
+  if (!tracker || tracker.firstAt === null || tracker.lastAt === null) return null;
+  return {
+    firstWordMs: tracker.firstAt - tracker.startedAt,
+    durationMs: tracker.lastAt - tracker.firstAt,
+    longPauses: tracker.longPauses,
+    longestPauseMs: tracker.longestPauseMs,
+  };
+}
+
+// Recorded audio has no recognition events, so speech is found from loudness instead: 50 ms
+// frames well above the recording's noise floor count as speech. null when nothing was said.
+const FRAME_MS = 50;
+const MIN_SPEECH_RMS = 0.01;
+
+export function timingFromSamples(samples: Float32Array, sampleRate: number): AnswerTiming | null {
+  const size = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += size) {
+    let sum = 0;
+    const end = Math.min(samples.length, start + size);
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  if (!levels.length) return null;
+
+  const floor = [...levels].sort((a, b) => a - b)[Math.floor(levels.length / 10)];
+  const threshold = Math.max(MIN_SPEECH_RMS, floor * 3);
+
+  let tracker = startTiming(0);
+  levels.forEach((level, i) => {
+    if (level >= threshold) tracker = heardSpeech(tracker, i * FRAME_MS);
+  });
+  return finishTiming(tracker);
+}
+
+// one answer spoken over several recordings: pauses and length add up, the first word is the first recording's
+export function combineTimings(a: AnswerTiming | null, b: AnswerTiming | null): AnswerTiming | null {
+  if (!a || !b) return a ?? b;
+  return {
+    firstWordMs: a.firstWordMs,
+    durationMs: a.durationMs + b.durationMs,
+    longPauses: a.longPauses + b.longPauses,
+    longestPauseMs: Math.max(a.longestPauseMs, b.longestPauseMs),
+  };
+}
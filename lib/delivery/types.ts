@@ -0,0 +1,75 @@
+import type { Mode } from "@/lib/interview/types";
+
+// How a spoken answer was delivered, measured in the browser while speech recognition ran.
+// Typed answers have no timing.
+export type AnswerTiming = {
+  // from pressing the mic to the first recognized word
+  firstWordMs: number;
+  // from the first recognized word to the last
+  durationMs: number;
+  // silences of LONG_PAUSE_MS or more between recognized words
+  longPauses: number;
+  longestPauseMs: number;
+};
+
+export const LONG_PAUSE_MS = 2500;
+
+export type Range = { min: number; max: number };
+
+// What good delivery looks like for a question type; thinking time grows with the problem
+export type DeliveryTargets = {
+  durationSec: Range;
+  wpm: Range;
+  firstWordSec: number;
+  fillersPer100: number;
+};
+
+export const DELIVERY_TARGETS: Record<Mode, DeliveryTargets> = {
+  behavioral: { durationSec: { min: 60, max: 150 }, wpm: { min: 120, max: 160 }, firstWordSec: 5, fillersPer100: 3 },
+  technical: { durationSec: { min: 90, max: 300 }, wpm: { min: 100, max: 150 }, firstWordSec: 20, fillersPer100: 4 },
+  case: { durationSec: { min: 90, max: 240 }, wpm: { min: 110, max: 150 }, firstWordSec: 30, fillersPer100: 4 },
+};
+
+export type PhraseCount = { phrase: string; count: number };
+
+export type Delivery = {
+  words: number;
+  durationSec: number;
+  firstWordSec: number;
+  wpm: number;
+  longPauses: number;
+  longestPauseSec: number;
+  fillers: { count: number; per100: number; items: PhraseCount[] };
+  hedges: { count: number; items: PhraseCount[] };
+  targets: DeliveryTargets;
+  // one line per target missed, e.g. "Fast: 182 wpm — slow down to 120–160."
+  flags: string[];
+};
+
+function isMs(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+export function isAnswerTiming(value: unknown): value is AnswerTiming {
+  const t = value as AnswerTiming | null;
+  return (
+    isMs(t?.firstWordMs) &&
+    isMs(t?.durationMs) &&
+    Number.isInteger(t?.longPauses) &&
+    t!.longPauses >= 0 &&
+    isMs(t?.longestPauseMs)
+  );
+}
+
+// e.g. "75s at 142 wpm · 4 fillers · 1 long pause" — used in coach notes and exports
+export function describeDelivery(d: Delivery): string {
+  return [
+    `${d.durationSec}s at ${d.wpm} wpm`,
+    `${d.fillers.count} filler${d.fillers.count === 1 ? "" : "s"}`,
+    `${d.longPauses} long pause${d.longPauses === 1 ? "" : "s"}`,
+  ].join(" · ");
+}
+
+export function formatCounts(items: PhraseCount[]): string {
+  return items.map((i) => `“${i.phrase}” ×${i.count}`).join(", ");
+}
@@ -0,0 +1,60 @@
+export type DiffPart = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+// Above this many tokens per side the LCS table gets too big to build on every render.
+const MAX_TOKENS = 1500;
+
+function tokenize(text: string) {
+  return String(text || "").match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(parts: DiffPart[], type: DiffPart["type"], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+// Word-level diff (LCS over whitespace-separated tokens) between the original and rewritten answer.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length > MAX_TOKENS || b.length > MAX_TOKENS) {
+    return [
+      { type: "removed", text: before },
+      { type: "added", text: after },
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, "same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(parts, "removed", a[i]);
+      i++;
+    } else {
+      push(parts, "added", b[j]);
+      j++;
+    }
+  }
+  while (i < a.length) push(parts, "removed", a[i++]);
+  while (j < b.length) push(parts, "added", b[j++]);
+
+  return parts;
+}
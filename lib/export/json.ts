@@ -0,0 +1,146 @@
+import { FieldError, validateBlueprint } from "@/lib/blueprint";
+import { isConversationState } from "@/lib/interview/memory";
+import { isInterviewPlan, isPlanProgress } from "@/lib/interview/plan";
+import { isInterviewReport } from "@/lib/interview/report";
+import { isInterviewStyle } from "@/lib/interview/style";
+import { SESSION_MODES, Turn } from "@/lib/interview/types";
+import {
+  InterviewSession,
+  isTurn,
+  NewSession,
+  ScoredAnswer,
+  scorecardProblem,
+  SessionUpdate,
+} from "@/lib/sessions/types";
+
+export const EXPORT_FORMAT = "interviewee.session";
+
+// Bump when the exported shape changes, and teach parseSessionExport to upgrade the old one.
+export const EXPORT_VERSION = 1;
+
+export type SessionExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: InterviewSession;
+};
+
+// What an import turns into: a fresh session (new id and timestamps) plus everything it had recorded
+export type ImportedSession = {
+  create: NewSession;
+  update: SessionUpdate;
+};
+
+export function exportSession(session: InterviewSession): SessionExport {
+  return { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), session };
+}
+
+function isString(v: unknown): v is string {
+  return typeof v === "string";
+}
+
+// The first scored answer that's malformed, named down to the field, so a bad file can't be saved
+// and then break the report, progress and exports that read it
+function scoredAnswerErrors(scorecards: unknown[], turns: unknown[]): FieldError[] {
+  for (const [i, sc] of scorecards.entries()) {
+    const item = sc as Partial<ScoredAnswer> | null;
+    const field = `session.scorecards[${i}]`;
+    if (!Number.isInteger(item?.turnIndex) || (turns[item!.turnIndex!] as Turn | undefined)?.role !== "candidate") {
+      return [{ field: `${field}.turnIndex`, message: "must point at a candidate turn" }];
+    }
+    const problem = scorecardProblem(item!.scorecard);
+    if (problem) {
+      const at = problem === "scorecard" ? `${field}.scorecard` : `${field}.scorecard.${problem}`;
+      return [{ field: at, message: "is missing or malformed" }];
+    }
+  }
+  return [];
+}
+
+export function parseSessionExport(
+  data: unknown
+): { ok: true; imported: ImportedSession } | { ok: false; errors: FieldError[] } {
+  const doc = data as Partial<SessionExport> | null;
+
+  if (doc?.format !== EXPORT_FORMAT) {
+    return { ok: false, errors: [{ field: "format", message: `must be "${EXPORT_FORMAT}"` }] };
+  }
+  if (!Number.isInteger(doc.version) || (doc.version as number) < 1) {
+    return { ok: false, errors: [{ field: "version", message: "must be a positive integer" }] };
+  }
+  if ((doc.version as number) > EXPORT_VERSION) {
+    return {
+      ok: false,
+      errors: [{ field: "version", message: `${doc.version} is newer than this app supports (${EXPORT_VERSION})` }],
+    };
+  }
+
+  const s = doc.session as Partial<InterviewSession> | undefined;
+  const errors: FieldError[] = [];
+
+  if (!s || typeof s !== "object") {
+    return { ok: false, errors: [{ field: "session", message: "must be an object" }] };
+  }
+
+  if (!isString(s.company) || !s.company.trim()) errors.push({ field: "session.company", message: "must be a non-empty string" });
+  if (!isString(s.resumeText)) errors.push({ field: "session.resumeText", message: "must be a string" });
+  if (!isString(s.jobDescription)) errors.push({ field: "session.jobDescription", message: "must be a string" });
+  if (!SESSION_MODES.includes(s.mode as never)) {
+    errors.push({ field: "session.mode", message: `must be one of ${SESSION_MODES.join(" | ")}` });
+  }
+
+  if (s.style !== undefined && !isInterviewStyle(s.style)) {
+    errors.push({ field: "session.style", message: "must be { persona, difficulty }" });
+  }
+
+  const checked = validateBlueprint(s.blueprint);
+  if (!checked.ok) errors.push(...checked.errors.map((e) => ({ ...e, field: `session.blueprint.${e.field}` })));
+
+  if (!Array.isArray(s.turns)) {
+    errors.push({ field: "session.turns", message: "must be an array of { role, content }" });
+  } else {
+    const bad = s.turns.findIndex((t) => !isTurn(t));
+    if (bad >= 0) errors.push({ field: `session.turns[${bad}]`, message: "must be { role, content }" });
+  }
+  if (!Array.isArray(s.scorecards)) {
+    errors.push({ field: "session.scorecards", message: "must be an array of { turnIndex, scorecard }" });
+  } else {
+    errors.push(...scoredAnswerErrors(s.scorecards, Array.isArray(s.turns) ? s.turns : []));
+  }
+  if (s.plan !== undefined && !isInterviewPlan(s.plan)) {
+    errors.push({ field: "session.plan", message: "is not a valid interview plan" });
+  }
+  if (s.progress !== undefined && !isPlanProgress(s.progress, s.plan)) {
+    errors.push({ field: "session.progress", message: "is not valid progress for the plan" });
+  }
+  if (s.report !== undefined && !isInterviewReport(s.report)) {
+    errors.push({ field: "session.report", message: "is not a valid interview report" });
+  }
+  if (s.conversation !== undefined && !isConversationState(s.conversation)) {
+    errors.push({ field: "session.conversation", message: "is not a valid conversation memory" });
+  }
+
+  if (errors.length || !checked.ok) return { ok: false, errors };
+
+  return {
+    ok: true,
+    imported: {
+      create: {
+        company: s.company!,
+        resumeText: s.resumeText!,
+        jobDescription: s.jobDescription!,
+        blueprint: checked.blueprint,
+        mode: s.mode!,
+        ...(s.style ? { style: s.style } : {}),
+      },
+      update: {
+        turns: s.turns,
+        scorecards: s.scorecards,
+        ...(s.plan ? { plan: s.plan } : {}),
+        ...(s.progress ? { progress: s.progress } : {}),
+        ...(s.report ? { report: s.report } : {}),
+        ...(s.conversation ? { conversation: s.conversation } : {}),
+      },
+    },
+  };
+}
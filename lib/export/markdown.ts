@@ -0,0 +1,153 @@
+import { formatNumber } from "@/lib/case/math";
+import { describeMath, Exhibit } from "@/lib/case/types";
+import { describeRun } from "@/lib/coding/types";
+import { describeDelivery } from "@/lib/delivery/types";
+import { CONSISTENCY_LABELS, describeConsistency } from "@/lib/interview/consistency";
+import { labelSignal } from "@/lib/interview/report";
+import { labelStyle } from "@/lib/interview/style";
+import { evidenceOf, rubricFor, scoreOf } from "@/lib/scoring/rubrics";
+import type { InterviewSession } from "@/lib/sessions/types";
+
+const STAR_KEYS = ["situation", "task", "action", "result"] as const;
+
+function label(s: string) {
+  return s.charAt(0).toUpperCase() + s.slice(1).replace(/_/g, " ");
+}
+
+function list(items: string[]) {
+  return items.length ? items.map((i) => `- ${i}`).join("\n") : "- (none)";
+}
+
+function exhibitTable(e: Exhibit, n: number) {
+  const cell = (c: string | number) => String(c).replace(/\|/g, "\\|");
+  return [
+    `**Exhibit ${n} — ${e.title}**${e.unit ? ` (${e.unit})` : ""}`,
+    "",
+    `| ${e.columns.map(cell).join(" | ")} |`,
+    `| ${e.columns.map(() => "---").join(" | ")} |`,
+    ...e.rows.map((r) => `| ${r.map(cell).join(" | ")} |`),
+    ...(e.note ? ["", `_${e.note}_`] : []),
+  ].join("\n");
+}
+
+function quote(text: string) {
+  return text
+    .split("\n")
+    .map((l) => `> ${l}`)
+    .join("\n");
+}
+
+// e.g. "interviewee-acme-2026-10-19"; used for every export format's file name
+export function exportFileName(session: InterviewSession) {
+  const slug = session.company.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "session";
+  return `interviewee-${slug}-${session.createdAt.slice(0, 10)}`;
+}
+
+// Whole session as Markdown: blueprint, transcript, each scorecard with its coach notes, and the
+// report when the interview was finished. The PDF export is rendered from this same text.
+export function sessionToMarkdown(session: InterviewSession): string {
+  const { blueprint } = session;
+  const out: string[] = [];
+
+  out.push(`# Interview practice: ${session.company}`);
+  out.push(
+    list([
+      `Mode: ${label(session.mode)}`,
+      ...(session.style ? [`Interviewer: ${labelStyle(session.style)}`] : []),
+      `Started: ${new Date(session.createdAt).toUTCString()}`,
+      `Last updated: ${new Date(session.updatedAt).toUTCString()}`,
+      `Answers scored: ${session.scorecards.length}`,
+    ])
+  );
+
+  out.push("## Blueprint");
+  out.push(`Likely interview: ${label(blueprint.likely_interview_type).replace(" ", " + ")}`);
+  out.push("### Role focus", list(blueprint.role_focus));
+  out.push("### Risk gaps", list(blueprint.risk_gaps));
+  out.push("### Company notes", list(blueprint.company_notes));
+  out.push("### Sample questions", list(blueprint.sample_questions.map((q) => `(${q.type}) ${q.question}`)));
+
+  if (session.plan) {
+    out.push(`## Plan (${session.plan.minutes} minutes)`);
+    out.push(
+      list(
+        session.plan.questions.map(
+          (q, i) =>
+            `Q${i + 1} (${q.problem ? "coding" : q.type}, up to ${q.maxFollowups} follow-ups) ${q.question}${q.focus ? ` [tests: ${q.focus}]` : ""}${q.exhibits ? ` [${q.exhibits.length} exhibit${q.exhibits.length === 1 ? "" : "s"}]` : ""}`
+        )
+      )
+    );
+    session.plan.questions.forEach((q, i) => {
+      if (!q.exhibits) return;
+      out.push(`### Q${i + 1} exhibits`, ...q.exhibits.map((e, j) => exhibitTable(e, j + 1)));
+    });
+  }
+
+  out.push("## Transcript");
+  if (!session.turns.length) out.push("No turns yet.");
+  for (const turn of session.turns) {
+    out.push(`**${turn.role === "interviewer" ? "Interviewer" : "Candidate"}:** ${turn.content}`);
+  }
+
+  out.push("## Scorecards");
+  if (!session.scorecards.length) out.push("No answers scored yet.");
+  session.scorecards.forEach((s, i) => {
+    const { scorecard, coach } = s;
+    const rubric = rubricFor(scorecard);
+    out.push(`### Answer ${i + 1} (${label(scorecard.mode)}): ${scorecard.scores.overall}/100`);
+    out.push(quote(session.turns[s.turnIndex]?.content ?? "(answer not recorded)"));
+    out.push(
+      list([
+        `Graded by: ${scorecard.source === "model" ? "model" : "heuristic"} (${rubric.name} rubric)`,
+        ...rubric.dimensions.map((d) => {
+          const evidence = evidenceOf(scorecard, d.key);
+          const cited = evidence.length ? ` (“${evidence.join("”, “")}”)` : "";
+          return `${d.label}: ${scoreOf(scorecard, d.key)}/25${cited}`;
+        }),
+        ...(scorecard.mode === "behavioral"
+          ? [`STAR: ${STAR_KEYS.map((k) => `${label(k)} ${scorecard.star[k].present ? "yes" : "no"}`).join(", ")}`]
+          : []),
+        ...(scorecard.mode === "technical" && scorecard.tests ? [`Tests: ${describeRun(scorecard.tests)}`] : []),
+        ...(scorecard.mode === "case" && scorecard.math ? [`Math: ${describeMath(scorecard.math)}`] : []),
+        ...(scorecard.mode === "case" && scorecard.math
+          ? scorecard.math.items.map(
+              (m) =>
+                `${m.correct ? "✓" : "✗"} ${m.expression}${m.correct ? "" : ` (actually ${formatNumber(m.computed)})`}${m.sources.length ? ` — from ${m.sources.join("; ")}` : ""}`
+            )
+          : []),
+        ...(scorecard.consistency ? [`Consistency: ${describeConsistency(scorecard.consistency)}`] : []),
+        ...(scorecard.consistency?.items ?? []).map(
+          (c) => `${c.status === "consistent" ? "✓" : "✗"} ${CONSISTENCY_LABELS[c.status]}: “${c.claim}”${c.note ? ` — ${c.note}` : ""}`
+        ),
+        ...(scorecard.delivery ? [`Delivery: ${describeDelivery(scorecard.delivery)}`] : []),
+        ...(scorecard.delivery?.flags ?? []).map((f) => `✗ ${f}`),
+      ])
+    );
+    if (scorecard.mode === "case" && scorecard.scratchpad) out.push("**Scratchpad**", quote(scorecard.scratchpad));
+    out.push("**Strengths**", list(scorecard.strengths));
+    out.push("**Gaps**", list(scorecard.gaps));
+    if (coach) {
+      out.push(
+        "**Coach notes**",
+        list([`Coverage: ${coach.star}`, `Missing: ${coach.missing}`, `Why: ${coach.why}`, `Follow-up intent: ${coach.intent}`])
+      );
+    }
+    out.push("**Improved answer**", quote(scorecard.rewrite.improvedAnswer));
+    out.push("**Add next time**", list(scorecard.rewrite.bulletsToAdd));
+  });
+
+  const report = session.report;
+  if (report) {
+    out.push("## Report");
+    out.push(`**Signal:** ${labelSignal(report.signal)} (average ${report.averages.overall}/100)`);
+    out.push(report.summary);
+    out.push("### Top strengths", list(report.strengths));
+    out.push(
+      "### Top gaps",
+      list(report.gaps.map((g) => (g.riskGap ? `${g.gap} (risk gap: ${g.riskGap})` : g.gap)))
+    );
+    out.push("### Practice plan", list(report.practicePlan.map((p) => `${p.focus}: ${p.drill}`)));
+  }
+
+  return out.join("\n\n") + "\n";
+}
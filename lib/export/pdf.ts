@@ -0,0 +1,150 @@
+// Minimal PDF writer for the Markdown export: Helvetica text, headings, bullets and quotes,
+// wrapped and paginated on US Letter. No images or tables — enough for a printable transcript.
+
+type BlockStyle = "h1" | "h2" | "h3" | "p" | "li" | "quote";
+
+type Block = { style: BlockStyle; text: string };
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+
+const STYLES: Record<BlockStyle, { font: "F1" | "F2"; size: number; before: number; indent: number }> = {
+  h1: { font: "F2", size: 18, before: 10, indent: 0 },
+  h2: { font: "F2", size: 14, before: 14, indent: 0 },
+  h3: { font: "F2", size: 11.5, before: 10, indent: 0 },
+  p: { font: "F1", size: 10, before: 6, indent: 0 },
+  li: { font: "F1", size: 10, before: 2, indent: 14 },
+  quote: { font: "F1", size: 10, before: 2, indent: 14 },
+};
+
+// Helvetica averages ~0.5em per glyph; a little extra keeps wide lines inside the margin
+const CHAR_WIDTH_EM = 0.53;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI: Record<string, number> = {
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "…": 0x85,
+  "€": 0x80,
+};
+
+function markdownBlocks(md: string): Block[] {
+  const blocks: Block[] = [];
+  for (const raw of md.split("\n")) {
+    const line = raw.replace(/\*\*/g, "").replace(/`/g, "").trimEnd();
+    if (!line.trim()) continue;
+
+    const m = line.match(/^(#{1,3}) (.*)$/);
+    if (m) blocks.push({ style: (["h1", "h2", "h3"] as const)[m[1].length - 1], text: m[2] });
+    else if (line.startsWith("- ")) blocks.push({ style: "li", text: `• ${line.slice(2)}` });
+    else if (line.startsWith("> ")) blocks.push({ style: "quote", text: line.slice(2) });
+    else if (line === ">") continue;
+    else blocks.push({ style: "p", text: line });
+  }
+  return blocks;
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    // hard-split anything longer than a whole line (URLs, long tokens)
+    for (let w = word; w.length; w = w.slice(maxChars)) {
+      const piece = w.slice(0, maxChars);
+      if (!current) current = piece;
+      else if (current.length + 1 + piece.length <= maxChars) current += ` ${piece}`;
+      else {
+        lines.push(current);
+        current = piece;
+      }
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// PDF string literal in WinAnsi, with everything non-ASCII as an octal escape so the file stays 7-bit
+function pdfString(text: string) {
+  let out = "(";
+  for (const ch of text) {
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0) ?? 63;
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code <= 0xff && code >= 0x80) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += "?";
+  }
+  return `${out})`;
+}
+
+function layout(blocks: Block[]): string[] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const style = STYLES[block.style];
+    const leading = style.size * 1.35;
+    const x = MARGIN + style.indent;
+    const maxChars = Math.floor((PAGE_WIDTH - MARGIN - x) / (style.size * CHAR_WIDTH_EM));
+
+    y -= style.before;
+    wrap(block.text, maxChars).forEach((line, i) => {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      // continuation lines of a bullet line up with the text, not the bullet
+      const indent = block.style === "li" && i > 0 ? style.size * 0.7 : 0;
+      pages[pages.length - 1].push(
+        `BT /${style.font} ${style.size} Tf ${(x + indent).toFixed(1)} ${y.toFixed(1)} Td ${pdfString(line)} Tj ET`
+      );
+    });
+  }
+
+  return pages.map((ops) => ops.join("\n"));
+}
+
+export function markdownToPdf(md: string, title = "Interview practice"): Uint8Array {
+  const pages = layout(markdownBlocks(md));
+
+  // 1 catalog, 2 page tree, 3–4 fonts, 5 info, then a (page, content) pair per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title ${pdfString(title)} /Producer (Interviewee) >>`;
+
+  pages.forEach((content, i) => {
+    const id = pageIds[i];
+    objects[id] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${id + 1} 0 R >>`;
+    objects[id + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // every byte is ASCII by construction, so string length == byte length above
+  return new TextEncoder().encode(pdf);
+}
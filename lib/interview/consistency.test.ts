@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { checkConsistency } from "./consistency";
+
+const sources = {
+  resumeText: [
+    "Managed 8 engineers across 3 teams at Acme.",
+    "Grew revenue by 20% in one year at Acme.",
+    "Built billing services at Acme in Python.",
+  ].join("\n"),
+  jobDescription: "You will build services in Go and Kubernetes.",
+  company: "Acme",
+};
+
+function statuses(answer: string) {
+  return checkConsistency(answer, sources)?.items.map((i) => i.status);
+}
+
+describe("checkConsistency", () => {
+  it("doesn't compare figures that count different things", () => {
+    expect(statuses("I managed 8 engineers at Acme for 2 years.")).toEqual(["consistent"]);
+  });
+
+  it("flags a count that grew since the resume", () => {
+    const items = checkConsistency("I managed 12 engineers across 3 teams at Acme.", sources)!.items;
+    expect(items[0]).toMatchObject({ status: "inflated", note: "You said 12; your resume says 8." });
+  });
+
+  it("flags a smaller percentage as a contradiction", () => {
+    expect(statuses("I grew revenue by 5% in one year at Acme.")).toEqual(["contradiction"]);
+  });
+
+  it("flags two-letter skills from the job description that aren't on the resume", () => {
+    const items = checkConsistency("At Acme I built the billing services in Go.", sources)!.items;
+    expect(items[0]).toMatchObject({ status: "not_on_resume", skill: "Go" });
+  });
+
+  it("has nothing to check without a resume", () => {
+    expect(checkConsistency("I managed 8 engineers.", { ...sources, resumeText: " " })).toBeNull();
+  });
+});
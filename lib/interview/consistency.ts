@@ -0,0 +1,231 @@
+import { parseNumber } from "@/lib/case/math";
+import { extractClaims } from "./memory";
+import { keywords } from "./report";
+
+// Checks what the candidate says against their resume and the job description: numbers that
+// grew since the resume was written, numbers that disagree with it, and tools the job asks for
+// that the resume never mentions.
+
+export type ConsistencyStatus = "consistent" | "contradiction" | "inflated" | "not_on_resume";
+
+export const CONSISTENCY_STATUSES: ConsistencyStatus[] = ["consistent", "contradiction", "inflated", "not_on_resume"];
+
+export const CONSISTENCY_LABELS: Record<ConsistencyStatus, string> = {
+  consistent: "Matches the resume",
+  contradiction: "Contradicts the resume",
+  inflated: "Bigger than on the resume",
+  not_on_resume: "Not on the resume",
+};
+
+export type ConsistencyCheck = {
+  // quoted from the answer
+  claim: string;
+  status: ConsistencyStatus;
+  // the resume line the claim was checked against; empty when the resume doesn't cover it
+  source: string;
+  // what doesn't add up, in one sentence; empty when consistent
+  note: string;
+  // not_on_resume: the tool or skill that's missing from the resume
+  skill?: string;
+};
+
+export type Consistency = {
+  checked: number;
+  flagged: number;
+  items: ConsistencyCheck[];
+};
+
+// What the candidate's claims are checked against
+export type ClaimSources = {
+  resumeText: string;
+  jobDescription: string;
+  // never flagged as a missing skill
+  company?: string;
+};
+
+const MAX_CHECKS = 6;
+// the resume and job description go into prompts up to this length
+const MAX_SOURCE_CHARS = 4000;
+// a resume line covers a claim when they share this many keywords
+const MATCH_KEYWORDS = 2;
+// numbers within 15% of the resume's count as the same figure, rounded
+const TOLERANCE = 0.15;
+
+const NUMBER = /\$?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|k\b|K\b|M\b|mm\b|bn\b|B\b|million\b|billion\b|thousand\b))?/g;
+// tools and technologies: "Kubernetes", "AWS", "GraphQL", "C++", "Node.js", "Go"
+const SKILL = /\b[A-Za-z][A-Za-z0-9]*(?:\+\+|#|\.js)|\b[A-Z][A-Za-z0-9]*[A-Z0-9][A-Za-z0-9]*\b|\b[A-Z][a-z]+\b/g;
+const FIRST_PERSON = /\b(i|i'm|i've|we|my|our)\b/i;
+const NOT_SKILLS = new Set(["I", "I'm", "I've"]);
+// the words after a count that say what's counted: "8 engineers", "3 direct reports"
+const COUNTED = /^\s*([A-Za-z][A-Za-z-]*)(?:\s+([A-Za-z][A-Za-z-]*))?/;
+const FILLER = new Set(["a", "an", "the", "of", "at", "in", "on", "for", "to", "by", "and", "or", "per", "over", "across"]);
+
+// most serious first: what gets asked about when only one follow-up fits
+const SEVERITY: Record<ConsistencyStatus, number> = { contradiction: 3, inflated: 2, not_on_resume: 1, consistent: 0 };
+
+function flagged(status: ConsistencyStatus) {
+  return status !== "consistent";
+}
+
+export function summarizeChecks(items: ConsistencyCheck[]): Consistency {
+  const kept = items.slice(0, MAX_CHECKS);
+  return { checked: kept.length, flagged: kept.filter((i) => flagged(i.status)).length, items: kept };
+}
+
+export function isConsistency(value: unknown): value is Consistency {
+  const c = value as Consistency | null;
+  return (
+    Number.isInteger(c?.checked) &&
+    Number.isInteger(c?.flagged) &&
+    Array.isArray(c?.items) &&
+    c.items.every(
+      (i) =>
+        typeof i?.claim === "string" &&
+        CONSISTENCY_STATUSES.includes(i.status) &&
+        typeof i.source === "string" &&
+        typeof i.note === "string" &&
+        (i.skill === undefined || typeof i.skill === "string")
+    )
+  );
+}
+
+// The start of a long resume or job description, for prompts
+export function sourceExcerpt(text: string): string {
+  const t = text.trim();
+  return t.length > MAX_SOURCE_CHARS ? `${t.slice(0, MAX_SOURCE_CHARS)}\n[…truncated]` : t;
+}
+
+function resumeLines(resumeText: string): string[] {
+  return resumeText
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((l) => l.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter((l) => l.length >= 10);
+}
+
+// The resume line sharing the most keywords with the claim, if it shares enough
+function coveringLine(claim: string, lines: string[]): string | null {
+  const words = keywords(claim);
+  let best: string | null = null;
+  let bestHits = MATCH_KEYWORDS - 1;
+  for (const line of lines) {
+    const hits = [...keywords(line)].filter((w) => words.has(w)).length;
+    if (hits > bestHits) {
+      best = line;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+type Figure = { text: string; value: number; kind: "percent" | "money" | "count"; nouns: string[] };
+
+// "engineers" and "engineer" count the same thing
+function countedNouns(after: string): string[] {
+  const m = after.match(COUNTED);
+  return (m ? [m[1], m[2]] : [])
+    .filter((w): w is string => !!w && !FILLER.has(w.toLowerCase()))
+    .map((w) => w.toLowerCase().replace(/s$/, ""));
+}
+
+function figures(text: string): Figure[] {
+  return [...text.matchAll(NUMBER)].flatMap(({ 0: raw, index }) => {
+    const token = raw.trim();
+    const value = parseNumber(token);
+    // years date a claim rather than size it
+    if (!Number.isFinite(value) || /^(19|20)\d\d$/.test(token)) return [];
+    const kind = token.endsWith("%") ? "percent" : token.startsWith("$") ? "money" : "count";
+    return [{ text: token, value, kind, nouns: countedNouns(text.slice(index + raw.length)) }];
+  });
+}
+
+// Percentages and money carry their unit; bare counts only compare when they count the same thing
+function sameMeasure(a: Figure, b: Figure) {
+  if (a.kind !== b.kind) return false;
+  return a.kind !== "count" || a.nouns.some((n) => b.nouns.includes(n));
+}
+
+// Compares each figure in the claim with the resume line's figures of the same measure
+function compareFigures(claim: string, line: string): ConsistencyCheck {
+  const theirs = figures(line);
+  for (const said of figures(claim)) {
+    const same = theirs.filter((f) => sameMeasure(f, said));
+    if (!same.length || same.some((f) => Math.abs(f.value - said.value) <= f.value * TOLERANCE)) continue;
+    const closest = same.reduce((a, b) => (Math.abs(b.value - said.value) < Math.abs(a.value - said.value) ? b : a));
+    const status = said.value > closest.value ? "inflated" : "contradiction";
+    return { claim, status, source: line, note: `You said ${said.text}; your resume says ${closest.text}.` };
+  }
+  return { claim, status: "consistent", source: line, note: "" };
+}
+
+// Whole-word mention; job descriptions are matched by case so "Go" and "Swift" aren't "go" and "swift"
+function mentions(text: string, term: string, flags = "i") {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^A-Za-z0-9])${escaped}(?![A-Za-z0-9+#])`, flags).test(text);
+}
+
+// Tools the job description asks for that the candidate says they used but the resume never mentions
+function missingSkills(answer: string, sources: ClaimSources): ConsistencyCheck[] {
+  const seen = new Set<string>();
+  const checks: ConsistencyCheck[] = [];
+  for (const sentence of answer.split(/(?<=[.!?])\s+|\n+/).map((l) => l.trim())) {
+    if (!FIRST_PERSON.test(sentence)) continue;
+    for (const { 0: skill, index } of sentence.matchAll(SKILL)) {
+      const key = skill.toLowerCase();
+      // a capital at the start of a sentence says nothing about the word
+      if (!index || NOT_SKILLS.has(skill) || seen.has(key)) continue;
+      if (sources.company && mentions(sources.company, skill)) continue;
+      seen.add(key);
+      if (!mentions(sources.jobDescription, skill, "") || mentions(sources.resumeText, skill)) continue;
+      checks.push({
+        claim: sentence,
+        status: "not_on_resume",
+        source: "",
+        note: `${skill} is in the job description but not on your resume.`,
+        skill,
+      });
+    }
+  }
+  return checks;
+}
+
+// Heuristic check of an answer against the resume; null when there's no resume to check against
+export function checkConsistency(answer: string, sources: ClaimSources): Consistency | null {
+  if (!sources.resumeText.trim()) return null;
+  const lines = resumeLines(sources.resumeText);
+  const claims = extractClaims(answer, 0, MAX_CHECKS).flatMap(({ text }) => {
+    const line = coveringLine(text, lines);
+    return line ? [compareFigures(text, line)] : [];
+  });
+  // flags first, so the cap never drops one
+  const items = [...claims, ...missingSkills(answer, sources)].sort((a, b) => SEVERITY[b.status] - SEVERITY[a.status]);
+  return summarizeChecks(items);
+}
+
+export function flaggedChecks(consistency: Consistency | null | undefined): ConsistencyCheck[] {
+  return consistency?.items.filter((i) => flagged(i.status)) ?? [];
+}
+
+// e.g. "1 of 3 claims don't match the resume" — used in prompts, coach notes and exports
+export function describeConsistency(consistency: Consistency): string {
+  if (!consistency.checked) return "No claims to check against the resume";
+  if (!consistency.flagged) return `${consistency.checked} claim${consistency.checked === 1 ? "" : "s"} match the resume`;
+  return `${consistency.flagged} of ${consistency.checked} claims don't match the resume`;
+}
+
+// Names the first claim that doesn't match, or null when everything checks out
+export function consistencyGap(consistency: Consistency): string | null {
+  const first = flaggedChecks(consistency)[0];
+  return first ? `Keep your claims consistent with your resume: ${first.note}` : null;
+}
+
+function shorten(text: string, max = 90) {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// Follow-up that asks the candidate to back up a flagged claim
+export function verificationQuestion(check: ConsistencyCheck): string {
+  if (check.status === "not_on_resume" && check.skill) {
+    return `You mentioned ${check.skill}, which isn't on your resume — what exactly did you build with it, and for how long?`;
+  }
+  return `You said “${shorten(check.claim.replace(/[.!?]$/, ""))}”, but your resume says “${shorten(check.source)}” — which is right, and how was it measured?`;
+}
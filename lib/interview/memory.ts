@@ -0,0 +1,210 @@
+import { isTurn } from "@/lib/sessions/types";
+import { keywords } from "./report";
+import type { Turn } from "./types";
+
+// A statement from the candidate worth checking later ("I cut p95 latency by 40%")
+export type Claim = {
+  text: string;
+  // index into ConversationState.turns of the answer it came from
+  turnIndex: number;
+};
+
+// What the interview route remembers about a session between calls, saved with the session.
+// Turns older than `summarizedThrough` are only sent to the model as `summary`.
+export type ConversationState = {
+  turns: Turn[];
+  summary: string;
+  summarizedThrough: number;
+  // role_focus skills the planned questions have covered so far
+  topics: string[];
+  // blueprint risk_gaps a question or follow-up has already gone after
+  probedGaps: string[];
+  claims: Claim[];
+};
+
+// recent turns always go to the model verbatim
+const KEEP_RECENT_TURNS = 6;
+// unsummarized transcript size that triggers summarizing the older turns
+const SUMMARY_TRIGGER_CHARS = 6000;
+const MAX_SUMMARY_CHARS = 2000;
+// flattened transcripts from clients without a saved session are cut to their tail
+const MAX_TRANSCRIPT_CHARS = 8000;
+const MAX_CLAIMS = 12;
+const CLAIMS_PER_ANSWER = 2;
+// a follow-up that shares this many keywords with a risk gap counts as probing it
+const PROBE_KEYWORDS = 2;
+
+const CLAIM_PATTERN =
+  /(\d|%|\$|\b(i|we) (led|built|launched|grew|increased|reduced|cut|saved|owned|designed|managed|shipped|founded|migrated|scaled|drove|delivered)\b)/i;
+
+export function emptyConversation(): ConversationState {
+  return { turns: [], summary: "", summarizedThrough: 0, topics: [], probedGaps: [], claims: [] };
+}
+
+// Sessions saved before conversation memory: start from their turns, nothing remembered yet
+export function seedConversation(turns: Turn[]): ConversationState {
+  return {
+    ...emptyConversation(),
+    turns,
+    claims: turns.flatMap((t, i) => (t.role === "candidate" ? extractClaims(t.content, i) : [])).slice(-MAX_CLAIMS),
+  };
+}
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string");
+}
+
+export function isConversationState(value: unknown): value is ConversationState {
+  const c = value as ConversationState | null;
+  return (
+    Array.isArray(c?.turns) &&
+    c.turns.every(isTurn) &&
+    typeof c.summary === "string" &&
+    Number.isInteger(c.summarizedThrough) &&
+    c.summarizedThrough >= 0 &&
+    c.summarizedThrough <= c.turns.length &&
+    isStringList(c.topics) &&
+    isStringList(c.probedGaps) &&
+    Array.isArray(c.claims) &&
+    c.claims.every((k) => typeof k?.text === "string" && Number.isInteger(k.turnIndex))
+  );
+}
+
+function sentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function firstSentence(text: string, max = 160) {
+  const s = sentences(text)[0] ?? "";
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+// Sentences with numbers or strong ownership verbs, skipping code blocks
+export function extractClaims(answer: string, turnIndex: number, max = CLAIMS_PER_ANSWER): Claim[] {
+  const prose = answer.replace(/```[\s\S]*?```/g, " ");
+  return sentences(prose)
+    .filter((s) => s.split(/\s+/).length >= 5 && CLAIM_PATTERN.test(s))
+    .slice(0, max)
+    .map((text) => ({ text, turnIndex }));
+}
+
+function addUnique(list: string[], item: string | undefined) {
+  return item && !list.includes(item) ? [...list, item] : list;
+}
+
+export function recordAnswer(state: ConversationState, answer: string): ConversationState {
+  const turnIndex = state.turns.length;
+  const known = new Set(state.claims.map((c) => c.text.toLowerCase()));
+  const claims = extractClaims(answer, turnIndex).filter((c) => !known.has(c.text.toLowerCase()));
+  return {
+    ...state,
+    turns: [...state.turns, { role: "candidate", content: answer }],
+    claims: [...state.claims, ...claims].slice(-MAX_CLAIMS),
+  };
+}
+
+// Risk gaps a question goes after, by keyword overlap
+export function probedBy(question: string, riskGaps: string[]): string[] {
+  const words = keywords(question);
+  return riskGaps.filter((gap) => {
+    const gapWords = [...keywords(gap)];
+    const hits = gapWords.filter((w) => words.has(w)).length;
+    return hits >= Math.min(PROBE_KEYWORDS, gapWords.length) && hits > 0;
+  });
+}
+
+export function recordQuestion(
+  state: ConversationState,
+  question: string,
+  context: { focus?: string; riskGaps: string[] }
+): ConversationState {
+  return {
+    ...state,
+    turns: [...state.turns, { role: "interviewer", content: question }],
+    topics: addUnique(state.topics, context.focus?.trim() || undefined),
+    probedGaps: probedBy(question, context.riskGaps).reduce(addUnique, state.probedGaps),
+  };
+}
+
+export function unprobedGaps(state: ConversationState, riskGaps: string[]): string[] {
+  return riskGaps.filter((g) => !state.probedGaps.includes(g));
+}
+
+function formatTurns(turns: Turn[]) {
+  return turns.map((t) => `${t.role.toUpperCase()}: ${t.content}`).join("\n");
+}
+
+// What the model sees: the running summary of older turns, then the recent turns verbatim
+export function promptTranscript(state: ConversationState): string {
+  const recent = formatTurns(state.turns.slice(state.summarizedThrough));
+  return state.summary ? `Summary of the earlier conversation:\n${state.summary}\n\nRecent turns:\n${recent}` : recent;
+}
+
+// For calls without a saved session: the client's flattened transcript, newest turns kept
+export function truncateTranscript(text: string): string {
+  if (text.length <= MAX_TRANSCRIPT_CHARS) return text;
+  const tail = text.slice(-MAX_TRANSCRIPT_CHARS);
+  return `[earlier turns omitted]\n${tail.slice(tail.indexOf("\n") + 1)}`;
+}
+
+// Turns that should be folded into the summary now, or null while the transcript is short enough
+export function turnsToSummarize(state: ConversationState): { turns: Turn[]; through: number } | null {
+  const unsummarized = state.turns.slice(state.summarizedThrough);
+  if (formatTurns(unsummarized).length <= SUMMARY_TRIGGER_CHARS) return null;
+  const through = state.turns.length - KEEP_RECENT_TURNS;
+  if (through <= state.summarizedThrough) return null;
+  return { turns: state.turns.slice(state.summarizedThrough, through), through };
+}
+
+// Keeps the newest lines when the summary outgrows its budget
+function capSummary(summary: string) {
+  const lines = summary.split("\n").filter(Boolean);
+  while (lines.length > 1 && lines.join("\n").length > MAX_SUMMARY_CHARS) lines.shift();
+  return lines.join("\n").slice(-MAX_SUMMARY_CHARS);
+}
+
+// One line per question: what was asked and how the candidate opened their answer
+export function heuristicSummary(turns: Turn[]): string {
+  const lines: string[] = [];
+  for (const t of turns) {
+    if (t.role === "interviewer") lines.push(`Q: ${firstSentence(t.content)}`);
+    else if (lines.length) lines[lines.length - 1] += ` → A: ${firstSentence(t.content)}`;
+    else lines.push(`A: ${firstSentence(t.content)}`);
+  }
+  return lines.join("\n");
+}
+
+export function applySummary(state: ConversationState, summary: string, through: number): ConversationState {
+  return {
+    ...state,
+    summary: capSummary([state.summary, summary.trim()].filter(Boolean).join("\n")),
+    summarizedThrough: through,
+  };
+}
+
+// Memory notes for a follow-up prompt: what not to repeat and which risk gaps are still open
+export function memoryNotes(state: ConversationState, riskGaps: string[]): string {
+  const asked = state.turns
+    .filter((t) => t.role === "interviewer")
+    .slice(-8)
+    .map((t) => `  - ${firstSentence(t.content)}`);
+  const open = unprobedGaps(state, riskGaps);
+  return [
+    "Conversation memory:",
+    `- Topics already covered: ${state.topics.join(", ") || "none yet"}`,
+    ...(asked.length ? ["- Questions already asked (do NOT repeat or rephrase them):", ...asked] : []),
+    `- Risk gaps already probed: ${state.probedGaps.join(", ") || "none"}`,
+    `- Risk gaps NOT yet probed: ${open.join(", ") || "none"}${open.length ? " (prefer one of these when the answer gives an opening)" : ""}`,
+    ...(state.claims.length
+      ? ["- Candidate claims worth verifying:", ...state.claims.slice(-4).map((c) => `  - “${c.text}”`)]
+      : []),
+  ].join("\n");
+}
+
+// Follow-up used when the model returns nothing: go after an open risk gap if there is one
+export function gapQuestion(gap: string): string {
+  return `Let me push on one area — ${gap.charAt(0).toLowerCase()}${gap.slice(1)}. Can you give me a concrete example that speaks to it?`;
+}
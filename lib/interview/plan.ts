@@ -0,0 +1,223 @@
+import type { Blueprint } from "@/lib/blueprint";
+import { Exhibit, isExhibitList } from "@/lib/case/types";
+import { CodingProblem, isCodingProblem } from "@/lib/coding/types";
+import { drillBelow, InterviewStyle } from "./style";
+import { Mode, MODES, SessionMode } from "./types";
+
+export type PlanLength = 30 | 45;
+
+export const PLAN_LENGTHS: Record<PlanLength, { questions: number; followups: number }> = {
+  30: { questions: 4, followups: 1 },
+  45: { questions: 6, followups: 2 },
+};
+
+export const MAX_FOLLOWUP_DEPTH = 3;
+
+// consecutive questions of one type before a mixed interview switches segment
+const SEGMENT_SIZE = 2;
+
+export type PlannedQuestion = {
+  type: Mode;
+  question: string;
+  // the role_focus skill this question is meant to test
+  focus: string;
+  // follow-ups the interviewer may ask before moving on
+  maxFollowups: number;
+  // coding sessions: the problem the candidate solves in the editor
+  problem?: CodingProblem;
+  // case questions: the tables and charts the candidate works from
+  exhibits?: Exhibit[];
+};
+
+export type InterviewPlan = {
+  minutes: PlanLength;
+  questions: PlannedQuestion[];
+};
+
+export type PlanProgress = {
+  questionIndex: number;
+  followupsAsked: number;
+  done: boolean;
+};
+
+export type PlanAction = "followup" | "next" | "end";
+
+export type PlanDecision = {
+  action: PlanAction;
+  reason: string;
+};
+
+export const PLAN_START: PlanProgress = { questionIndex: 0, followupsAsked: 0, done: false };
+
+// Used when the blueprint's sample questions run out
+const GENERIC_QUESTIONS: Record<Mode, string[]> = {
+  behavioral: [
+    "Tell me about a time you disagreed with a teammate. How did you resolve it?",
+    "Describe a project that didn’t go as planned. What did you do?",
+    "Tell me about a time you had to deliver with unclear requirements.",
+    "Give an example of feedback that changed how you work.",
+    "Tell me about the accomplishment you’re proudest of and your part in it.",
+    "Describe a time you influenced a decision without formal authority.",
+  ],
+  technical: [
+    "Walk me through how you would design a URL shortener.",
+    "How would you find and fix a memory leak in a long-running service?",
+    "Design a job queue that guarantees each job runs at least once.",
+    "How would you make a slow database query faster?",
+    "Explain how you would test a feature that depends on a third-party API.",
+    "How would you roll out a risky schema change with no downtime?",
+  ],
+  case: [
+    "Our sign-ups dropped 20% last month. How would you investigate?",
+    "Should we launch a cheaper tier of our product? How would you decide?",
+    "Estimate the market size for a meal-kit delivery service in one city.",
+    "A key partner wants to renegotiate pricing. How do you approach it?",
+    "How would you prioritize three features with one engineering team?",
+    "A competitor just cut prices by 30%. What should we do?",
+  ],
+};
+
+// The question types a session draws from, in segment order
+export function segmentModes(mode: SessionMode, likely: Blueprint["likely_interview_type"]): Mode[] {
+  if (mode === "coding") return ["technical"];
+  if (mode !== "mixed") return [mode];
+  return ["behavioral", likely === "behavioral_case" ? "case" : "technical"];
+}
+
+// How an answer is graded when there is no planned question to go by (sessions started before plans)
+export function defaultAnswerMode(mode: SessionMode): Mode {
+  if (mode === "mixed") return "behavioral";
+  if (mode === "coding") return "technical";
+  return mode;
+}
+
+function clampDepth(n: number) {
+  return Math.max(0, Math.min(MAX_FOLLOWUP_DEPTH, Math.round(n)));
+}
+
+// Spreads `count` questions across the modes in segments, e.g. [behavioral, technical] →
+// B, B, T, T, B, B. Blueprint sample questions first, then the generic bank.
+export function fallbackPlan(blueprint: Blueprint, modes: Mode[], minutes: PlanLength): InterviewPlan {
+  const { questions: count, followups } = PLAN_LENGTHS[minutes];
+  const pools = new Map<Mode, string[]>(
+    modes.map((m) => [
+      m,
+      [
+        ...blueprint.sample_questions.filter((q) => q.type === m).map((q) => q.question),
+        ...GENERIC_QUESTIONS[m],
+      ],
+    ])
+  );
+
+  const questions: PlannedQuestion[] = [];
+  for (let i = 0; i < count; i++) {
+    const type = modes[Math.floor(i / SEGMENT_SIZE) % modes.length];
+    const pool = pools.get(type)!;
+    const question = pool.shift() ?? GENERIC_QUESTIONS[type][i % GENERIC_QUESTIONS[type].length];
+    questions.push({
+      type,
+      question,
+      focus: blueprint.role_focus[i % blueprint.role_focus.length] ?? "",
+      maxFollowups: followups,
+    });
+  }
+
+  return { minutes, questions };
+}
+
+export function isPlanLength(v: unknown): v is PlanLength {
+  return v === 30 || v === 45;
+}
+
+export function isInterviewPlan(value: unknown): value is InterviewPlan {
+  const plan = value as InterviewPlan | null;
+  return (
+    isPlanLength(plan?.minutes) &&
+    Array.isArray(plan.questions) &&
+    plan.questions.length > 0 &&
+    plan.questions.every(
+      (q) =>
+        MODES.includes(q?.type) &&
+        typeof q.question === "string" &&
+        q.question.trim().length > 0 &&
+        typeof q.focus === "string" &&
+        Number.isInteger(q.maxFollowups) &&
+        q.maxFollowups >= 0 &&
+        q.maxFollowups <= MAX_FOLLOWUP_DEPTH &&
+        (q.problem === undefined || isCodingProblem(q.problem)) &&
+        (q.exhibits === undefined || isExhibitList(q.exhibits))
+    )
+  );
+}
+
+export function isPlanProgress(value: unknown, plan?: InterviewPlan): value is PlanProgress {
+  const p = value as PlanProgress | null;
+  return (
+    Number.isInteger(p?.questionIndex) &&
+    Number.isInteger(p?.followupsAsked) &&
+    typeof p?.done === "boolean" &&
+    p.questionIndex >= 0 &&
+    p.followupsAsked >= 0 &&
+    (!plan || p.questionIndex < plan.questions.length)
+  );
+}
+
+// Model-written questions are accepted only for the slots the plan asked for; anything
+// missing or malformed keeps the fallback question in that slot.
+export function mergePlanQuestions(base: InterviewPlan, proposed: unknown): InterviewPlan {
+  if (!Array.isArray(proposed)) return base;
+  return {
+    ...base,
+    questions: base.questions.map((slot, i) => {
+      const q = proposed[i] as { question?: unknown; focus?: unknown; followups?: unknown } | undefined;
+      if (typeof q?.question !== "string" || !q.question.trim()) return slot;
+      return {
+        ...slot,
+        question: q.question.trim(),
+        focus: typeof q.focus === "string" && q.focus.trim() ? q.focus.trim() : slot.focus,
+        maxFollowups: Number.isFinite(Number(q.followups)) ? clampDepth(Number(q.followups)) : slot.maxFollowups,
+      };
+    }),
+  };
+}
+
+// Actions the interviewer is allowed to take from here: no follow-up once the depth is
+// used up, and "next" turns into "end" on the last question.
+export function allowedActions(plan: InterviewPlan, progress: PlanProgress): PlanAction[] {
+  const current = plan.questions[progress.questionIndex];
+  const last = progress.questionIndex >= plan.questions.length - 1;
+  const actions: PlanAction[] = [];
+  if (current && progress.followupsAsked < current.maxFollowups) actions.push("followup");
+  actions.push(last ? "end" : "next");
+  return actions;
+}
+
+export function advance(progress: PlanProgress, action: PlanAction): PlanProgress {
+  if (action === "followup") return { ...progress, followupsAsked: progress.followupsAsked + 1 };
+  if (action === "next") return { questionIndex: progress.questionIndex + 1, followupsAsked: 0, done: false };
+  return { ...progress, done: true };
+}
+
+// Drill while the answer is below the persona's and level's bar and depth remains; otherwise move on.
+export function heuristicDecision(
+  plan: InterviewPlan,
+  progress: PlanProgress,
+  overall: number,
+  style?: InterviewStyle,
+  // a claim in the answer doesn't match the resume
+  unverified = false
+): PlanDecision {
+  const actions = allowedActions(plan, progress);
+  const moveOn = actions[actions.length - 1];
+
+  if (actions.includes("followup") && unverified) {
+    return { action: "followup", reason: "A claim doesn't match the resume; verifying it." };
+  }
+  if (actions.includes("followup") && overall < drillBelow(style)) {
+    return { action: "followup", reason: "The answer left gaps worth probing." };
+  }
+  return {
+    action: moveOn,
+    reason: actions.includes("followup") ? "The answer was solid; moving on." : "Follow-up depth used up for this question.",
+  };
+}
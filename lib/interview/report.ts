@@ -0,0 +1,226 @@
+import { dimensionLabel, findDimension, RUBRICS } from "@/lib/scoring/rubrics";
+import type { ScoredAnswer } from "@/lib/sessions/types";
+import { bandOffset, InterviewStyle } from "./style";
+import { Dimension, Mode, MODES, Scorecard, Turn } from "./types";
+
+export type HireSignal = "strong_hire" | "hire" | "lean_no_hire" | "no_hire";
+
+export const HIRE_SIGNALS: HireSignal[] = ["strong_hire", "hire", "lean_no_hire", "no_hire"];
+
+export type ReportQuestion = {
+  question: string;
+  answer: string;
+  mode: Mode;
+  source: Scorecard["source"];
+  // the answer's own rubric: STAR dimensions for behavioral, its mode's rubric otherwise
+  scores: Scorecard["scores"];
+};
+
+// Overall across every answer; each dimension averaged over the answers graded on it
+export type ReportAverages = { overall: number } & Partial<Record<Dimension, number>>;
+
+// riskGap is one of the blueprint's risk_gaps verbatim, or null when the gap isn't one of them
+export type ReportGap = {
+  gap: string;
+  riskGap: string | null;
+};
+
+export type PracticeItem = {
+  focus: string;
+  drill: string;
+};
+
+export type InterviewReport = {
+  generatedAt: string;
+  source: "model" | "heuristic";
+  signal: HireSignal;
+  summary: string;
+  averages: ReportAverages;
+  questions: ReportQuestion[];
+  strengths: string[];
+  gaps: ReportGap[];
+  practicePlan: PracticeItem[];
+};
+
+const STAR_DRILLS = {
+  situation: "Open every story with one sentence of context: team, project, timeframe.",
+  task: "Say what you owned and what success looked like before describing what you did.",
+  action: "Replace “we” with 2–3 “I” statements describing what you personally did.",
+  result: "Close every story with a measurable result, even an estimate.",
+} as const;
+
+// Bands for the standard (senior) bar; `offset` moves them for the session's level
+export function signalFor(overall: number, offset = 0): HireSignal {
+  if (overall >= 80 + offset) return "strong_hire";
+  if (overall >= 65 + offset) return "hire";
+  if (overall >= 50 + offset) return "lean_no_hire";
+  return "no_hire";
+}
+
+export function labelSignal(signal: HireSignal) {
+  return signal
+    .split("_")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+// Pairs each scored answer with the interviewer turn that prompted it
+export function reportQuestions(turns: Turn[], scorecards: ScoredAnswer[]): ReportQuestion[] {
+  return scorecards.map((s) => {
+    const asked = turns
+      .slice(0, s.turnIndex)
+      .reverse()
+      .find((t) => t.role === "interviewer");
+    return {
+      question: asked?.content ?? "",
+      answer: turns[s.turnIndex]?.content ?? "",
+      mode: s.scorecard.mode,
+      source: s.scorecard.source,
+      scores: s.scorecard.scores,
+    };
+  });
+}
+
+export function averageScores(scorecards: ScoredAnswer[]): ReportAverages {
+  const all = scorecards.map((s) => s.scorecard.scores as Record<string, number>);
+  const avg = (key: string) => {
+    const values = all.map((s) => s[key]).filter((n) => typeof n === "number");
+    return values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+  };
+
+  const averages: ReportAverages = { overall: avg("overall") ?? 0 };
+  for (const mode of MODES) {
+    for (const { key } of RUBRICS[mode].dimensions) {
+      const n = avg(key);
+      if (n !== null) averages[key] = n;
+    }
+  }
+  return averages;
+}
+
+// Dimensions that appear in the averages, weakest first
+function rankedDimensions(averages: ReportAverages): Dimension[] {
+  return MODES.flatMap((m) => RUBRICS[m].dimensions.map((d) => d.key))
+    .filter((k) => typeof averages[k] === "number")
+    .sort((a, b) => averages[a]! - averages[b]!);
+}
+
+const STOPWORDS = new Set(["with", "that", "this", "your", "from", "into", "about", "have", "more", "than", "what", "when", "which"]);
+
+// Words of four letters or more, lowercased: what risk-gap matching compares
+export function keywords(text: string) {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((w) => w.length >= 4 && !STOPWORDS.has(w))
+  );
+}
+
+// Best keyword overlap with the blueprint's risk_gaps; null when nothing overlaps
+export function matchRiskGap(gap: string, riskGaps: string[]): string | null {
+  const words = keywords(gap);
+  let best: string | null = null;
+  let bestHits = 0;
+  for (const risk of riskGaps) {
+    const hits = [...keywords(risk)].filter((w) => words.has(w)).length;
+    if (hits > bestHits) {
+      best = risk;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+// Most frequent items first; ties keep first-seen order
+function mostCommon(items: string[], max: number) {
+  const counts = new Map<string, { text: string; count: number }>();
+  for (const item of items) {
+    const key = item.trim().toLowerCase();
+    if (!key) continue;
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { text: item.trim(), count: 1 });
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, max)
+    .map((e) => e.text);
+}
+
+// Report built purely from the per-answer scorecards. It's the fallback when the model
+// summary fails, and the model report reuses its questions/averages/signal either way.
+export function heuristicReport(
+  turns: Turn[],
+  scorecards: ScoredAnswer[],
+  riskGaps: string[],
+  style?: InterviewStyle
+): InterviewReport {
+  const averages = averageScores(scorecards);
+  const signal = signalFor(averages.overall, bandOffset(style));
+  const weakest = rankedDimensions(averages);
+
+  const strengths = mostCommon(
+    scorecards.flatMap((s) => s.scorecard.strengths),
+    3
+  );
+
+  const gaps: ReportGap[] = mostCommon(
+    scorecards.flatMap((s) => s.scorecard.gaps),
+    3
+  ).map((gap) => ({ gap, riskGap: matchRiskGap(gap, riskGaps) }));
+
+  for (const d of weakest) {
+    if (gaps.length >= 3) break;
+    gaps.push({ gap: `Raise ${dimensionLabel(d).toLowerCase()} (average ${averages[d]}/25).`, riskGap: null });
+  }
+
+  // STAR is only checked on behavioral answers
+  const behavioral = scorecards.flatMap((s) => (s.scorecard.mode === "behavioral" ? [s.scorecard] : []));
+  const starKeys = ["situation", "task", "action", "result"] as const;
+  const mostMissed = [...starKeys]
+    .map((k) => ({ k, missed: behavioral.filter((s) => !s.star[k].present).length }))
+    .sort((a, b) => b.missed - a.missed)[0];
+
+  const practicePlan: PracticeItem[] = weakest
+    .slice(0, 2)
+    .map((d) => ({ focus: dimensionLabel(d), drill: findDimension(d)?.drill ?? "" }));
+  if (mostMissed && mostMissed.missed > 0) {
+    const label = mostMissed.k.charAt(0).toUpperCase() + mostMissed.k.slice(1);
+    practicePlan.unshift({ focus: `STAR: ${label}`, drill: STAR_DRILLS[mostMissed.k] });
+  }
+  for (const g of gaps) {
+    if (g.riskGap && practicePlan.length < 4) {
+      practicePlan.push({ focus: g.riskGap, drill: "Prepare one story that directly answers this gap and rehearse it twice." });
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    source: "heuristic",
+    signal,
+    summary: `${scorecards.length} scored ${scorecards.length === 1 ? "answer" : "answers"} averaging ${averages.overall}/100.${
+      weakest.length
+        ? ` Strongest dimension: ${dimensionLabel(weakest[weakest.length - 1])}; weakest: ${dimensionLabel(weakest[0])}.`
+        : ""
+    }`,
+    averages,
+    questions: reportQuestions(turns, scorecards),
+    strengths,
+    gaps,
+    practicePlan,
+  };
+}
+
+export function isInterviewReport(value: unknown): value is InterviewReport {
+  const r = value as InterviewReport | null;
+  return (
+    HIRE_SIGNALS.includes(r?.signal as HireSignal) &&
+    typeof r?.summary === "string" &&
+    typeof r.averages?.overall === "number" &&
+    Array.isArray(r.questions) &&
+    Array.isArray(r.strengths) &&
+    Array.isArray(r.gaps) &&
+    Array.isArray(r.practicePlan)
+  );
+}
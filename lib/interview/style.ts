@@ -0,0 +1,127 @@
+export type Persona = "recruiter" | "hiring_manager" | "bar_raiser" | "tech_lead";
+
+export type Difficulty = "intern" | "new_grad" | "senior" | "staff";
+
+// Who is asking and at what level: chosen on the interview page and saved with the session.
+// Sessions without a style get the original neutral interviewer at the standard bar.
+export type InterviewStyle = {
+  persona: Persona;
+  difficulty: Difficulty;
+};
+
+type PersonaSpec = {
+  label: string;
+  // "You are …" — who the model plays
+  role: string;
+  // how questions and follow-ups are phrased
+  questions: string;
+  followups: string;
+  // added to the score below which the interviewer drills instead of moving on
+  drillBias: number;
+};
+
+type DifficultySpec = {
+  label: string;
+  // what a passing answer looks like at this level, for the interviewer and the grader
+  expectations: string;
+  // shifts every score band (follow-up bar, badges, hire signal); senior is the standard bar
+  offset: number;
+};
+
+export const PERSONAS: Record<Persona, PersonaSpec> = {
+  recruiter: {
+    label: "Friendly recruiter",
+    role: "a warm, encouraging recruiter",
+    questions: "Conversational and open-ended; put the candidate at ease.",
+    followups: "Gentle: invite more detail, never challenge.",
+    drillBias: -15,
+  },
+  hiring_manager: {
+    label: "Skeptical hiring manager",
+    role: "a skeptical hiring manager who has heard every polished answer",
+    questions: "Direct and specific to the role's day-to-day work.",
+    followups: "Challenge vague claims: ask for proof, numbers and the candidate's own part.",
+    drillBias: 5,
+  },
+  bar_raiser: {
+    label: "Bar-raiser",
+    role: "a bar-raiser from outside the team whose job is to keep the hiring bar high",
+    questions: "Probe judgment, ownership and how decisions were made.",
+    followups: "Relentless: dig into the weakest part of every answer until it holds up or breaks.",
+    drillBias: 15,
+  },
+  tech_lead: {
+    label: "Rapid-fire technical lead",
+    role: "a busy technical lead who moves fast",
+    questions: "Short, crisp and concrete; no small talk.",
+    followups: "Quick one-line probes on correctness, cost and edge cases.",
+    drillBias: 0,
+  },
+};
+
+export const DIFFICULTIES: Record<Difficulty, DifficultySpec> = {
+  intern: {
+    label: "Intern",
+    expectations: "Sound fundamentals and clear reasoning; school or side projects are fine evidence.",
+    offset: -20,
+  },
+  new_grad: {
+    label: "New grad",
+    expectations: "Solid fundamentals, some ownership of scoped work, and learning from feedback.",
+    offset: -10,
+  },
+  senior: {
+    label: "Senior",
+    expectations: "Independent ownership of ambiguous projects, measurable impact and sound trade-offs.",
+    offset: 0,
+  },
+  staff: {
+    label: "Staff",
+    expectations: "Cross-team influence, long-term technical direction, and impact at the org level.",
+    offset: 10,
+  },
+};
+
+export const PERSONA_KEYS = Object.keys(PERSONAS) as Persona[];
+export const DIFFICULTY_KEYS = Object.keys(DIFFICULTIES) as Difficulty[];
+
+export const DEFAULT_STYLE: InterviewStyle = { persona: "recruiter", difficulty: "senior" };
+
+export function isInterviewStyle(value: unknown): value is InterviewStyle {
+  const s = value as InterviewStyle | null;
+  return PERSONA_KEYS.includes(s?.persona as Persona) && DIFFICULTY_KEYS.includes(s?.difficulty as Difficulty);
+}
+
+export function labelStyle(style: InterviewStyle): string {
+  return `${PERSONAS[style.persona].label} · ${DIFFICULTIES[style.difficulty].label}`;
+}
+
+// First line of every interviewer prompt
+export function interviewerRole(company: string, style?: InterviewStyle): string {
+  if (!style) return `You are the interviewer for ${company}.`;
+  return `You are ${PERSONAS[style.persona].role} interviewing for ${company}, hiring at the ${DIFFICULTIES[style.difficulty].label.toLowerCase()} level.`;
+}
+
+// What a passing answer looks like at the session's level, for planners and graders
+export function levelBar(style?: InterviewStyle): string {
+  if (!style) return "";
+  const level = DIFFICULTIES[style.difficulty];
+  return `Level bar (${level.label}): ${level.expectations}`;
+}
+
+// Persona and level rules for question prompts ("question") or follow-up prompts ("followup")
+export function styleRules(style: InterviewStyle | undefined, kind: "question" | "followup"): string {
+  if (!style) return "";
+  const persona = PERSONAS[style.persona];
+  return `\nInterviewer style: ${kind === "question" ? persona.questions : persona.followups}\n${levelBar(style)}`;
+}
+
+// How far every score band moves for the session's level
+export function bandOffset(style?: InterviewStyle): number {
+  return style ? DIFFICULTIES[style.difficulty].offset : 0;
+}
+
+// Overall score below which the interviewer drills into an answer rather than moving on
+export function drillBelow(style?: InterviewStyle): number {
+  return 75 + bandOffset(style) + (style ? PERSONAS[style.persona].drillBias : 0);
+}
@@ -0,0 +1,87 @@
+import type { MathChecks } from "@/lib/case/types";
+import type { CodeRunSummary } from "@/lib/coding/types";
+import type { Delivery } from "@/lib/delivery/types";
+import type { Consistency } from "./consistency";
+
+export type Mode = "behavioral" | "technical" | "case";
+
+export const MODES: Mode[] = ["behavioral", "technical", "case"];
+
+// What a whole session runs: one mode throughout, "mixed" — behavioral alternating with the
+// blueprint's second type (technical or case) in segments — or "coding", where each question is a
+// problem solved in the editor. Each answer is still scored as a Mode (coding answers as technical).
+export type SessionMode = Mode | "mixed" | "coding";
+
+export const SESSION_MODES: SessionMode[] = [...MODES, "mixed", "coding"];
+
+export type Turn = {
+  role: "interviewer" | "candidate";
+  content: string;
+};
+
+// Each mode is graded on its own rubric of four 0–25 dimensions; overall is their sum.
+// Behavioral answers are also checked for STAR — technical and case answers never are.
+export const DIMENSIONS = {
+  behavioral: ["clarity", "structure", "impact", "roleFit"],
+  technical: ["correctness", "tradeoffs", "edgeCases", "communication"],
+  case: ["structuring", "hypothesis", "quantitative", "recommendation"],
+} as const;
+
+export type DimensionOf<M extends Mode> = (typeof DIMENSIONS)[M][number];
+
+export type Dimension = DimensionOf<Mode>;
+
+export type StarItem = { present: boolean; evidence: string };
+
+export type StarCheck = {
+  situation: StarItem;
+  task: StarItem;
+  action: StarItem;
+  result: StarItem;
+};
+
+type RubricScorecard<M extends Mode> = {
+  mode: M;
+  // "model" when Gemini graded the answer, "heuristic" when we fell back to the rubric's heuristic
+  source: "model" | "heuristic";
+  scores: { overall: number } & Record<DimensionOf<M>, number>;
+  // exact spans quoted from the candidate answer that justify each score
+  evidence: Record<DimensionOf<M>, string[]>;
+  strengths: string[];
+  gaps: string[];
+  // the answer's claims checked against the resume and job description, when there was a resume
+  consistency?: Consistency;
+  // spoken answers: pace, timing and filler words; never part of the scores
+  delivery?: Delivery;
+  rewrite: {
+    improvedAnswer: string;
+    bulletsToAdd: string[];
+  };
+};
+
+export type BehavioralScorecard = RubricScorecard<"behavioral"> & { star: StarCheck };
+
+export type TechnicalScorecard = RubricScorecard<"technical"> & {
+  // coding answers: how the submitted solution did against the problem's tests
+  tests?: CodeRunSummary;
+};
+
+export type CaseScorecard = RubricScorecard<"case"> & {
+  // the calculations found in the answer and scratchpad, recomputed against the exhibits
+  math?: MathChecks;
+  // the framework the candidate sketched while answering
+  scratchpad?: string;
+};
+
+export type Scorecard = BehavioralScorecard | TechnicalScorecard | CaseScorecard;
+
+export type ScorecardFor<M extends Mode> = Extract<Scorecard, { mode: M }>;
+
+export type Coach = {
+  mode: Mode;
+  // rubric coverage at a glance: S/T/A/R for behavioral, one Y/N per dimension otherwise
+  star: string;
+  missing: string;
+  why: string;
+  intent: string;
+};
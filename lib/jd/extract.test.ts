@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { extractJobDescription } from "./extract";
+
+// each is a page that never closes what it opens, about 1 MB
+const BROKEN_PAGES: Record<string, string> = {
+  "unclosed <nav>": "<nav ".repeat(200_000),
+  "unclosed comments": "<!--".repeat(250_000),
+  "unclosed <script>": '<script type="application/ld+json">'.repeat(30_000),
+  "unclosed <main>": "<main>".repeat(170_000),
+  "unclosed <title>": "<title>".repeat(150_000),
+  "unclosed <meta>": '<meta property="og:title" '.repeat(40_000),
+  "unclosed headings": "<h2 ".repeat(250_000),
+  "stray <": "<".repeat(1_000_000),
+};
+
+describe("extractJobDescription", () => {
+  it.each(Object.keys(BROKEN_PAGES))("stays linear on %s", (name) => {
+    const started = performance.now();
+    extractJobDescription(BROKEN_PAGES[name]);
+    // a quadratic pass takes minutes on 1 MB
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+
+  it("drops page chrome even when the markup is uppercase", () => {
+    const jd = extractJobDescription(
+      "<HTML><BODY><NAV>Jobs Teams</NAV><H1>Data Engineer</H1><SCRIPT>track()</SCRIPT><P>Build pipelines in Spark.</P></BODY></HTML>"
+    );
+    expect(jd.title).toBe("Data Engineer");
+    expect(jd.text).toBe("Data Engineer\nBuild pipelines in Spark.");
+  });
+
+  it("keeps the text after an element that is never closed", () => {
+    const jd = extractJobDescription("<body><h1>Designer</h1><nav>Home<p>Own the design system.</p></body>");
+    expect(jd.text).toContain("Own the design system.");
+  });
+});
@@ -0,0 +1,231 @@
+import type { StructuredJobDescription } from "./types";
+
+type SectionName = "responsibilities" | "requirements" | "niceToHaves";
+
+// Elements that are never part of the posting itself
+const DROP_ELEMENTS = ["script", "style", "noscript", "template", "svg", "iframe", "nav", "header", "footer", "aside", "form", "button"];
+
+// Order matters: "Preferred qualifications" must hit niceToHaves before requirements
+const SECTION_PATTERNS: [SectionName, RegExp][] = [
+  ["niceToHaves", /(nice[- ]to[- ]have|preferred|bonus( points)?|pluses|a plus|desired|good to have)/i],
+  ["responsibilities", /(responsibilit|what you('ll| will) do|the role|your role|your impact|what you'll work on|duties|day[- ]to[- ]day|in this role)/i],
+  ["requirements", /(requirements|qualifications|what you('ll)? bring|what we're looking for|who you are|must[- ]have|you have|you should have|about you|skills)/i],
+];
+
+const BOILERPLATE = /^(apply( now| for this job)?|share( this (job|role))?|save( this)? job|sign in|log in|back to (jobs|search|all jobs)|(accept|reject)( all)? cookies|cookie (settings|policy)|privacy policy|terms( of (use|service))?|©|copyright|equal opportunity employer|follow us)/i;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  hellip: "…",
+  bull: "•",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // past the last Unicode code point fromCodePoint throws; keep the entity as written
+      return Number.isFinite(n) && n <= 0x10ffff ? String.fromCodePoint(n) : m;
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+// Pages can be up to 2 MB and are often broken, so elements are found with indexOf rather than
+// regexes: a lazy <tag>…</tag> pattern rescans to the end of the page for every tag left unclosed.
+
+type Element = { start: number; openEnd: number; closeStart: number; end: number };
+
+// ASCII-only lowercase, so every index still points at the same place in the original
+function lowerAscii(html: string) {
+  return html.replace(/[A-Z]+/g, (m) => m.toLowerCase());
+}
+
+// Next "<tag" that isn't the start of a longer name ("<header" when looking for "<head")
+function openingTag(lower: string, tag: string, from: number) {
+  for (let i = lower.indexOf(`<${tag}`, from); i >= 0; i = lower.indexOf(`<${tag}`, i + 1)) {
+    if (!/\w/.test(lower[i + tag.length + 1] ?? "")) return i;
+  }
+  return -1;
+}
+
+// Every <tag …>…</tag>, each closed by the first </tag> after it. Once there's no closing tag
+// left, none of the later opening tags can have one either, so this is one pass over the page.
+function elements(lower: string, tag: string): Element[] {
+  const found: Element[] = [];
+  const close = `</${tag}>`;
+  for (let start = openingTag(lower, tag, 0); start >= 0; ) {
+    const openEnd = lower.indexOf(">", start);
+    const closeStart = lower.indexOf(close, start);
+    if (openEnd < 0 || closeStart < 0) break;
+    const end = closeStart + close.length;
+    found.push({ start, openEnd: Math.min(openEnd, closeStart), closeStart, end });
+    start = openingTag(lower, tag, end);
+  }
+  return found;
+}
+
+function removeSpans(html: string, spans: { start: number; end: number }[]) {
+  let out = "";
+  let from = 0;
+  for (const { start, end } of spans) {
+    out += `${html.slice(from, start)} `;
+    from = end;
+  }
+  return out + html.slice(from);
+}
+
+function comments(lower: string) {
+  const found: { start: number; end: number }[] = [];
+  for (let start = lower.indexOf("<!--"); start >= 0; ) {
+    const close = lower.indexOf("-->", start + 4);
+    if (close < 0) break;
+    found.push({ start, end: close + 3 });
+    start = lower.indexOf("<!--", close + 3);
+  }
+  return found;
+}
+
+function dropElements(html: string) {
+  let out = removeSpans(html, comments(lowerAscii(html)));
+  for (const tag of DROP_ELEMENTS) {
+    out = removeSpans(out, elements(lowerAscii(out), tag));
+  }
+  return out;
+}
+
+// What's inside the first <tag> and the last </tag>, or null without both
+function innerOf(html: string, lower: string, tag: string) {
+  const start = openingTag(lower, tag, 0);
+  if (start < 0) return null;
+  const openEnd = lower.indexOf(">", start);
+  const closeStart = lower.lastIndexOf(`</${tag}>`);
+  return openEnd >= 0 && closeStart > openEnd ? html.slice(openEnd + 1, closeStart) : null;
+}
+
+// Block-level markup → line breaks; headings are prefixed "## " and list items "• " so the
+// section pass below can tell them apart from body text.
+// Tag patterns stop at the next "<" so an unclosed tag costs one scan, not one per "<" after it.
+function htmlToLines(html: string) {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<h[1-6][^<>]*>/gi, "\n## ")
+    .replace(/<\/h[1-6]>/gi, "\n")
+    .replace(/<li[^<>]*>/gi, "\n• ")
+    .replace(/<\/?(p|div|section|article|main|ul|ol|li|tr|table|dd|dt|dl)\b[^<>]*>/gi, "\n")
+    .replace(/<[^<>]+>/g, " ");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter((l) => l.length > 1 && l !== "##" && l !== "•" && !BOILERPLATE.test(l.replace(/^(## |• )/, "")));
+}
+
+function mainRegion(html: string) {
+  const lower = lowerAscii(html);
+  for (const tag of ["main", "article"]) {
+    const inner = innerOf(html, lower, tag);
+    if (inner && inner.replace(/<[^<>]+>/g, "").trim().length > 200) return inner;
+  }
+  return innerOf(html, lower, "body") ?? html;
+}
+
+type JobPostingLd = { title?: string; description?: string };
+
+function findJobPosting(node: unknown): JobPostingLd | null {
+  if (Array.isArray(node)) {
+    for (const n of node) {
+      const found = findJobPosting(n);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!node || typeof node !== "object") return null;
+
+  const obj = node as Record<string, unknown>;
+  const type = obj["@type"];
+  if (type === "JobPosting" || (Array.isArray(type) && type.includes("JobPosting"))) {
+    return {
+      title: typeof obj.title === "string" ? obj.title : undefined,
+      description: typeof obj.description === "string" ? obj.description : undefined,
+    };
+  }
+  return findJobPosting(obj["@graph"]);
+}
+
+// Most job boards embed schema.org JobPosting JSON-LD, which is far cleaner than the page chrome
+function jsonLdJobPosting(html: string): JobPostingLd | null {
+  for (const script of elements(lowerAscii(html), "script")) {
+    if (!/type=["']application\/ld\+json["']/i.test(html.slice(script.start, script.openEnd))) continue;
+    try {
+      const found = findJobPosting(JSON.parse(html.slice(script.openEnd + 1, script.closeStart)));
+      if (found) return found;
+    } catch {
+      // malformed JSON-LD is common; fall through to the HTML
+    }
+  }
+  return null;
+}
+
+function sectionOf(line: string): SectionName | null {
+  const isHeading = line.startsWith("## ");
+  // headings are often typeset with curly apostrophes ("What you’ll do")
+  const text = line.replace(/^## /, "").replace(/[‘’]/g, "'");
+  if (line.startsWith("• ")) return null;
+  // a plain line only counts as a heading when it's short and label-like
+  if (!isHeading && (text.length > 60 || (!text.endsWith(":") && text.split(" ").length > 6))) return null;
+
+  for (const [name, re] of SECTION_PATTERNS) {
+    if (re.test(text)) return name;
+  }
+  return null;
+}
+
+export function extractJobDescription(html: string, sourceUrl?: string): StructuredJobDescription {
+  const ld = jsonLdJobPosting(html);
+  const content = ld?.description ? decodeEntities(ld.description) : mainRegion(html);
+  const lines = htmlToLines(dropElements(content));
+
+  const titleElement = elements(lowerAscii(html), "title")[0];
+  const titleTag = titleElement && html.slice(titleElement.openEnd + 1, titleElement.closeStart);
+  const ogTitle = html.match(/<meta[^<>]+property=["']og:title["'][^<>]+content=["']([^"']+)["']/i)?.[1];
+  const h1 = htmlToLines(dropElements(mainRegion(html))).find((l) => l.startsWith("## "));
+  const title = decodeEntities(ld?.title ?? ogTitle ?? h1?.slice(3) ?? titleTag ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const sections: Record<SectionName, string[]> = { responsibilities: [], requirements: [], niceToHaves: [] };
+  let current: SectionName | null = null;
+
+  for (const line of lines) {
+    const section = sectionOf(line);
+    if (section) {
+      current = section;
+      continue;
+    }
+    // any other heading ends the section we were collecting
+    if (line.startsWith("## ")) {
+      current = null;
+      continue;
+    }
+    if (current) sections[current].push(line.replace(/^• /, ""));
+  }
+
+  return {
+    title,
+    ...sections,
+    text: lines.map((l) => l.replace(/^## /, "").replace(/^• /, "- ")).join("\n"),
+    sourceUrl,
+  };
+}
@@ -0,0 +1,142 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { gzipSync } from "zlib";
+import { createHttpFetcher, fixtureFetcher, importJobDescription, isPrivateAddress, parsePostingUrl } from "./fetcher";
+
+const fixtures = fixtureFetcher(path.join(__dirname, "../../fixtures/jd"));
+
+describe("importJobDescription with saved postings", () => {
+  it("reads a plain HTML posting into sections, without the page chrome", async () => {
+    const jd = await importJobDescription("https://jobs.example.com/eng/123", fixtures);
+
+    expect(jd.title).toBe("Senior Backend Engineer – Payments");
+    expect(jd.responsibilities).toContain("Own reliability for a ledger that settles $2B a year");
+    expect(jd.requirements).toEqual([
+      "5+ years building backend services in Go or Java",
+      "Experience with PostgreSQL & Kafka in production",
+      "Clear written communication",
+    ]);
+    expect(jd.niceToHaves[0]).toBe("Payments or fintech background");
+    expect(jd.text).not.toMatch(/cookies|Apply now|Privacy policy|dataLayer/);
+    expect(jd.sourceUrl).toBe("https://jobs.example.com/eng/123");
+  });
+
+  it("leaves an out-of-range numeric entity as written", async () => {
+    const jd = await importJobDescription("https://jobs.example.com/eng/123", fixtures);
+    expect(jd.niceToHaves[1]).toBe("Kubernetes &#1114112; on-call experience");
+  });
+
+  it("prefers the JobPosting JSON-LD over the page", async () => {
+    const jd = await importJobDescription("https://boards.example.com/globex/jobs/42", fixtures);
+
+    expect(jd.title).toBe("Product Manager, Growth");
+    expect(jd.responsibilities).toEqual([
+      "Own the signup and activation funnel",
+      "Run pricing experiments with design and data science",
+    ]);
+    expect(jd.requirements).toEqual(["3+ years of product management", "Comfortable with SQL and A/B test analysis"]);
+    expect(jd.niceToHaves).toEqual(["B2B SaaS experience"]);
+  });
+
+  it("404s for a posting with no saved page", async () => {
+    await expect(importJobDescription("https://jobs.example.com/eng/999", fixtures)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
+
+describe("parsePostingUrl", () => {
+  it.each([
+    "http://localhost:3000/job",
+    "http://localhost./job",
+    "http://intranet.internal/job",
+    "http://127.0.0.1/job",
+    "http://0x7f.1/job",
+    "http://169.254.169.254/latest/meta-data",
+    "http://100.64.1.1/job",
+    "http://[::1]/job",
+    "http://[::ffff:127.0.0.1]/job",
+    "http://[fd00::1]/job",
+    "file:///etc/passwd",
+  ])("rejects %s", (url) => {
+    expect(() => parsePostingUrl(url)).toThrow(expect.objectContaining({ status: 400 }));
+  });
+
+  it("accepts public http(s) URLs", () => {
+    expect(parsePostingUrl(" https://jobs.example.com/eng/123 ").hostname).toBe("jobs.example.com");
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("2606:2800:220:1::1")).toBe(false);
+  });
+});
+
+describe("httpFetcher", () => {
+  let server: Server;
+  let port: number;
+  let hits: string[];
+
+  // "jobs.test" is this server; "rebound.test" resolves to an address the fetcher must not reach
+  const fetcher = createHttpFetcher({
+    lookup: (hostname, options, callback) => {
+      const address = hostname === "rebound.test" ? "10.0.0.7" : "127.0.0.1";
+      if (options.all) callback(null, [{ address, family: 4 }]);
+      else callback(null, address, 4);
+    },
+    isBlocked: (ip) => ip !== "127.0.0.1",
+  });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      hits.push(req.url ?? "");
+      if (req.url === "/old") return res.writeHead(301, { location: "/new" }).end();
+      if (req.url === "/to-metadata") return res.writeHead(302, { location: "http://169.254.169.254/latest" }).end();
+      if (req.url === "/to-rebound") return res.writeHead(302, { location: `http://rebound.test:${port}/job` }).end();
+      if (req.url === "/huge") {
+        // no content-length: the size is only known by reading
+        res.writeHead(200, { "content-type": "text/html" });
+        const chunk = "<p>" + "x".repeat(64 * 1024) + "</p>";
+        const write = () => {
+          while (res.write(chunk));
+          res.once("drain", write);
+        };
+        res.on("close", () => res.removeAllListeners("drain"));
+        return write();
+      }
+      if (req.url === "/gzip") {
+        return res.writeHead(200, { "content-type": "text/html", "content-encoding": "gzip" }).end(gzipSync("<h1>Engineer</h1>"));
+      }
+      res.writeHead(200, { "content-type": "text/html" }).end("<html><body><h1>Engineer</h1></body></html>");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+  beforeEach(() => {
+    hits = [];
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("follows a redirect to another public address", async () => {
+    const page = await fetcher(`http://jobs.test:${port}/old`);
+    expect(page).toEqual({ url: `http://jobs.test:${port}/new`, html: "<html><body><h1>Engineer</h1></body></html>" });
+    expect(hits).toEqual(["/old", "/new"]);
+  });
+
+  it("refuses a redirect to a private address", async () => {
+    await expect(fetcher(`http://jobs.test:${port}/to-metadata`)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("checks the address it connects to, so a name can't resolve somewhere private", async () => {
+    await expect(fetcher(`http://rebound.test:${port}/job`)).rejects.toMatchObject({ status: 400 });
+    await expect(fetcher(`http://jobs.test:${port}/to-rebound`)).rejects.toMatchObject({ status: 400 });
+    expect(hits).toEqual(["/to-rebound"]);
+  });
+
+  it("stops reading a page without a content-length once it passes 2 MB", async () => {
+    await expect(fetcher(`http://jobs.test:${port}/huge`)).rejects.toMatchObject({ status: 413 });
+  });
+
+  it("decompresses gzipped pages", async () => {
+    expect((await fetcher(`http://jobs.test:${port}/gzip`)).html).toBe("<h1>Engineer</h1>");
+  });
+});
@@ -0,0 +1,242 @@
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from "dns";
+import { promises as fs } from "fs";
+import http, { IncomingMessage } from "http";
+import https from "https";
+import { isIP } from "net";
+import path from "path";
+import { pipeline } from "stream";
+import { createBrotliDecompress, createGunzip, createInflate } from "zlib";
+import { extractJobDescription } from "./extract";
+
+export type FetchedPage = {
+  // final URL after redirects
+  url: string;
+  html: string;
+};
+
+// Everything that reads job postings from the network goes through one of these,
+// so imports can run against saved HTML instead (JD_FIXTURES_DIR).
+export type Fetcher = (url: string) => Promise<FetchedPage>;
+
+export class JdImportError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "JdImportError";
+    this.status = status;
+  }
+}
+
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+
+// names that only mean something inside the server's own network
+const PRIVATE_NAME = /(^|\.)(localhost|local|internal)$/i;
+
+// [first address, prefix length] of IPv4 ranges that aren't the public internet
+const PRIVATE_V4: [string, number][] = [
+  ["0.0.0.0", 8], // "this network"
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast and reserved, through 255.255.255.255
+];
+
+function v4ToInt(ip: string) {
+  return ip.split(".").reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+function isPrivateV4(ip: string) {
+  const n = v4ToInt(ip);
+  return PRIVATE_V4.some(([base, bits]) => Math.floor(n / 2 ** (32 - bits)) === Math.floor(v4ToInt(base) / 2 ** (32 - bits)));
+}
+
+export function isPrivateAddress(ip: string): boolean {
+  const addr = ip.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(addr) === 4) return isPrivateV4(addr);
+  if (isIP(addr) !== 6) return true;
+
+  // IPv4-mapped (::ffff:10.0.0.1, or ::ffff:a00:1 as URL parsing writes it)
+  const mapped = addr.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (mapped) return isPrivateV4(mapped);
+  const hex = addr.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const n = parseInt(hex[1], 16) * 65536 + parseInt(hex[2], 16);
+    return isPrivateV4([n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join("."));
+  }
+  // unspecified, loopback, unique-local (fc00::/7), link-local (fe80::/10), multicast (ff00::/8)
+  return addr === "::" || addr === "::1" || /^(f[cd]|fe[89ab]|ff)/.test(addr);
+}
+
+// The server fetches on the user's behalf, so only public http(s) URLs are allowed
+export function parsePostingUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(String(raw || "").trim());
+  } catch {
+    throw new JdImportError("Not a valid URL", 400);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new JdImportError("Only http(s) URLs can be imported", 400);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (!host || PRIVATE_NAME.test(host) || (isIP(host) && isPrivateAddress(host))) {
+    throw new JdImportError("That host can't be fetched", 400);
+  }
+  return url;
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+export type Lookup = (hostname: string, options: LookupOptions, callback: LookupCallback) => void;
+
+type HttpFetcherOptions = {
+  // resolves host names; dns.lookup unless a test stands in
+  lookup?: Lookup;
+  // addresses that may not be connected to
+  isBlocked?: (ip: string) => boolean;
+};
+
+// The address check runs inside the connection's own lookup, so the address that was checked is
+// the one connected to: checking first and letting the request resolve again could be rebound.
+function checkedLookup(resolve: Lookup, isBlocked: (ip: string) => boolean) {
+  return (hostname: string, options: LookupOptions, callback: LookupCallback) => {
+    resolve(hostname, { ...options, all: true }, (err, found) => {
+      if (err) return callback(err, "");
+      const addresses = found as LookupAddress[];
+      if (!addresses.length || addresses.some((a) => isBlocked(a.address))) {
+        return callback(new JdImportError("That host can't be fetched", 400), "");
+      }
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+function send(url: URL, lookup: ReturnType<typeof checkedLookup>, signal: AbortSignal): Promise<IncomingMessage> {
+  const get = url.protocol === "https:" ? https.get : http.get;
+  return new Promise((resolve, reject) => {
+    get(
+      url,
+      {
+        lookup,
+        signal,
+        headers: {
+          "User-Agent": "Mozilla/5.0 (compatible; Interviewee/0.1)",
+          Accept: "text/html",
+          "Accept-Encoding": "gzip, deflate, br",
+        },
+      },
+      resolve
+    ).on("error", reject);
+  });
+}
+
+// Reads the (decompressed) body, giving up as soon as it passes the size cap rather than after
+// buffering whatever the server sends
+async function readBody(res: IncomingMessage): Promise<string> {
+  const encoding = String(res.headers["content-encoding"] ?? "").toLowerCase();
+  const decoder =
+    encoding === "gzip" ? createGunzip() : encoding === "deflate" ? createInflate() : encoding === "br" ? createBrotliDecompress() : null;
+  const body = decoder ? pipeline(res, decoder, () => undefined) : res;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_HTML_BYTES) {
+      res.destroy();
+      throw new JdImportError("Job posting page is too large", 413);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Redirects are followed by hand so every hop gets the same checks as the URL the user gave
+export function createHttpFetcher({ lookup = dnsLookup as Lookup, isBlocked = isPrivateAddress }: HttpFetcherOptions = {}): Fetcher {
+  const connectLookup = checkedLookup(lookup, isBlocked);
+
+  return async (url) => {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let current = parsePostingUrl(url);
+    let res: IncomingMessage;
+
+    for (let hops = 0; ; hops++) {
+      try {
+        res = await send(current, connectLookup, signal);
+      } catch (err) {
+        if (err instanceof JdImportError) throw err;
+        throw new JdImportError(signal.aborted ? "Job posting took too long to load" : "Could not reach that URL", 502);
+      }
+
+      const status = res.statusCode ?? 0;
+      const location = status >= 300 && status < 400 ? res.headers.location : undefined;
+      if (!location) break;
+      res.destroy();
+      if (hops >= MAX_REDIRECTS) throw new JdImportError("Job posting redirected too many times", 502);
+      current = parsePostingUrl(new URL(location, current).toString());
+    }
+
+    try {
+      const status = res.statusCode ?? 0;
+      if (status < 200 || status >= 300) throw new JdImportError(`Job posting returned ${status}`, 502);
+
+      const type = res.headers["content-type"] ?? "";
+      if (type && !/html|xml|text\/plain/i.test(type)) {
+        throw new JdImportError(`Expected an HTML page, got ${type}`, 415);
+      }
+      if (Number(res.headers["content-length"] ?? 0) > MAX_HTML_BYTES) {
+        throw new JdImportError("Job posting page is too large", 413);
+      }
+
+      return { url: current.toString(), html: await readBody(res) };
+    } catch (err) {
+      if (err instanceof JdImportError) throw err;
+      throw new JdImportError(signal.aborted ? "Job posting took too long to load" : "Could not reach that URL", 502);
+    } finally {
+      res.destroy();
+    }
+  };
+}
+
+export const httpFetcher = createHttpFetcher();
+
+// https://jobs.example.com/eng/123 → jobs-example-com-eng-123.html
+export function fixtureName(url: string) {
+  const u = new URL(url);
+  return `${(u.hostname + u.pathname).replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase()}.html`;
+}
+
+export function fixtureFetcher(dir: string): Fetcher {
+  return async (url) => {
+    const file = path.join(dir, fixtureName(url));
+    try {
+      return { url, html: await fs.readFile(file, "utf8") };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new JdImportError(`No fixture for ${url} (expected ${fixtureName(url)})`, 404);
+      }
+      throw err;
+    }
+  };
+}
+
+export function getJdFetcher(): Fetcher {
+  const dir = process.env.JD_FIXTURES_DIR;
+  return dir ? fixtureFetcher(dir) : httpFetcher;
+}
+
+export async function importJobDescription(rawUrl: string, fetcher: Fetcher = getJdFetcher()) {
+  const url = parsePostingUrl(rawUrl);
+  const page = await fetcher(url.toString());
+  const jd = extractJobDescription(page.html, page.url);
+  if (!jd.text) throw new JdImportError("No job description text found on that page", 422);
+  return jd;
+}
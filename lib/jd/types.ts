@@ -0,0 +1,36 @@
+export type StructuredJobDescription = {
+  title: string;
+  responsibilities: string[];
+  requirements: string[];
+  niceToHaves: string[];
+  // readable text of the posting with navigation/boilerplate stripped
+  text: string;
+  sourceUrl?: string;
+};
+
+export function jdForPrompt(jd: StructuredJobDescription) {
+  const list = (items: string[]) => (items.length ? items.map((i) => `- ${i}`).join("\n") : "(none listed)");
+
+  // Nothing recognised as a section: the stripped text is the best we have
+  if (!jd.responsibilities.length && !jd.requirements.length) {
+    return `[TITLE]\n${jd.title || "(unknown)"}\n\n${jd.text}`;
+  }
+
+  return [
+    `[TITLE]\n${jd.title || "(unknown)"}`,
+    `[RESPONSIBILITIES]\n${list(jd.responsibilities)}`,
+    `[REQUIREMENTS]\n${list(jd.requirements)}`,
+    `[NICE TO HAVE]\n${list(jd.niceToHaves)}`,
+  ].join("\n\n");
+}
+
+export function isStructuredJd(value: unknown): value is StructuredJobDescription {
+  const jd = value as StructuredJobDescription | null;
+  return (
+    typeof jd?.title === "string" &&
+    typeof jd.text === "string" &&
+    Array.isArray(jd.responsibilities) &&
+    Array.isArray(jd.requirements) &&
+    Array.isArray(jd.niceToHaves)
+  );
+}
@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isRecordId, JsonFileStore } from "./json-store";
+
+type Note = { id: string; createdAt: string; updatedAt: string; body: string; edits: number };
+
+describe("JsonFileStore", () => {
+  let dir: string;
+  let store: JsonFileStore<Note>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "json-store-"));
+    store = new JsonFileStore<Note>(dir, "note");
+  });
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("round-trips a record under a UUID", async () => {
+    const note = await store.insert({ body: "hello", edits: 0 });
+    expect(isRecordId(note.id)).toBe(true);
+    expect(await store.get(note.id)).toEqual(note);
+    expect(await store.delete(note.id)).toBe(true);
+    expect(await store.get(note.id)).toBeNull();
+  });
+
+  it("applies overlapping updates one after another, in the order they were made", async () => {
+    const note = await store.insert({ body: "", edits: 0 });
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.update(note.id, { body: `edit ${i}`, edits: i })));
+
+    expect(await store.get(note.id)).toMatchObject({ body: "edit 19", edits: 19 });
+    expect(await fs.readdir(dir)).toEqual([`${note.id}.json`]);
+  });
+
+  it("inserts a record only once when overlapping calls check for it", async () => {
+    const added = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        store.insertUnless({ body: "once", edits: 0 }, (notes) => notes.some((n) => n.body === "once"))
+      )
+    );
+
+    expect(added.filter(Boolean)).toHaveLength(1);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("skips unreadable files when listing", async () => {
+    const note = await store.insert({ body: "kept", edits: 0 });
+    await fs.writeFile(path.join(dir, "00000000-0000-0000-0000-000000000000.json"), "{broken");
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect(await store.list()).toEqual([note]);
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+
+  it("ignores ids that aren't UUIDs", async () => {
+    expect(await store.get("../../etc/passwd")).toBeNull();
+    expect(await store.update("../x", { body: "y" })).toBeNull();
+    expect(await store.delete("nope")).toBe(false);
+  });
+});
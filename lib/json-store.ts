@@ -0,0 +1,130 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// What every stored record carries; the store sets all three
+export type StoredRecord = { id: string; createdAt: string; updatedAt: string };
+
+type Fields<T extends StoredRecord> = Omit<T, keyof StoredRecord>;
+
+// ids end up in file names, so only accept what randomUUID produces
+const ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+export function isRecordId(id: string) {
+  return ID_PATTERN.test(id);
+}
+
+// Writes to one file run one at a time. Kept on globalThis because Next bundles each route
+// separately, and every bundle gets its own copy of this module.
+const queues: Map<string, Promise<unknown>> = ((globalThis as { __jsonFileQueues?: Map<string, Promise<unknown>> })
+  .__jsonFileQueues ??= new Map());
+
+function serialize<T>(key: string, run: () => Promise<T>): Promise<T> {
+  const result = (queues.get(key) ?? Promise.resolve()).then(run, run);
+  const settled = result.catch(() => undefined);
+  queues.set(key, settled);
+  void settled.then(() => {
+    if (queues.get(key) === settled) queues.delete(key);
+  });
+  return result;
+}
+
+// One JSON file per record under `dir`, keyed by a UUID, newest-updated first in list().
+// `kind` names the records in log messages.
+export class JsonFileStore<T extends StoredRecord> {
+  constructor(
+    private dir: string,
+    private kind: string
+  ) {}
+
+  private file(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private async write(record: T) {
+    await fs.mkdir(this.dir, { recursive: true });
+    // write-then-rename so a crash never leaves half a record on disk; the tmp name is unique
+    // so overlapping writes never share (and rename away) each other's file
+    const tmp = `${this.file(record.id)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record, null, 2), "utf8");
+    await fs.rename(tmp, this.file(record.id));
+  }
+
+  async list(): Promise<T[]> {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+
+    // one corrupt file shouldn't hide every other record
+    const records: (T | null)[] = await Promise.all(
+      names
+        .filter((n) => n.endsWith(".json"))
+        .map((n) =>
+          this.get(n.slice(0, -".json".length)).catch((err): null => {
+            console.error(`Skipping unreadable ${this.kind} file ${n}:`, err);
+            return null;
+          })
+        )
+    );
+
+    return records.filter((r): r is T => r !== null).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<T | null> {
+    if (!isRecordId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  private async add(fields: Fields<T>): Promise<T> {
+    const now = new Date().toISOString();
+    const record = { ...fields, id: randomUUID(), createdAt: now, updatedAt: now } as T;
+    await this.write(record);
+    return record;
+  }
+
+  // Inserts queue on the directory, so insertUnless's check can't miss one that's in flight
+  insert(fields: Fields<T>): Promise<T> {
+    return serialize(this.dir, () => this.add(fields));
+  }
+
+  // Inserts unless `exists` finds the record among the stored ones; null when it did. The check
+  // and the write run under the directory's queue, so overlapping calls can't both insert it.
+  insertUnless(fields: Fields<T>, exists: (records: T[]) => boolean): Promise<T | null> {
+    return serialize(this.dir, async () => (exists(await this.list()) ? null : this.add(fields)));
+  }
+
+  // read-modify-write under the file's queue, so overlapping updates each see the other's changes
+  update(id: string, patch: Partial<Fields<T>>): Promise<T | null> {
+    if (!isRecordId(id)) return Promise.resolve(null);
+    return serialize(this.file(id), async () => {
+      const current = await this.get(id);
+      if (!current) return null;
+
+      const next = { ...current, ...patch, id, updatedAt: new Date().toISOString() } as T;
+      await this.write(next);
+      return next;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isRecordId(id)) return false;
+    return serialize(this.file(id), async () => {
+      try {
+        await fs.unlink(this.file(id));
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+        throw err;
+      }
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { validateBlueprint } from "@/lib/blueprint";
+import { FakeProvider } from "./fake";
+import { resolveLlm, safeJsonParse } from "./index";
+
+const BLUEPRINT_PROMPT = "Company:\nAcme\n\nJob description:\nSenior Backend Engineer building payment services in Go.";
+
+describe("FakeProvider", () => {
+  it("answers the same prompt the same way", async () => {
+    const llm = new FakeProvider();
+    const a = await llm.generate({ task: "blueprint", prompt: BLUEPRINT_PROMPT });
+    const b = await llm.generate({ task: "blueprint", prompt: BLUEPRINT_PROMPT });
+    expect(a).toEqual(b);
+    expect(a.model).toBe("fake");
+  });
+
+  it("returns a blueprint that passes validation", async () => {
+    const { text } = await new FakeProvider().generate({ task: "blueprint", prompt: BLUEPRINT_PROMPT });
+    const parsed = safeJsonParse<unknown>(text);
+    expect(parsed.ok).toBe(true);
+    const checked = validateBlueprint(parsed.ok ? parsed.data : null);
+    expect(checked.ok).toBe(true);
+    expect(checked.ok && checked.blueprint.likely_interview_type).toBe("behavioral_technical");
+  });
+
+  it("streams the same text it generates", async () => {
+    vi.useFakeTimers();
+    try {
+      const llm = new FakeProvider();
+      const req = { task: "next_question" as const, prompt: "Next planned question: Why Acme?" };
+      const chunks: string[] = [];
+      const reading = (async () => {
+        for await (const chunk of llm.stream(req)) chunks.push(chunk);
+      })();
+      await vi.runAllTimersAsync();
+      await reading;
+      expect(chunks.join("")).toBe((await llm.generate(req)).text);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("resolveLlm", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("uses the fake provider when LLM_PROVIDER=fake, with no key", () => {
+    vi.stubEnv("LLM_PROVIDER", "fake");
+    vi.stubEnv("GOOGLE_API_KEY", "");
+    vi.stubEnv("GEMINI_API_KEY", "");
+    const resolved = resolveLlm();
+    expect(resolved.ok && resolved.llm.name).toBe("fake");
+  });
+
+  it("explains what to set when there's no key", () => {
+    vi.stubEnv("LLM_PROVIDER", "");
+    vi.stubEnv("GOOGLE_API_KEY", "");
+    vi.stubEnv("GEMINI_API_KEY", "");
+    const resolved = resolveLlm();
+    expect(resolved.ok).toBe(false);
+    expect(!resolved.ok && resolved.error).toMatch(/GOOGLE_API_KEY.*LLM_PROVIDER=fake/);
+  });
+});
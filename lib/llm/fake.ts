@@ -0,0 +1,200 @@
+import { GenerateRequest, GenerateResult, LlmProvider, LlmTask } from "./types";
+
+// Deterministic offline stand-in for Gemini (LLM_PROVIDER=fake). Answers are canned per task,
+// with just enough of the prompt echoed back that the UI looks alive. Same prompt → same output.
+
+function modeOf(prompt: string) {
+  const m = prompt.match(/Mode:\s*(BEHAVIORAL|TECHNICAL|CASE)/);
+  return (m?.[1] ?? "BEHAVIORAL").toLowerCase();
+}
+
+// the candidate answer is always passed between triple quotes
+function quotedBlock(prompt: string) {
+  const m = prompt.match(/"""\n([\s\S]*?)\n"""/);
+  return (m?.[1] ?? "").trim();
+}
+
+function firstSentence(text: string) {
+  return text.split(/(?<=[.!?])\s+/)[0] ?? "";
+}
+
+const QUESTIONS: Record<string, string> = {
+  behavioral: "Tell me about a time you disagreed with a stakeholder on priorities. What did you do, and what happened?",
+  technical: "How would you design a rate limiter for a public API that serves a few thousand requests per second?",
+  case: "A subscription app's monthly churn went from 3% to 5% in a quarter. How would you figure out why?",
+};
+
+function blueprint(prompt: string) {
+  const technical = /(engineer|developer|software|coding|data|backend|frontend|systems)/i.test(prompt);
+  return {
+    role_focus: technical
+      ? ["System design", "Coding fundamentals", "Debugging", "Collaboration", "Ownership"]
+      : ["Problem structuring", "Stakeholder management", "Quantitative reasoning", "Communication", "Prioritization"],
+    likely_interview_type: technical ? "behavioral_technical" : "behavioral_case",
+    risk_gaps: ["Limited evidence of measurable impact", "No example of leading without authority"],
+    company_notes: ["Expect a mix of values-based and role-specific questions."],
+    sample_questions: [
+      { type: "behavioral", question: QUESTIONS.behavioral },
+      { type: "technical", question: QUESTIONS.technical },
+      { type: "case", question: QUESTIONS.case },
+    ],
+  };
+}
+
+// scores whatever rubric dimensions the prompt's schema asks for; STAR only when it's asked for
+function grade(prompt: string) {
+  const answer = quotedBlock(prompt);
+  const words = answer.split(/\s+/).filter(Boolean).length;
+  const base = Math.min(20, 8 + Math.floor(words / 10));
+  const quote = firstSentence(answer);
+  const evidence = quote ? [quote] : [];
+  const dimensions = [...prompt.matchAll(/"(\w+)": \{ "score"/g)].map((m) => m[1]);
+  return {
+    ...(prompt.includes('"star"')
+      ? {
+          star: {
+            situation: { present: words > 15, evidence: quote },
+            task: { present: /goal|responsible|task/i.test(answer), evidence: "" },
+            action: { present: /\bI\b/.test(answer), evidence: "" },
+            result: { present: /\d/.test(answer), evidence: "" },
+          },
+        }
+      : {}),
+    scores: Object.fromEntries(
+      dimensions.map((d, i) => [d, { score: Math.max(0, base - i), evidence: i % 2 === 0 ? evidence : [] }])
+    ),
+    strengths: ["Answer stays on the question that was asked."],
+    gaps: ["Tie the outcome to one of the role's focus areas."],
+  };
+}
+
+function rewrite(prompt: string) {
+  const answer = quotedBlock(prompt);
+  return {
+    improvedAnswer:
+      modeOf(prompt) === "behavioral"
+        ? `Situation: ${firstSentence(answer) || "[ADD: context]"}\nTask: [ADD: your goal and ownership]\nAction: ${answer}\nResult: [ADD: outcome + metric]`
+        : modeOf(prompt) === "technical"
+          ? `Approach: ${answer}\nComplexity & trade-offs: [ADD: Big-O and alternatives considered]\nEdge cases: [ADD: what could break]\nDecision: [ADD: what you'd pick + why]`
+          : `Structure: ${firstSentence(answer) || "[ADD: your buckets]"}\nHypothesis: [ADD: your leading hypothesis]\nNumbers: [ADD: a quick estimate]\nRecommendation: [ADD: what you'd do next]`,
+    bulletsToAdd: ["State the goal you owned.", "Close with a measurable result."],
+  };
+}
+
+function report(prompt: string) {
+  const risk = prompt.match(/- risk_gaps: (.*)/)?.[1]?.split(", ")[0] ?? null;
+  return {
+    signal: "lean_no_hire",
+    summary: "Clear, on-topic answers that need more measurable outcomes to be convincing.",
+    strengths: ["Stays on the question that was asked.", "Uses first-person ownership.", "Keeps answers concise."],
+    gaps: [
+      { gap: "Outcomes are rarely quantified.", risk_gap: risk },
+      { gap: "Goal and ownership are left implicit.", risk_gap: null },
+      { gap: "Little evidence of trade-off reasoning.", risk_gap: null },
+    ],
+    practice_plan: [
+      { focus: "Impact", drill: "End every story with one number." },
+      { focus: "Task", drill: "State what you owned in the first two sentences." },
+    ],
+  };
+}
+
+// drills while the answer is short, otherwise takes the last allowed action (next/end)
+function decision(prompt: string) {
+  const allowed = (prompt.match(/Allowed actions: (.*)/)?.[1] ?? "next").split(", ");
+  const words = quotedBlock(prompt).split(/\s+/).filter(Boolean).length;
+  const action = allowed.includes("followup") && words < 40 ? "followup" : allowed[allowed.length - 1];
+  return { action, reason: action === "followup" ? "Answer was brief; probing for depth." : "Enough signal on this question." };
+}
+
+const RESPONDERS: Record<LlmTask, (prompt: string) => string> = {
+  blueprint: (p) => JSON.stringify(blueprint(p)),
+  blueprint_repair: (p) => JSON.stringify(blueprint(p)),
+  interview_question: (p) => p.match(/Planned question: (.*)/)?.[1] ?? QUESTIONS[modeOf(p)] ?? QUESTIONS.behavioral,
+  // verifies a claim the resume doesn't back, else goes after the first open risk gap from the conversation memory
+  followup_question: (p) => {
+    const doubt = p.match(/doesn't match the candidate's resume: (.*?) \(“/)?.[1];
+    if (doubt) return `Help me square something with your resume. ${doubt} Can you walk me through it?`;
+    const gap = p.match(/Risk gaps NOT yet probed: (?!none)([^,(\n]+)/)?.[1]?.trim();
+    return gap
+      ? `Can you walk me through an example that addresses this: ${gap.toLowerCase()}?`
+      : "What was the hardest trade-off you made there, and how did you decide?";
+  },
+  grade_answer: (p) => JSON.stringify(grade(p)),
+  rewrite_answer: (p) => JSON.stringify(rewrite(p)),
+  interview_report: (p) => JSON.stringify(report(p)),
+  // empty list → the route keeps its blueprint-based plan
+  interview_plan: () => JSON.stringify({ questions: [] }),
+  plan_decision: (p) => JSON.stringify(decision(p)),
+  // empty list → the route keeps its problem bank
+  coding_problem: () => JSON.stringify({ problems: [] }),
+  // exhibits for the first case question only, so later ones exercise the bank fallback
+  case_exhibits: () =>
+    JSON.stringify({
+      cases: [
+        {
+          exhibits: [
+            {
+              title: "Monthly churn by plan",
+              kind: "line",
+              columns: ["Month", "Monthly plan", "Annual plan"],
+              rows: [
+                ["Jan", 3, 1],
+                ["Feb", 4, 1],
+                ["Mar", 6, 1],
+              ],
+              unit: "%",
+            },
+            {
+              title: "Subscribers",
+              kind: "table",
+              columns: ["Plan", "Subscribers (k)", "Price ($/month)"],
+              rows: [
+                ["Monthly", 80, 12],
+                ["Annual", 40, 8],
+              ],
+            },
+          ],
+        },
+      ],
+    }),
+  summarize_transcript: (p) =>
+    (p.match(/^INTERVIEWER: .*/gm) ?? [])
+      .map((q) => `Asked: ${firstSentence(q.slice("INTERVIEWER: ".length))} The candidate answered with examples.`)
+      .join("\n"),
+  extract_story: (p) => {
+    const answer = quotedBlock(p);
+    const sentences = answer.split(/(?<=[.!?])\s+/).filter(Boolean);
+    return JSON.stringify({
+      title: (sentences[0] ?? "Practice story").split(/\s+/).slice(0, 6).join(" "),
+      situation: sentences[0] ?? "",
+      task: "",
+      action: sentences.slice(1, -1).join(" "),
+      result: sentences.length > 1 ? sentences[sentences.length - 1] : "",
+      tags: /\d/.test(answer) ? ["impact"] : [],
+      metrics: [],
+    });
+  },
+  next_question: (p) => `Thanks, that's helpful. Let's move on. ${p.match(/Next planned question: (.*)/)?.[1] ?? QUESTIONS[modeOf(p)]}`,
+};
+
+export class FakeProvider implements LlmProvider {
+  readonly name = "fake";
+
+  async generate(req: GenerateRequest): Promise<GenerateResult> {
+    return { text: RESPONDERS[req.task](req.prompt), model: "fake" };
+  }
+
+  // word-by-word so the streaming UI has something to render
+  async *stream(req: GenerateRequest): AsyncGenerator<string> {
+    const text = RESPONDERS[req.task](req.prompt);
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      await new Promise((r) => setTimeout(r, 30));
+      yield word;
+    }
+  }
+
+  async listModels(): Promise<unknown[]> {
+    return [{ name: "fake", description: "Deterministic offline provider" }];
+  }
+}
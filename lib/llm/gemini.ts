@@ -0,0 +1,120 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerateRequest, GenerateResult, LlmError, LlmOptions, LlmProvider } from "./types";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function errorStatus(err: unknown): number | undefined {
+  const e = err as { status?: unknown; code?: unknown; name?: unknown } | null;
+  if (e?.name === "AbortError" || e?.name === "TimeoutError") return 504;
+  const status = Number(e?.status ?? e?.code);
+  return Number.isFinite(status) ? status : undefined;
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err ?? "");
+}
+
+// older @google/genai versions expose text() as a function instead of a getter
+function responseText(result: unknown) {
+  const r = result as { text?: string | (() => string) } | null;
+  return typeof r?.text === "function" ? r.text() : r?.text ?? "";
+}
+
+type Attempt<T> = { ok: true; value: T } | { ok: false; fallback: boolean; err: LlmError };
+
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private options: LlmOptions) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(req: GenerateRequest): Promise<GenerateResult> {
+    const { value, model } = await this.withFallback((model) =>
+      this.ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: [{ text: req.prompt }] }],
+        config: { abortSignal: AbortSignal.timeout(this.options.timeoutMs) },
+      })
+    );
+    return { text: responseText(value), model };
+  }
+
+  // Retries and model fallback only cover opening the stream; once tokens flow, an error is final.
+  async *stream(req: GenerateRequest): AsyncGenerator<string> {
+    const { value } = await this.withFallback((model) =>
+      this.ai.models.generateContentStream({
+        model,
+        contents: [{ role: "user", parts: [{ text: req.prompt }] }],
+        config: { abortSignal: AbortSignal.timeout(this.options.timeoutMs) },
+      })
+    );
+
+    try {
+      for await (const chunk of value) {
+        const text = responseText(chunk);
+        if (text) yield text;
+      }
+    } catch (err) {
+      throw new LlmError(errorMessage(err) || "Stream interrupted", { status: errorStatus(err), cause: err });
+    }
+  }
+
+  async listModels(): Promise<unknown[]> {
+    const models: unknown[] = [];
+    const pager = await this.ai.models.list();
+    for await (const m of pager) models.push(m);
+    return models;
+  }
+
+  private async withFallback<T>(call: (model: string) => Promise<T>): Promise<{ value: T; model: string }> {
+    let lastErr: LlmError | null = null;
+
+    for (const model of this.options.models) {
+      const out = await this.withRetry(model, call);
+      if (out.ok) return { value: out.value, model };
+
+      lastErr = out.err;
+      // 404 = model id not available here; retries exhausted = overloaded. Either way try the next model.
+      if (out.fallback) continue;
+      throw out.err;
+    }
+
+    throw new LlmError(
+      `No model succeeded (check GEMINI_MODEL / model availability): ${lastErr?.message ?? "unknown error"}`,
+      { status: lastErr?.status, cause: lastErr }
+    );
+  }
+
+  private async withRetry<T>(model: string, call: (model: string) => Promise<T>): Promise<Attempt<T>> {
+    const { maxRetries, maxBackoffMs } = this.options;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return { ok: true, value: await call(model) };
+      } catch (err) {
+        const status = errorStatus(err);
+        const msg = errorMessage(err);
+        const wrapped = new LlmError(msg || "Model request failed", { status, model, cause: err });
+
+        if (status === 404) return { ok: false, fallback: true, err: wrapped };
+
+        // 429 quota / 503 overload / 504 timeout: back off, honouring "retry in Ns" when the API gives one
+        if (status === 429 || status === 503 || status === 504) {
+          if (attempt === maxRetries) return { ok: false, fallback: true, err: wrapped };
+          const match = msg.match(/retry in\s+([\d.]+)s/i);
+          const waitMs = (match ? Number(match[1]) : 2 + attempt * 2) * 1000;
+          await sleep(Math.min(maxBackoffMs, waitMs));
+          continue;
+        }
+
+        return { ok: false, fallback: false, err: wrapped };
+      }
+    }
+
+    return { ok: false, fallback: true, err: new LlmError("Retry loop exhausted", { model }) };
+  }
+}
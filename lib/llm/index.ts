@@ -0,0 +1,41 @@
+import { FakeProvider } from "./fake";
+import { GeminiProvider } from "./gemini";
+import { LlmOptions, LlmProvider } from "./types";
+
+export * from "./types";
+export { safeJsonParse } from "./json";
+
+function envNumber(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export function llmOptionsFromEnv(): LlmOptions {
+  return {
+    // Gemini 3 Flash preview first; fallbacks in case the preview isn't enabled for this key
+    models: [
+      process.env.GEMINI_MODEL, // allow override
+      "gemini-3-flash-preview",
+      "gemini-2.0-flash",
+      "gemini-1.5-flash",
+    ].filter(Boolean) as string[],
+    maxRetries: envNumber("LLM_MAX_RETRIES", 3),
+    maxBackoffMs: envNumber("LLM_MAX_BACKOFF_MS", 20_000),
+    timeoutMs: envNumber("LLM_TIMEOUT_MS", 60_000),
+  };
+}
+
+// LLM_PROVIDER=fake runs the whole app offline with deterministic responses.
+export function resolveLlm(
+  overrides: Partial<LlmOptions> = {}
+): { ok: true; llm: LlmProvider } | { ok: false; error: string } {
+  if (process.env.LLM_PROVIDER === "fake") return { ok: true, llm: new FakeProvider() };
+
+  // GOOGLE_API_KEY wins when both are set, as it always has for interviews
+  const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    return { ok: false, error: "Missing GOOGLE_API_KEY (or GEMINI_API_KEY) in .env.local, or set LLM_PROVIDER=fake" };
+  }
+
+  return { ok: true, llm: new GeminiProvider(apiKey, { ...llmOptionsFromEnv(), ...overrides }) };
+}
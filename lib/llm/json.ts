@@ -0,0 +1,11 @@
+// Models wrap JSON in prose or ```json fences; slice from the first { to the last } before parsing.
+export function safeJsonParse<T>(raw: string): { ok: true; data: T } | { ok: false; error: string } {
+  try {
+    const start = raw.indexOf("{");
+    const end = raw.lastIndexOf("}");
+    const sliced = start !== -1 && end !== -1 ? raw.slice(start, end + 1) : raw;
+    return { ok: true, data: JSON.parse(sliced) as T };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : "Failed to parse JSON" };
+  }
+}
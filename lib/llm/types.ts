@@ -0,0 +1,55 @@
+// What a prompt is for. Providers that don't need it (Gemini) ignore it; the fake
+// provider uses it to pick a canned response.
+export type LlmTask =
+  | "blueprint"
+  | "blueprint_repair"
+  | "interview_question"
+  | "followup_question"
+  | "grade_answer"
+  | "rewrite_answer"
+  | "interview_report"
+  | "interview_plan"
+  | "plan_decision"
+  | "next_question"
+  | "coding_problem"
+  | "case_exhibits"
+  | "summarize_transcript"
+  | "extract_story";
+
+export type GenerateRequest = {
+  task: LlmTask;
+  prompt: string;
+};
+
+export type GenerateResult = {
+  text: string;
+  model: string;
+};
+
+export type LlmOptions = {
+  // tried in order; a 404 (unknown model) or exhausted retries moves on to the next one
+  models: string[];
+  maxRetries: number;
+  maxBackoffMs: number;
+  timeoutMs: number;
+};
+
+export interface LlmProvider {
+  readonly name: string;
+  generate(req: GenerateRequest): Promise<GenerateResult>;
+  // yields text chunks as the model produces them
+  stream(req: GenerateRequest): AsyncIterable<string>;
+  listModels(): Promise<unknown[]>;
+}
+
+export class LlmError extends Error {
+  status?: number;
+  model?: string;
+
+  constructor(message: string, opts: { status?: number; model?: string; cause?: unknown } = {}) {
+    super(message, { cause: opts.cause });
+    this.name = "LlmError";
+    this.status = opts.status;
+    this.model = opts.model;
+  }
+}
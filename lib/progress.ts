@@ -0,0 +1,139 @@
+import { Dimension, Mode, MODES } from "@/lib/interview/types";
+import { RUBRICS } from "@/lib/scoring/rubrics";
+import type { InterviewSession } from "@/lib/sessions/types";
+
+export type ScoreKey = "overall" | Dimension;
+
+// Every point has an overall; dimensions come from the answer's own rubric
+export type PointScores = { overall: number } & Partial<Record<Dimension, number>>;
+
+export type ProgressPoint = {
+  sessionId: string;
+  company: string;
+  mode: Mode;
+  at: string;
+  scores: PointScores;
+};
+
+export type ModeProgress = {
+  mode: Mode;
+  answers: number;
+  // overall plus this mode's rubric dimensions
+  keys: ScoreKey[];
+  averages: { overall: number } & Partial<Record<Dimension, number>>;
+  // latest-half average minus earliest-half average; null until there are 2+ answers
+  trend: { overall: number | null } & Partial<Record<Dimension, number | null>>;
+  points: ProgressPoint[];
+};
+
+export type StarMiss = {
+  component: "situation" | "task" | "action" | "result";
+  missed: number;
+  rate: number;
+};
+
+export type ProgressReport = {
+  sessions: number;
+  answers: number;
+  averages: { overall: number };
+  trend: { overall: number | null };
+  points: ProgressPoint[];
+  byMode: ModeProgress[];
+  // behavioral answers only — STAR is the behavioral rubric
+  starAnswers: number;
+  starMisses: StarMiss[];
+};
+
+export function scoreKeys(mode: Mode): ScoreKey[] {
+  return ["overall", ...RUBRICS[mode].dimensions.map((d) => d.key)];
+}
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+// Points that carry this score — answers graded on another rubric don't count toward it
+function withScore(points: ProgressPoint[], key: ScoreKey) {
+  return points.filter((p) => typeof p.scores[key] === "number");
+}
+
+function average(points: ProgressPoint[], key: ScoreKey) {
+  const scored = withScore(points, key);
+  if (!scored.length) return 0;
+  return round1(scored.reduce((sum, p) => sum + p.scores[key]!, 0) / scored.length);
+}
+
+function averages(points: ProgressPoint[], keys: ScoreKey[]) {
+  return Object.fromEntries(keys.map((k) => [k, average(points, k)])) as Record<ScoreKey, number>;
+}
+
+// "Are you improving?" = second half of your answers vs the first half
+function trend(points: ProgressPoint[], keys: ScoreKey[]) {
+  return Object.fromEntries(
+    keys.map((k) => {
+      const scored = withScore(points, k);
+      if (scored.length < 2) return [k, null];
+      const mid = Math.floor(scored.length / 2);
+      return [k, round1(average(scored.slice(scored.length - mid), k) - average(scored.slice(0, mid), k))];
+    })
+  ) as Record<ScoreKey, number | null>;
+}
+
+export function buildProgress(sessions: InterviewSession[]): ProgressReport {
+  const ordered = [...sessions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const points: ProgressPoint[] = [];
+  const starCounts = { situation: 0, task: 0, action: 0, result: 0 };
+  let starAnswers = 0;
+
+  for (const session of ordered) {
+    const scored = [...session.scorecards].sort((a, b) => a.turnIndex - b.turnIndex);
+    for (const { scorecard, answeredAt } of scored) {
+      points.push({
+        sessionId: session.id,
+        company: session.company,
+        mode: scorecard.mode,
+        at: answeredAt ?? session.createdAt,
+        scores: { ...(scorecard.scores as PointScores) },
+      });
+
+      if (scorecard.mode === "behavioral") {
+        starAnswers++;
+        for (const k of Object.keys(starCounts) as StarMiss["component"][]) {
+          if (!scorecard.star[k].present) starCounts[k]++;
+        }
+      }
+    }
+  }
+
+  const byMode = MODES.map((mode) => {
+    const modePoints = points.filter((p) => p.mode === mode);
+    return {
+      mode,
+      answers: modePoints.length,
+      keys: scoreKeys(mode),
+      averages: averages(modePoints, scoreKeys(mode)),
+      trend: trend(modePoints, scoreKeys(mode)),
+      points: modePoints,
+    };
+  }).filter((m) => m.answers > 0);
+
+  const starMisses = (Object.keys(starCounts) as StarMiss["component"][])
+    .map((component) => ({
+      component,
+      missed: starCounts[component],
+      rate: starAnswers ? round1((starCounts[component] / starAnswers) * 100) : 0,
+    }))
+    .sort((a, b) => b.missed - a.missed);
+
+  return {
+    sessions: sessions.length,
+    answers: points.length,
+    averages: { overall: average(points, "overall") },
+    trend: { overall: trend(points, ["overall"]).overall },
+    points,
+    byMode,
+    starAnswers,
+    starMisses,
+  };
+}
@@ -0,0 +1,58 @@
+import mammoth from "mammoth";
+import { extractTextItems } from "unpdf";
+import { detectSections, ResumeSource, StructuredResume } from "./sections";
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+type ResumeFile = {
+  name: string;
+  type: string;
+  bytes: Uint8Array;
+};
+
+export function resumeSourceOf(file: Pick<ResumeFile, "name" | "type">): ResumeSource | null {
+  const name = file.name.toLowerCase();
+  if (file.type === "application/pdf" || name.endsWith(".pdf")) return "pdf";
+  if (file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || name.endsWith(".docx")) {
+    return "docx";
+  }
+  if (file.type.startsWith("text/") || name.endsWith(".txt") || name.endsWith(".md")) return "text";
+  return null;
+}
+
+// Rebuild lines from positioned PDF text items so section headings stay on their own line
+async function pdfText(bytes: Uint8Array) {
+  const { items } = await extractTextItems(bytes);
+  return items
+    .map((page) => page.map((item) => item.str + (item.hasEOL ? "\n" : "")).join(""))
+    .join("\n\n");
+}
+
+async function docxText(bytes: Uint8Array) {
+  const { value } = await mammoth.extractRawText({ buffer: Buffer.from(bytes) });
+  return value;
+}
+
+export async function extractResume(
+  file: ResumeFile
+): Promise<{ ok: true; resume: StructuredResume } | { ok: false; error: string }> {
+  const source = resumeSourceOf(file);
+  if (!source) return { ok: false, error: "Unsupported file type. Upload a PDF, DOCX or plain-text resume." };
+  if (file.bytes.byteLength > MAX_RESUME_BYTES) return { ok: false, error: "Resume is larger than 5 MB." };
+
+  let text = "";
+  try {
+    if (source === "pdf") text = await pdfText(file.bytes);
+    else if (source === "docx") text = await docxText(file.bytes);
+    else text = new TextDecoder().decode(file.bytes);
+  } catch (err) {
+    console.error("Resume extraction error:", err);
+    return { ok: false, error: `Could not read this ${source.toUpperCase()} file.` };
+  }
+
+  const resume = detectSections(text, source);
+  if (resume.text.length < 20) {
+    return { ok: false, error: "No text found in this file (scanned PDFs aren't supported yet)." };
+  }
+  return { ok: true, resume };
+}
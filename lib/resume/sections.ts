@@ -0,0 +1,103 @@
+export type ResumeSectionName =
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects"
+  | "certifications"
+  | "other";
+
+export type ResumeSection = {
+  name: ResumeSectionName;
+  heading: string;
+  content: string;
+};
+
+export type ResumeSource = "pdf" | "docx" | "text";
+
+export type StructuredResume = {
+  source: ResumeSource;
+  text: string;
+  sections: ResumeSection[];
+  skills: string[];
+};
+
+// Heading synonyms seen on real resumes, matched against a whole (short) line
+const HEADINGS: Record<Exclude<ResumeSectionName, "other">, RegExp> = {
+  summary: /^(summary|professional summary|profile|about me|objective|career objective)$/i,
+  experience: /^(experience|work experience|professional experience|employment( history)?|work history|relevant experience)$/i,
+  education: /^(education|academic background|education & training|education and training)$/i,
+  skills: /^(skills|technical skills|core skills|skills & tools|skills and tools|core competencies|technologies|tools)$/i,
+  projects: /^(projects|personal projects|selected projects|key projects)$/i,
+  certifications: /^(certifications?|licenses?( & certifications)?|awards|awards & certifications)$/i,
+};
+
+const SECTION_ORDER: ResumeSectionName[] = ["summary", "experience", "projects", "skills", "education", "certifications", "other"];
+
+function headingOf(line: string): ResumeSectionName | null {
+  const cleaned = line.replace(/[:\-–—|•]+$/g, "").replace(/\s+/g, " ").trim();
+  if (!cleaned || cleaned.length > 40) return null;
+  for (const [name, re] of Object.entries(HEADINGS)) {
+    if (re.test(cleaned)) return name as ResumeSectionName;
+  }
+  return null;
+}
+
+function splitSkills(content: string) {
+  return content
+    .split(/[\n,;|•·]+/)
+    .map((s) => s.replace(/^[\s\-*]+|\s+$/g, "").replace(/^[A-Za-z &]+:\s*/, ""))
+    .filter((s) => s.length > 1 && s.length <= 40);
+}
+
+export function normalizeResumeText(text: string) {
+  return String(text || "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Splits resume text on recognised section headings. Anything before the first heading
+// (name, contact line) lands in "other".
+export function detectSections(text: string, source: ResumeSource): StructuredResume {
+  const normalized = normalizeResumeText(text);
+  const sections: ResumeSection[] = [];
+  let current: ResumeSection = { name: "other", heading: "", content: "" };
+
+  for (const line of normalized.split("\n")) {
+    const name = headingOf(line);
+    if (name) {
+      if (current.content.trim()) sections.push({ ...current, content: current.content.trim() });
+      current = { name, heading: line.trim(), content: "" };
+    } else {
+      current.content += line + "\n";
+    }
+  }
+  if (current.content.trim()) sections.push({ ...current, content: current.content.trim() });
+
+  const skills = Array.from(
+    new Set(sections.filter((s) => s.name === "skills").flatMap((s) => splitSkills(s.content)))
+  );
+
+  return { source, text: normalized, sections, skills };
+}
+
+// Labeled blocks for the blueprint prompt; falls back to the raw text when nothing was detected.
+export function resumeForPrompt(resume: StructuredResume) {
+  const named = resume.sections.filter((s) => s.name !== "other");
+  if (!named.length) return resume.text;
+
+  const ordered = [...resume.sections].sort((a, b) => SECTION_ORDER.indexOf(a.name) - SECTION_ORDER.indexOf(b.name));
+  return ordered.map((s) => `[${s.name.toUpperCase()}]\n${s.content}`).join("\n\n");
+}
+
+export function isStructuredResume(value: unknown): value is StructuredResume {
+  const r = value as StructuredResume | null;
+  return (
+    typeof r?.text === "string" &&
+    Array.isArray(r.sections) &&
+    r.sections.every((s) => typeof s?.name === "string" && typeof s?.content === "string") &&
+    Array.isArray(r.skills)
+  );
+}
@@ -0,0 +1,116 @@
+import { checkMath, formatNumber, mathCeiling } from "@/lib/case/math";
+import { describeMath, Exhibit, MathChecks } from "@/lib/case/types";
+import type { CaseScorecard } from "@/lib/interview/types";
+import { DimensionSignal, gradeByPatterns, RewriteSection } from "./patterns";
+
+const SIGNALS: Record<"structuring" | "hypothesis" | "quantitative" | "recommendation", DimensionSignal> = {
+  structuring: {
+    pattern:
+      /(first|second|third|bucket|framework|break (it|this|that) (down|into)|drivers?|segment|split|internal|external|revenue|costs?|demand|supply)/i,
+    strength: "You structured the problem into clear parts.",
+    gap: "Break the problem into 2–4 drivers or buckets before diving in.",
+  },
+  hypothesis: {
+    pattern: /(hypothes|i suspect|my guess|i'd expect|i would expect|likely|probably|to test|would confirm|rule out)/i,
+    strength: "You committed to a hypothesis.",
+    gap: "State a hypothesis early and what data would confirm or reject it.",
+  },
+  quantitative: {
+    pattern: /(\d|percent|estimate|assum|roughly|about|per (year|month|day|user|customer)|multipl|margin|times)/i,
+    strength: "You brought numbers into the reasoning.",
+    gap: "Put numbers on it: size the market, estimate the impact, show the math.",
+  },
+  recommendation: {
+    pattern: /(recommend|we should|i would (launch|go|suggest|advise)|next steps?|my advice|the decision|biggest risk)/i,
+    strength: "You landed on a recommendation.",
+    gap: "End with a clear recommendation, its main risk and the next step.",
+  },
+};
+
+const SECTIONS: RewriteSection[] = [
+  {
+    label: "Structure",
+    placeholder: "[ADD: 2–4 drivers or buckets you'd look at]",
+    bullet: "Open with your structure: the 2–4 buckets you'll look at.",
+  },
+  {
+    label: "Hypothesis",
+    pattern: SIGNALS.hypothesis.pattern,
+    placeholder: "[ADD: your leading hypothesis and how you'd test it]",
+    bullet: "Commit to a hypothesis and say how you'd test it.",
+  },
+  {
+    label: "Numbers",
+    pattern: SIGNALS.quantitative.pattern,
+    placeholder: "[ADD: a quick estimate with stated assumptions]",
+    bullet: "Do one quick calculation out loud with your assumptions.",
+  },
+  {
+    label: "Recommendation",
+    pattern: SIGNALS.recommendation.pattern,
+    placeholder: "[ADD: what you recommend, the main risk, the next step]",
+    bullet: "Close with a one-sentence recommendation and next step.",
+  },
+];
+
+// Lines of a scratchpad that count as buckets of a framework ("- Revenue", "1. Costs", "Demand: …")
+function frameworkLines(scratchpad: string): string[] {
+  return scratchpad
+    .split("\n")
+    .map((l) => l.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter((l) => l.length >= 3);
+}
+
+// Names the first wrong calculation and the right figure, or null when the math checks out
+export function mathGap(math: MathChecks): string | null {
+  const wrong = math.items.find((i) => !i.correct);
+  return wrong ? `Check your math: ${wrong.expression} — it comes to ${formatNumber(wrong.computed)}.` : null;
+}
+
+// Case rubric heuristic: structuring, hypothesis, quantitative reasoning, recommendation.
+// A scratchpad framework counts towards structuring, and checked math caps quantitative reasoning
+// at the share of calculations that were right.
+export function caseHeuristic(
+  candidateAnswer: string,
+  context: { scratchpad?: string; exhibits?: Exhibit[] } = {}
+): CaseScorecard {
+  const { scratchpad = "", exhibits = [] } = context;
+  const graded = gradeByPatterns(
+    candidateAnswer,
+    SIGNALS,
+    SECTIONS,
+    "Say what data you'd ask for first to confirm the recommendation."
+  );
+  const { scores } = graded;
+  let { strengths, gaps } = graded;
+
+  const buckets = frameworkLines(scratchpad);
+  if (buckets.length >= 2) {
+    scores.structuring = Math.max(scores.structuring, Math.min(25, 8 + buckets.length * 4));
+    strengths = strengths.filter((s) => s !== SIGNALS.structuring.strength);
+    gaps = gaps.filter((g) => g !== SIGNALS.structuring.gap);
+    strengths.unshift(`Your scratchpad laid out a ${buckets.length}-part framework.`);
+  }
+
+  const math = checkMath(`${candidateAnswer}\n${scratchpad}`, exhibits);
+  if (math.checked) {
+    const gap = mathGap(math);
+    scores.quantitative = gap
+      ? Math.min(scores.quantitative, mathCeiling(math))
+      : Math.max(scores.quantitative, Math.min(25, 13 + math.checked * 3 + math.fromExhibits * 2));
+    if (gap) gaps.unshift(gap);
+    else strengths.push(`${describeMath(math)}.`);
+  }
+  scores.overall = scores.structuring + scores.hypothesis + scores.quantitative + scores.recommendation;
+
+  return {
+    mode: "case",
+    source: "heuristic",
+    ...graded,
+    scores,
+    strengths,
+    gaps,
+    ...(math.checked || exhibits.length ? { math } : {}),
+    ...(scratchpad.trim() ? { scratchpad: scratchpad.trim() } : {}),
+  };
+}
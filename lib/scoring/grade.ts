@@ -0,0 +1,353 @@
+import { checkMath, formatNumber, mathCeiling } from "@/lib/case/math";
+import { describeExhibits, describeMath, Exhibit } from "@/lib/case/types";
+import { CodeRunSummary, describeRun } from "@/lib/coding/types";
+import { analyzeDelivery } from "@/lib/delivery/analyze";
+import type { AnswerTiming } from "@/lib/delivery/types";
+import { LlmProvider, safeJsonParse } from "@/lib/llm";
+import {
+  checkConsistency,
+  ClaimSources,
+  Consistency,
+  ConsistencyCheck,
+  consistencyGap,
+  CONSISTENCY_STATUSES,
+  flaggedChecks,
+  sourceExcerpt,
+  summarizeChecks,
+} from "@/lib/interview/consistency";
+import { InterviewStyle, levelBar } from "@/lib/interview/style";
+import type { Mode, Scorecard, StarCheck } from "@/lib/interview/types";
+import { behavioralHeuristic, starDetect } from "./behavioral";
+import { caseHeuristic, mathGap } from "./case";
+import { RUBRICS, scoreOf } from "./rubrics";
+import { technicalHeuristic, testCeiling } from "./technical";
+import { citedSpans, clamp, stringList } from "./text";
+
+// What an answer may come with besides its text
+export type AnswerContext = {
+  // coding answers: the solution's test results, run in the candidate's browser
+  codeRun?: CodeRunSummary;
+  // case answers: the candidate's framework notes and the exhibits they worked from
+  scratchpad?: string;
+  exhibits?: Exhibit[];
+  // the resume and job description the answer's claims are checked against
+  claimSources?: ClaimSources;
+  // spoken answers: timing measured in the browser while the candidate talked
+  timing?: AnswerTiming;
+};
+
+function rubricHeuristic(mode: Mode, candidateAnswer: string, context: AnswerContext): Scorecard {
+  if (mode === "technical") return technicalHeuristic(candidateAnswer, context.codeRun);
+  if (mode === "case") return caseHeuristic(candidateAnswer, context);
+  return behavioralHeuristic(candidateAnswer);
+}
+
+// Fast, reliable, no extra quota: the mode's own rubric scored from phrase signals, plus the
+// resume check when there is a resume and delivery when the answer was spoken.
+// Used whenever the model grader fails or returns something unusable.
+export function heuristicScorecard(mode: Mode, candidateAnswer: string, context: AnswerContext = {}): Scorecard {
+  const scorecard = rubricHeuristic(mode, candidateAnswer, context);
+  const delivery = context.timing ? analyzeDelivery(candidateAnswer, mode, context.timing) : null;
+  const consistency = context.claimSources ? checkConsistency(candidateAnswer, context.claimSources) : null;
+  const gap = consistency ? consistencyGap(consistency) : null;
+  return {
+    ...scorecard,
+    ...(delivery ? { delivery } : {}),
+    ...(consistency ? { consistency, gaps: gap ? [gap, ...scorecard.gaps] : scorecard.gaps } : {}),
+  };
+}
+
+export type GradeInput = AnswerContext & {
+  company: string;
+  mode: Mode;
+  // the level only shapes the wording of strengths and gaps; scores stay on the absolute scale
+  style?: InterviewStyle;
+  blueprint: { role_focus?: string[]; risk_gaps?: string[] };
+  transcript: string;
+  candidateAnswer: string;
+};
+
+type ModelGrade = {
+  star?: Record<string, { present?: boolean; evidence?: string }>;
+  scores?: Record<string, { score?: number; evidence?: string[] }>;
+  strengths?: string[];
+  gaps?: string[];
+  consistency?: { claim?: string; status?: string; source?: string; note?: string }[];
+};
+
+const STAR_SCHEMA = `
+  "star": {
+    "situation": { "present": true | false, "evidence": "exact quote or empty" },
+    "task": { "present": true | false, "evidence": "exact quote or empty" },
+    "action": { "present": true | false, "evidence": "exact quote or empty" },
+    "result": { "present": true | false, "evidence": "exact quote or empty" }
+  },`;
+
+// STAR presence comes from the model; evidence is its quote when it checks out, else the heuristic's wording
+function modelStar(value: ModelGrade["star"], candidateAnswer: string): StarCheck {
+  const fallbackStar = starDetect(candidateAnswer);
+  const missingAdvice = starDetect("");
+  const star = { ...fallbackStar };
+  for (const k of ["situation", "task", "action", "result"] as const) {
+    const item = value?.[k];
+    if (typeof item?.present !== "boolean") continue;
+    const quote = citedSpans([item.evidence ?? ""], candidateAnswer)[0];
+    star[k] = {
+      present: item.present,
+      evidence: !item.present
+        ? missingAdvice[k].evidence
+        : quote
+          ? `“${quote}”`
+          : fallbackStar[k].present
+            ? fallbackStar[k].evidence
+            : "Covered.",
+    };
+  }
+  return star;
+}
+
+const CONSISTENCY_SCHEMA = `
+  "consistency": [
+    {
+      "claim": "exact quote from the answer",
+      "status": ${CONSISTENCY_STATUSES.map((s) => `"${s}"`).join(" | ")},
+      "source": "the resume line it was checked against, or empty",
+      "note": "what doesn't match, in one sentence, or empty"
+    }
+  ],`;
+
+// The model's resume check, keeping only claims it quoted exactly. The heuristic's flags are kept
+// too: a number that doesn't match the resume is worth raising even when the model missed it.
+function modelConsistency(
+  value: ModelGrade["consistency"],
+  candidateAnswer: string,
+  heuristic: Consistency | undefined
+): Consistency | undefined {
+  const items: ConsistencyCheck[] = [];
+  for (const item of Array.isArray(value) ? value : []) {
+    const claim = citedSpans([item?.claim], candidateAnswer)[0];
+    const status = CONSISTENCY_STATUSES.find((s) => s === item?.status);
+    const note = typeof item?.note === "string" ? item.note.trim() : "";
+    if (!claim || !status || (status !== "consistent" && !note)) continue;
+    items.push({ claim, status, source: typeof item.source === "string" ? item.source.trim() : "", note });
+  }
+  if (!items.length) return heuristic;
+
+  const quoted = items.map((i) => i.claim.toLowerCase());
+  const missed = flaggedChecks(heuristic).filter((h) => !quoted.some((q) => h.claim.toLowerCase().includes(q)));
+  return summarizeChecks([...missed, ...items]);
+}
+
+// LLM-graded scorecard on the mode's rubric: evaluates the answer against the blueprint's
+// role_focus + risk_gaps and cites evidence spans from the answer. Returns null so the caller can fall back.
+export async function gradeWithModel(llm: LlmProvider, input: GradeInput): Promise<Scorecard | null> {
+  const {
+    company,
+    mode,
+    style,
+    blueprint,
+    transcript,
+    candidateAnswer,
+    codeRun,
+    scratchpad,
+    exhibits,
+    claimSources,
+    timing,
+  } = input;
+  const rubric = RUBRICS[mode];
+  const behavioral = mode === "behavioral";
+  const math = mode === "case" ? checkMath(`${candidateAnswer}\n${scratchpad ?? ""}`, exhibits) : null;
+  const resumeCheck = claimSources ? checkConsistency(candidateAnswer, claimSources) : null;
+
+  const prompt = `
+You are a strict interview grader for ${company}.
+Mode: ${mode.toUpperCase()}.
+
+Blueprint:
+- role_focus: ${(blueprint?.role_focus || []).join(", ")}
+- risk_gaps: ${(blueprint?.risk_gaps || []).join(", ")}
+
+Transcript so far:
+${transcript}
+
+Candidate's latest answer:
+"""
+${candidateAnswer}
+"""
+${codeRun ? `\nTest results for the submitted code: ${describeRun(codeRun)}.\ncorrectness MUST reflect these results; hidden tests are the edge cases.\n` : ""}${
+  exhibits?.length ? `\nExhibits the candidate was given:\n${describeExhibits(exhibits)}\n` : ""
+}${scratchpad?.trim() ? `\nCandidate's scratchpad (framework notes, not quotable):\n${scratchpad.trim()}\n` : ""}${
+  math?.checked
+    ? `\nArithmetic check: ${describeMath(math)}.${math.items
+        .filter((i) => !i.correct)
+        .map((i) => `\n- WRONG: ${i.expression} (actually ${formatNumber(i.computed)})`)
+        .join("")}\nquantitative MUST reflect any wrong math.\n`
+    : ""
+}${
+  resumeCheck && claimSources
+    ? `\nCandidate's resume:\n${sourceExcerpt(claimSources.resumeText)}\n\nJob description:\n${sourceExcerpt(claimSources.jobDescription)}\n${flaggedChecks(
+        resumeCheck
+      )
+        .map((f) => `- FLAGGED: ${f.note} (“${f.claim}”)\n`)
+        .join("")}
+Check every factual claim in the latest answer (numbers, titles, team size, tools) against the resume:
+contradiction = the resume says otherwise; inflated = a bigger number or scope than the resume;
+not_on_resume = a job-description skill the resume never mentions. Do NOT change the scores for these.\n`
+    : ""
+}
+Grade ONLY the latest answer on the ${rubric.name} rubric. Score each dimension 0–25:
+${rubric.dimensions.map((d) => `- ${d.key}: ${d.criterion}`).join("\n")}
+${behavioral ? "" : "\nDo NOT grade it as a story: there is no Situation/Task/Action/Result to look for.\n"}
+${style ? `Scores are absolute: do NOT adjust them for seniority. Write strengths and gaps against this level.\n${levelBar(style)}\n` : ""}Every evidence entry MUST be an exact, verbatim quote copied from the candidate's answer.
+Use an empty array when there is nothing to quote.
+
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{${behavioral ? STAR_SCHEMA : ""}
+  "scores": {
+${rubric.dimensions.map((d) => `    "${d.key}": { "score": 0, "evidence": ["exact quote"] }`).join(",\n")}
+  },
+  "strengths": ["specific strength tied to the answer"],
+  "gaps": ["specific gap tied to role_focus / risk_gaps"]${resumeCheck ? `,${CONSISTENCY_SCHEMA.slice(0, -1)}` : ""}
+}
+`.trim();
+
+  let raw = "";
+  try {
+    raw = (await llm.generate({ task: "grade_answer", prompt })).text;
+  } catch {
+    return null;
+  }
+
+  const parsed = safeJsonParse<ModelGrade>(raw);
+  if (!parsed.ok || !parsed.data?.scores) return null;
+
+  const scores: Record<string, number> = { overall: 0 };
+  const evidence: Record<string, string[]> = {};
+
+  for (const { key } of rubric.dimensions) {
+    const n = Number(parsed.data.scores[key]?.score);
+    if (!Number.isFinite(n)) return null;
+    scores[key] = clamp(Math.round(n), 0, 25);
+    evidence[key] = citedSpans(parsed.data.scores[key]?.evidence, candidateAnswer);
+  }
+  // the model can't grade failing code as correct
+  if (codeRun && mode === "technical") scores.correctness = Math.min(scores.correctness, testCeiling(codeRun));
+  // nor wrong arithmetic as sound quantitative reasoning
+  if (math?.checked) scores.quantitative = Math.min(scores.quantitative, mathCeiling(math));
+  scores.overall = clamp(
+    rubric.dimensions.reduce((sum, d) => sum + scores[d.key], 0),
+    0,
+    100
+  );
+
+  const heuristic = heuristicScorecard(mode, candidateAnswer, { codeRun, scratchpad, exhibits, claimSources, timing });
+  const strengths = stringList(parsed.data.strengths, 5);
+  const gaps = stringList(parsed.data.gaps, 5);
+  const consistency = resumeCheck ? modelConsistency(parsed.data.consistency, candidateAnswer, resumeCheck) : undefined;
+  // a wrong calculation or a claim the resume doesn't back is always worth calling out, whatever the model noticed
+  const slip = math ? mathGap(math) : null;
+  const mismatch = consistency ? consistencyGap(consistency) : null;
+  if (gaps.length) gaps.unshift(...[mismatch, slip].filter((g): g is string => !!g));
+
+  const graded = {
+    ...heuristic,
+    source: "model",
+    scores,
+    evidence,
+    strengths: strengths.length ? strengths : heuristic.strengths,
+    gaps: gaps.length ? gaps : heuristic.gaps,
+    ...(consistency ? { consistency } : {}),
+  } as Scorecard;
+
+  if (graded.mode === "behavioral") graded.star = modelStar(parsed.data.star, candidateAnswer);
+  return graded;
+}
+
+type RewriteInput = {
+  company: string;
+  mode: Mode;
+  candidateAnswer: string;
+  scorecard: Scorecard;
+};
+
+// What the rewrite should fix: missing STAR parts for behavioral, weak rubric dimensions otherwise
+function missingParts(scorecard: Scorecard): string {
+  if (scorecard.mode === "behavioral") {
+    const missing = (["situation", "task", "action", "result"] as const).filter((k) => !scorecard.star[k].present);
+    return `Missing STAR components: ${missing.join(", ") || "none"}`;
+  }
+  const weak = RUBRICS[scorecard.mode].dimensions
+    .filter((d) => (scoreOf(scorecard, d.key) ?? 0) < 13)
+    .map((d) => `${d.label} (${scoreOf(scorecard, d.key) ?? 0}/25)`);
+  return `Weak rubric dimensions: ${weak.join(", ") || "none"}`;
+}
+
+// Rewrites the candidate's own answer: keeps their facts, fills gaps with [ADD: …] placeholders,
+// and derives the bullets from what the grader found missing.
+export async function rewriteWithModel(
+  llm: LlmProvider,
+  input: RewriteInput
+): Promise<Scorecard["rewrite"] | null> {
+  const { company, mode, candidateAnswer, scorecard } = input;
+
+  const prompt = `
+You are an interview coach preparing a candidate for ${company}.
+Mode: ${mode.toUpperCase()}.
+
+Candidate's answer:
+"""
+${candidateAnswer}
+"""
+
+${missingParts(scorecard)}
+Grader gaps:
+- ${scorecard.gaps.join("\n- ") || "none"}
+
+Task:
+Rewrite THE CANDIDATE'S OWN ANSWER into a stronger version.
+- Keep every fact, name and number they gave. NEVER invent facts, metrics or outcomes.
+- Order it as ${RUBRICS[mode].outline.join(" / ")}, one labeled line each.
+- Where information is missing, insert a clearly marked placeholder like [ADD: ${mode === "behavioral" ? "outcome metric" : mode === "technical" ? "edge case you'd test" : "your estimate"}].
+- Then list 2–4 bullets to add next time, each derived from a specific missing piece above.
+
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{
+  "improvedAnswer": "rewritten answer with [ADD: …] placeholders",
+  "bulletsToAdd": ["specific thing to add next time"]
+}
+`.trim();
+
+  let raw = "";
+  try {
+    raw = (await llm.generate({ task: "rewrite_answer", prompt })).text;
+  } catch {
+    return null;
+  }
+
+  const parsed = safeJsonParse<{ improvedAnswer?: unknown; bulletsToAdd?: unknown }>(raw);
+  if (!parsed.ok) return null;
+
+  const improvedAnswer = typeof parsed.data.improvedAnswer === "string" ? parsed.data.improvedAnswer.trim() : "";
+  const bulletsToAdd = stringList(parsed.data.bulletsToAdd, 4);
+  if (!improvedAnswer || !bulletsToAdd.length) return null;
+
+  return { improvedAnswer, bulletsToAdd };
+}
+
+export async function scoreAnswer(llm: LlmProvider, input: GradeInput): Promise<Scorecard> {
+  const scorecard =
+    (await gradeWithModel(llm, input)) ?? heuristicScorecard(input.mode, input.candidateAnswer, input);
+
+  const rewrite = await rewriteWithModel(llm, {
+    company: input.company,
+    mode: input.mode,
+    candidateAnswer: input.candidateAnswer,
+    scorecard,
+  });
+
+  return rewrite ? { ...scorecard, rewrite } : scorecard;
+}
@@ -0,0 +1,4 @@
+export { gradeWithModel, heuristicScorecard, rewriteWithModel, scoreAnswer } from "./grade";
+export type { AnswerContext, GradeInput } from "./grade";
+export { starBuckets, starDetect } from "./behavioral";
+export { stringList } from "./text";
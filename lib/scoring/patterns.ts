@@ -0,0 +1,74 @@
+import { clamp, matchingSentences, splitSentences } from "./text";
+
+// Heuristic grading for rubrics without a STAR check: each dimension is a phrase pattern,
+// scored by how many of the answer's sentences show it.
+export type DimensionSignal = {
+  pattern: RegExp;
+  strength: string;
+  gap: string;
+};
+
+// One labeled line of the fallback rewrite. Sentences go to the first later section they
+// match; the first section takes everything else.
+export type RewriteSection = {
+  label: string;
+  pattern?: RegExp;
+  placeholder: string;
+  bullet: string;
+};
+
+export type PatternGrade<K extends string> = {
+  scores: { overall: number } & Record<K, number>;
+  evidence: Record<K, string[]>;
+  strengths: string[];
+  gaps: string[];
+  rewrite: { improvedAnswer: string; bulletsToAdd: string[] };
+};
+
+// too short to earn more than a middling score on any dimension
+const SHORT_ANSWER_WORDS = 25;
+
+export function gradeByPatterns<K extends string>(
+  candidateAnswer: string,
+  signals: Record<K, DimensionSignal>,
+  sections: RewriteSection[],
+  closingBullet: string
+): PatternGrade<K> {
+  const sentences = splitSentences(candidateAnswer);
+  const words = candidateAnswer.split(/\s+/).filter(Boolean).length;
+  const cap = words < SHORT_ANSWER_WORDS ? 12 : 25;
+
+  const keys = Object.keys(signals) as K[];
+  const scores = { overall: 0 } as { overall: number } & Record<K, number>;
+  const evidence = {} as Record<K, string[]>;
+  const strengths: string[] = [];
+  const gaps: string[] = [];
+
+  for (const k of keys) {
+    const hits = sentences.filter((s) => signals[k].pattern.test(s)).length;
+    scores[k] = clamp(Math.min(cap, 8 + hits * 7), 0, 25) as (typeof scores)[K];
+    evidence[k] = matchingSentences(sentences, signals[k].pattern);
+    if (hits) strengths.push(signals[k].strength);
+    else gaps.push(signals[k].gap);
+  }
+  scores.overall = clamp(
+    keys.reduce((sum, k) => sum + (scores[k] as number), 0),
+    0,
+    100
+  );
+
+  const buckets = sections.map(() => [] as string[]);
+  for (const sentence of sentences) {
+    const i = sections.findIndex((sec, j) => j > 0 && sec.pattern?.test(sentence));
+    buckets[i === -1 ? 0 : i].push(sentence);
+  }
+
+  const improvedAnswer = sections
+    .map((sec, i) => `${sec.label}: ${buckets[i].length ? buckets[i].join(" ") : sec.placeholder}`)
+    .join("\n");
+
+  const bulletsToAdd = sections.filter((_, i) => !buckets[i].length).map((sec) => sec.bullet);
+  if (!bulletsToAdd.length) bulletsToAdd.push(closingBullet);
+
+  return { scores, evidence, strengths, gaps, rewrite: { improvedAnswer, bulletsToAdd } };
+}
@@ -0,0 +1,165 @@
+import { Dimension, DIMENSIONS, Mode, Scorecard } from "@/lib/interview/types";
+
+export type RubricDimension = {
+  key: Dimension;
+  label: string;
+  // what the grader is told to look for
+  criterion: string;
+  // practice drill when this is the candidate's weakest dimension
+  drill: string;
+};
+
+export type Rubric = {
+  mode: Mode;
+  name: string;
+  // the order a strong answer follows; also the labeled lines of the rewrite
+  outline: string[];
+  dimensions: RubricDimension[];
+};
+
+export const DIMENSION_MAX = 25;
+
+export const RUBRICS: Record<Mode, Rubric> = {
+  behavioral: {
+    mode: "behavioral",
+    name: "STAR",
+    outline: ["Situation", "Task", "Action", "Result"],
+    dimensions: [
+      {
+        key: "clarity",
+        label: "Clarity",
+        criterion: "easy to follow, concise, direct",
+        drill: "Answer three past questions out loud in under 90 seconds each, leading with the headline.",
+      },
+      {
+        key: "structure",
+        label: "Structure",
+        criterion: "organized as Situation → Task → Action → Result",
+        drill: "Write two stories as four labeled lines (Situation / Task / Action / Result) before saying them.",
+      },
+      {
+        key: "impact",
+        label: "Impact",
+        criterion: "concrete, credible outcomes (a random number is NOT impact)",
+        drill: "For each story, find one number (%, $, time, users) and end the answer with it.",
+      },
+      {
+        key: "roleFit",
+        label: "Role fit",
+        criterion: "demonstrates the role_focus skills and addresses the risk_gaps",
+        drill: "Map each story to one role_focus skill and say that skill by name in the answer.",
+      },
+    ],
+  },
+  technical: {
+    mode: "technical",
+    name: "Technical",
+    outline: ["Approach", "Complexity & trade-offs", "Edge cases", "Decision"],
+    dimensions: [
+      {
+        key: "correctness",
+        label: "Correctness",
+        criterion: "the approach actually solves the problem; components and steps are sound",
+        drill: "Solve two practice problems end to end, then walk a concrete input through your design before presenting it.",
+      },
+      {
+        key: "tradeoffs",
+        label: "Complexity & trade-offs",
+        criterion: "states time/space cost or scaling limits and compares at least one alternative",
+        drill: "For every design, say its Big-O (or its bottleneck) and one alternative you rejected, with the reason.",
+      },
+      {
+        key: "edgeCases",
+        label: "Edge cases",
+        criterion: "covers empty/invalid input, limits, failures, concurrency and how to test them",
+        drill: "Before answering, list three ways it could break (bad input, load, failure) and how you'd handle each.",
+      },
+      {
+        key: "communication",
+        label: "Communication",
+        criterion: "explains the reasoning step by step, checks assumptions, easy to follow",
+        drill: "Practice thinking out loud: state assumptions first, then narrate each step in one sentence.",
+      },
+    ],
+  },
+  case: {
+    mode: "case",
+    name: "Case",
+    outline: ["Structure", "Hypothesis", "Numbers", "Recommendation"],
+    dimensions: [
+      {
+        key: "structuring",
+        label: "Structuring",
+        criterion: "breaks the problem into a clear, MECE set of drivers or buckets",
+        drill: "Open three practice cases with a 3-bucket issue tree before touching any numbers.",
+      },
+      {
+        key: "hypothesis",
+        label: "Hypothesis",
+        criterion: "commits to a testable hypothesis early and says what would confirm or reject it",
+        drill: "After structuring, say “My hypothesis is … and I'd check it by …” within the first minute.",
+      },
+      {
+        key: "quantitative",
+        label: "Quantitative reasoning",
+        criterion: "uses numbers: estimates, sizing, arithmetic done correctly with stated assumptions",
+        drill: "Do two market-sizing drills a day, saying every assumption and each multiplication out loud.",
+      },
+      {
+        key: "recommendation",
+        label: "Recommendation",
+        criterion: "ends with a clear recommendation, its main risk and next steps",
+        drill: "Close every case with one sentence: recommendation, the biggest risk, and the next step.",
+      },
+    ],
+  },
+};
+
+// The rubric a scorecard was graded on. Technical and case scorecards saved before
+// per-mode rubrics existed were graded on the behavioral one, so they render with it.
+export function rubricFor(scorecard: Pick<Scorecard, "mode" | "scores">): Rubric {
+  const rubric = RUBRICS[scorecard.mode] ?? RUBRICS.behavioral;
+  const scores = scorecard.scores as Record<string, number>;
+  return rubric.dimensions.every((d) => typeof scores[d.key] === "number") ? rubric : RUBRICS.behavioral;
+}
+
+export function scoreOf(scorecard: Pick<Scorecard, "scores">, key: Dimension): number | null {
+  const n = (scorecard.scores as Record<string, number>)[key];
+  return typeof n === "number" ? n : null;
+}
+
+export function evidenceOf(scorecard: Scorecard, key: Dimension): string[] {
+  return (scorecard.evidence as Record<string, string[]> | undefined)?.[key] ?? [];
+}
+
+export function findDimension(key: Dimension): RubricDimension | undefined {
+  for (const mode of Object.keys(DIMENSIONS) as Mode[]) {
+    const found = RUBRICS[mode].dimensions.find((d) => d.key === key);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function dimensionLabel(key: Dimension): string {
+  return findDimension(key)?.label ?? key;
+}
+
+// One-line coverage for the coach panel, e.g. "S:Y T:N A:Y R:Y", "Tests 5/6 · Correctness:Y Edge cases:N …"
+// or "Math 2/3 · Structuring:Y …".
+// A rubric dimension counts as covered at 13/25 or more.
+export function coverageLine(scorecard: Scorecard): string {
+  if (scorecard.mode === "behavioral" && "star" in scorecard && scorecard.star) {
+    const { star } = scorecard;
+    return `S:${star.situation.present ? "Y" : "N"} T:${star.task.present ? "Y" : "N"} A:${star.action.present ? "Y" : "N"} R:${star.result.present ? "Y" : "N"}`;
+  }
+  const line = rubricFor(scorecard)
+    .dimensions.map((d) => `${d.label}:${(scoreOf(scorecard, d.key) ?? 0) >= 13 ? "Y" : "N"}`)
+    .join(" ");
+  if (scorecard.mode === "technical" && scorecard.tests) {
+    return `Tests ${scorecard.tests.passed}/${scorecard.tests.total} · ${line}`;
+  }
+  if (scorecard.mode === "case" && scorecard.math?.checked) {
+    return `Math ${scorecard.math.correct}/${scorecard.math.checked} · ${line}`;
+  }
+  return line;
+}
@@ -0,0 +1,85 @@
+import { CodeRunSummary, describeRun } from "@/lib/coding/types";
+import type { TechnicalScorecard } from "@/lib/interview/types";
+import { DimensionSignal, gradeByPatterns, RewriteSection } from "./patterns";
+
+const SIGNALS: Record<"correctness" | "tradeoffs" | "edgeCases" | "communication", DimensionSignal> = {
+  correctness: {
+    pattern:
+      /(i would|i'd|we would|first|then|step|store|cache|queue|hash|index|shard|replica|partition|algorithm|database|service|endpoint|api|sort|tree|graph|lookup)/i,
+    strength: "You laid out a concrete approach.",
+    gap: "Describe the actual approach: components, data structures and the steps they take.",
+  },
+  tradeoffs: {
+    pattern:
+      /(o\([^)]*\)|complexity|trade-?off|instead of|versus|vs\.?|downside|alternative|latency|throughput|memory|bottleneck|scal)/i,
+    strength: "You weighed cost, complexity or alternatives.",
+    gap: "State the time/space cost or scaling limit and compare at least one alternative.",
+  },
+  edgeCases: {
+    pattern:
+      /(edge case|empty|null|invalid|overflow|duplicate|timeout|retry|fail|outage|concurren|race|boundary|limit|test)/i,
+    strength: "You covered edge cases or failure modes.",
+    gap: "Name the edge cases and failure modes (bad input, load, outages) and how you'd handle them.",
+  },
+  communication: {
+    pattern: /(assum|clarif|because|so that|which means|the reason|in summary|overall|to recap)/i,
+    strength: "You explained your reasoning, not just the answer.",
+    gap: "Say your assumptions up front and explain why each step is there.",
+  },
+};
+
+const SECTIONS: RewriteSection[] = [
+  {
+    label: "Approach",
+    placeholder: "[ADD: your approach in 1–2 sentences]",
+    bullet: "Lead with the approach in one or two sentences before the details.",
+  },
+  {
+    label: "Complexity & trade-offs",
+    pattern: SIGNALS.tradeoffs.pattern,
+    placeholder: "[ADD: Big-O or bottleneck, and one alternative you rejected]",
+    bullet: "Name the cost (Big-O, latency, memory) and one alternative you didn't pick.",
+  },
+  {
+    label: "Edge cases",
+    pattern: SIGNALS.edgeCases.pattern,
+    placeholder: "[ADD: 2–3 edge cases or failures and how you'd handle them]",
+    bullet: "List the edge cases you'd test and how the design handles failure.",
+  },
+  {
+    label: "Decision",
+    pattern: /(i would choose|i'd choose|i'd go with|i would go with|in summary|overall|so i would)/i,
+    placeholder: "[ADD: what you'd choose and why, in one sentence]",
+    bullet: "Finish with the option you'd ship and the reason.",
+  },
+];
+
+// Correctness a coding answer can earn at most: the share of tests it passed
+export function testCeiling(run: CodeRunSummary): number {
+  return run.error || !run.total ? 0 : Math.round((25 * run.passed) / run.total);
+}
+
+// Technical rubric heuristic: correctness, complexity/trade-offs, edge cases, communication.
+// For a coding answer the tests decide correctness, and the hidden tests (the edge cases) decide edge cases.
+export function technicalHeuristic(candidateAnswer: string, run?: CodeRunSummary): TechnicalScorecard {
+  const graded = gradeByPatterns(
+    candidateAnswer,
+    SIGNALS,
+    SECTIONS,
+    "Say how you'd validate it: tests, metrics or a staged rollout."
+  );
+  if (!run) return { mode: "technical", source: "heuristic", ...graded };
+
+  const { scores } = graded;
+  scores.correctness = testCeiling(run);
+  if (run.hiddenTotal && !run.error) scores.edgeCases = Math.round((25 * run.hiddenPassed) / run.hiddenTotal);
+  scores.overall = scores.correctness + scores.tradeoffs + scores.edgeCases + scores.communication;
+
+  const allPassed = !run.error && run.passed === run.total;
+  const strengths = graded.strengths.filter((s) => s !== SIGNALS.correctness.strength && s !== SIGNALS.edgeCases.strength);
+  const gaps = graded.gaps.filter((g) => g !== SIGNALS.correctness.gap && g !== SIGNALS.edgeCases.gap);
+  if (allPassed) strengths.unshift(`All ${run.total} tests passed.`);
+  else gaps.unshift(`${describeRun(run)}: find and fix the failing cases.`);
+
+  return { mode: "technical", source: "heuristic", ...graded, scores, strengths, gaps, tests: run };
+}
@@ -0,0 +1,39 @@
+export function clamp(n: number, a: number, b: number) {
+  return Math.max(a, Math.min(b, n));
+}
+
+export function splitSentences(text: string) {
+  return String(text || "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .filter(Boolean);
+}
+
+function normalizeSpan(s: string) {
+  return s.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Keep only quotes that actually appear in the answer — the model likes to paraphrase.
+export function citedSpans(value: unknown, answer: string): string[] {
+  if (!Array.isArray(value)) return [];
+  const haystack = normalizeSpan(answer);
+  return value
+    .filter((v): v is string => typeof v === "string" && v.trim().length > 0)
+    .map((v) => v.trim().replace(/^["“]|["”]$/g, ""))
+    .filter((v) => haystack.includes(normalizeSpan(v)))
+    .slice(0, 3);
+}
+
+export function stringList(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === "string" && v.trim().length > 0)
+    .map((v) => v.trim())
+    .slice(0, max);
+}
+
+// Sentences that match a pattern, quoted verbatim — heuristic evidence for a dimension
+export function matchingSentences(sentences: string[], pattern: RegExp, max = 2): string[] {
+  return sentences.filter((s) => pattern.test(s)).slice(0, max);
+}
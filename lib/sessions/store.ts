@@ -0,0 +1,35 @@
+import path from "path";
+import { isRecordId, JsonFileStore } from "@/lib/json-store";
+import { InterviewSession, NewSession, SessionUpdate } from "./types";
+
+export interface SessionStore {
+  list(): Promise<InterviewSession[]>;
+  get(id: string): Promise<InterviewSession | null>;
+  create(input: NewSession): Promise<InterviewSession>;
+  update(id: string, patch: SessionUpdate): Promise<InterviewSession | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export function isSessionId(id: string) {
+  return isRecordId(id);
+}
+
+// One JSON file per session under SESSIONS_DIR (default .data/sessions).
+export class FileSessionStore extends JsonFileStore<InterviewSession> implements SessionStore {
+  constructor(dir: string) {
+    super(dir, "session");
+  }
+
+  create(input: NewSession): Promise<InterviewSession> {
+    return this.insert({ ...input, turns: [], scorecards: [] });
+  }
+}
+
+let store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = new FileSessionStore(process.env.SESSIONS_DIR || path.join(process.cwd(), ".data", "sessions"));
+  }
+  return store;
+}
@@ -0,0 +1,123 @@
+import type { Blueprint } from "@/lib/blueprint";
+import type { ConversationState } from "@/lib/interview/memory";
+import type { InterviewPlan, PlanProgress } from "@/lib/interview/plan";
+import type { InterviewReport } from "@/lib/interview/report";
+import type { InterviewStyle } from "@/lib/interview/style";
+import { Coach, DIMENSIONS, MODES, Scorecard, SessionMode, StarCheck, Turn } from "@/lib/interview/types";
+
+// One graded answer; turnIndex points at the candidate turn it scored.
+export type ScoredAnswer = {
+  turnIndex: number;
+  scorecard: Scorecard;
+  coach?: Coach;
+  answeredAt?: string;
+};
+
+export type InterviewSession = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  company: string;
+  resumeText: string;
+  jobDescription: string;
+  blueprint: Blueprint;
+  mode: SessionMode;
+  // interviewer persona and level; sessions from before personas have none
+  style?: InterviewStyle;
+  turns: Turn[];
+  scorecards: ScoredAnswer[];
+  // set by the "start" step; sessions from before interview plans have neither
+  plan?: InterviewPlan;
+  progress?: PlanProgress;
+  // set by the "finish" step; absent while the interview is still going
+  report?: InterviewReport;
+  // the interview route's memory of the conversation; written only by the server
+  conversation?: ConversationState;
+};
+
+export type NewSession = Pick<InterviewSession, "company" | "resumeText" | "jobDescription" | "blueprint" | "mode" | "style">;
+
+// Fields that may be overwritten as the session progresses (conversation only by the interview route)
+export type SessionUpdate = Partial<
+  Pick<InterviewSession, "mode" | "style" | "turns" | "scorecards" | "plan" | "progress" | "report" | "conversation">
+>;
+
+export type SessionSummary = Pick<InterviewSession, "id" | "createdAt" | "updatedAt" | "company" | "mode" | "style"> & {
+  likelyInterviewType: Blueprint["likely_interview_type"];
+  turnCount: number;
+  answerCount: number;
+  lastOverall: number | null;
+  finished: boolean;
+};
+
+export function isTurn(t: unknown): t is Turn {
+  const turn = t as Turn | null;
+  return (turn?.role === "interviewer" || turn?.role === "candidate") && typeof turn.content === "string";
+}
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function isStarCheck(v: unknown): v is StarCheck {
+  const star = v as Record<string, { present?: unknown; evidence?: unknown }> | null;
+  return (["situation", "task", "action", "result"] as const).every(
+    (k) => typeof star?.[k]?.present === "boolean" && typeof star[k].evidence === "string"
+  );
+}
+
+// Everything the report, progress and export code read off a scorecard: the mode's own rubric
+// dimensions, STAR on behavioral answers, and the lists they print. Returns the first field
+// that's missing or malformed, or null when the scorecard is sound.
+export function scorecardProblem(value: unknown): string | null {
+  const s = value as Scorecard | null;
+  if (!s || typeof s !== "object") return "scorecard";
+  if (!MODES.includes(s.mode)) return "mode";
+
+  const dimensions: readonly string[] = DIMENSIONS[s.mode];
+  const scores = s.scores as Record<string, unknown> | undefined;
+  const evidence = s.evidence as Record<string, unknown> | undefined;
+  const checks: [string, () => boolean][] = [
+    ["source", () => s.source === "model" || s.source === "heuristic"],
+    ["scores.overall", () => typeof scores?.overall === "number"],
+    ...dimensions.map((d): [string, () => boolean] => [`scores.${d}`, () => typeof scores?.[d] === "number"]),
+    ...dimensions.map((d): [string, () => boolean] => [`evidence.${d}`, () => isStringList(evidence?.[d])]),
+    ["strengths", () => isStringList(s.strengths)],
+    ["gaps", () => isStringList(s.gaps)],
+    ["rewrite.improvedAnswer", () => typeof s.rewrite?.improvedAnswer === "string"],
+    ["rewrite.bulletsToAdd", () => isStringList(s.rewrite?.bulletsToAdd)],
+    ["star", () => s.mode !== "behavioral" || isStarCheck(s.star)],
+    ["math.items", () => s.mode !== "case" || s.math === undefined || Array.isArray(s.math?.items)],
+    ["consistency.items", () => s.consistency === undefined || Array.isArray(s.consistency?.items)],
+    ["delivery.flags", () => s.delivery === undefined || isStringList(s.delivery?.flags)],
+  ];
+  return checks.find(([, ok]) => !ok())?.[0] ?? null;
+}
+
+export function isScorecard(value: unknown): value is Scorecard {
+  return scorecardProblem(value) === null;
+}
+
+// With the transcript, turnIndex must also point at one of the candidate's turns
+export function isScoredAnswer(s: unknown, turns?: Turn[]): s is ScoredAnswer {
+  const item = s as ScoredAnswer | null;
+  if (!Number.isInteger(item?.turnIndex) || !isScorecard(item?.scorecard)) return false;
+  return !turns || turns[item!.turnIndex]?.role === "candidate";
+}
+
+export function summarizeSession(s: InterviewSession): SessionSummary {
+  const last = s.scorecards[s.scorecards.length - 1];
+  return {
+    id: s.id,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+    company: s.company,
+    mode: s.mode,
+    ...(s.style ? { style: s.style } : {}),
+    likelyInterviewType: s.blueprint.likely_interview_type,
+    turnCount: s.turns.length,
+    answerCount: s.turns.filter((t) => t.role === "candidate").length,
+    lastOverall: last ? last.scorecard.scores.overall : null,
+    finished: Boolean(s.report),
+  };
+}
@@ -0,0 +1,53 @@
+// Minimal server-sent events framing shared by API routes (encode) and pages (decode).
+
+export type SseEvent = {
+  event: string;
+  data: unknown;
+};
+
+export function encodeSse(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseFrame(frame: string): SseEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  if (!data.length) return null;
+
+  try {
+    return { event, data: JSON.parse(data.join("\n")) };
+  } catch {
+    return { event, data: data.join("\n") };
+  }
+}
+
+// Reads a text/event-stream response body and calls onEvent per frame, in order.
+export async function readSse(res: Response, onEvent: (e: SseEvent) => void) {
+  if (!res.body) throw new Error("Response has no body to stream");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let sep = buffer.indexOf("\n\n");
+    while (sep !== -1) {
+      const e = parseFrame(buffer.slice(0, sep));
+      buffer = buffer.slice(sep + 2);
+      if (e) onEvent(e);
+      sep = buffer.indexOf("\n\n");
+    }
+  }
+
+  const tail = parseFrame(buffer.trim());
+  if (tail) onEvent(tail);
+}
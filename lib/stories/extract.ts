@@ -0,0 +1,131 @@
+import { keywords } from "@/lib/interview/report";
+import { LlmProvider, safeJsonParse } from "@/lib/llm";
+import { starBuckets, starDetect } from "@/lib/scoring";
+import type { InterviewSession } from "@/lib/sessions/types";
+import { metricsOf, storyText, tagsOf } from "./fit";
+import { NewStory, STORY_TAGS, Story, StorySource, validateStory } from "./types";
+
+// An answer that reads like a complete story and isn't in the bank yet
+export type StoryCandidate = {
+  answer: string;
+  source: StorySource;
+};
+
+const MIN_WORDS = 40;
+// Situation, Task, Action, Result: an answer missing more than one isn't a story yet
+const MIN_STAR_PARTS = 3;
+// an answer sharing this much of its vocabulary with a banked story is that story retold
+const RETELLING_OVERLAP = 0.5;
+const TITLE_WORDS = 8;
+
+function isRetelling(answer: string, told: string) {
+  const a = keywords(answer);
+  const b = keywords(told);
+  if (!a.size || !b.size) return false;
+  const shared = [...a].filter((w) => b.has(w)).length;
+  return shared / Math.min(a.size, b.size) >= RETELLING_OVERLAP;
+}
+
+// The bank already holds this answer, or the same story from another telling
+export function isBanked(c: StoryCandidate, bank: Story[]) {
+  return bank.some(
+    (s) =>
+      (s.source?.sessionId === c.source.sessionId && s.source.turnIndex === c.source.turnIndex) ||
+      isRetelling(c.answer, storyText(s))
+  );
+}
+
+// Behavioral answers across sessions that aren't already banked, oldest first so a story
+// told several times is banked from its first telling
+export function storyCandidates(sessions: InterviewSession[], bank: Story[]): StoryCandidate[] {
+  const candidates: StoryCandidate[] = [];
+  const banked = (c: StoryCandidate) =>
+    isBanked(c, bank) || candidates.some((other) => isRetelling(c.answer, other.answer));
+
+  for (const session of [...sessions].sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    for (const { turnIndex, scorecard } of session.scorecards) {
+      const turn = session.turns[turnIndex];
+      if (scorecard.mode !== "behavioral" || turn?.role !== "candidate") continue;
+
+      const answer = turn.content.trim();
+      const star = scorecard.star ?? starDetect(answer);
+      const parts = Object.values(star).filter((p) => p.present).length;
+      if (answer.split(/\s+/).length < MIN_WORDS || parts < MIN_STAR_PARTS) continue;
+
+      const question =
+        [...session.turns.slice(0, turnIndex)].reverse().find((t) => t.role === "interviewer")?.content ?? "";
+      const candidate = { answer, source: { sessionId: session.id, turnIndex, company: session.company, question } };
+      if (!banked(candidate)) candidates.push(candidate);
+    }
+  }
+  return candidates;
+}
+
+function titleOf(text: string) {
+  const words = text.replace(/^(so|well|sure|yes|okay)[,.]?\s+/i, "").split(/\s+/);
+  return words.length > TITLE_WORDS ? `${words.slice(0, TITLE_WORDS).join(" ")}…` : words.join(" ");
+}
+
+// The answer's own sentences sorted into STAR, tagged and with its numbers pulled out
+export function heuristicStory(candidate: StoryCandidate): NewStory {
+  const buckets = starBuckets(candidate.answer);
+  const result = buckets.result.join(" ");
+  return {
+    title: titleOf(buckets.action[0] ?? buckets.situation[0] ?? candidate.answer),
+    situation: buckets.situation.join(" "),
+    task: buckets.task.join(" "),
+    action: buckets.action.join(" "),
+    result,
+    tags: tagsOf(`${candidate.source.question} ${candidate.answer}`),
+    metrics: metricsOf(result || candidate.answer),
+    source: candidate.source,
+  };
+}
+
+// The model condenses the answer into a STAR story in the candidate's own words; falls back to the heuristic
+export async function extractStory(llm: LlmProvider, candidate: StoryCandidate): Promise<NewStory> {
+  const prompt = `
+You are building a candidate's behavioral story bank from their practice interview answers.
+
+Question they were answering:
+${candidate.source.question || "(not recorded)"}
+
+Their answer:
+"""
+${candidate.answer}
+"""
+
+Condense the answer into one reusable STAR story, in the candidate's own words.
+- NEVER invent facts, names or numbers. Leave a part empty if the answer doesn't cover it.
+- title: 3–8 words naming the story, e.g. "Billing migration under a deadline".
+- tags: only those that apply, from ${STORY_TAGS.join(", ")}.
+- metrics: every number that shows the result, as short phrases copied from the answer.
+
+OUTPUT JSON ONLY. No markdown. No commentary.
+
+SCHEMA (exact):
+{
+  "title": "...",
+  "situation": "...",
+  "task": "...",
+  "action": "...",
+  "result": "...",
+  "tags": [${STORY_TAGS.map((t) => `"${t}"`).join(", ")}],
+  "metrics": ["..."]
+}
+`.trim();
+
+  try {
+    const { text } = await llm.generate({ task: "extract_story", prompt });
+    const parsed = safeJsonParse<Record<string, unknown>>(text);
+    if (parsed.ok) {
+      // drop tags outside the list rather than the whole story
+      const tags = Array.isArray(parsed.data.tags) ? parsed.data.tags.filter((t) => STORY_TAGS.includes(t)) : [];
+      const checked = validateStory({ ...parsed.data, tags, source: candidate.source });
+      if (checked.ok) return checked.story as NewStory;
+    }
+  } catch {
+    // fall through to the heuristic
+  }
+  return heuristicStory(candidate);
+}
@@ -0,0 +1,100 @@
+import type { Blueprint } from "@/lib/blueprint";
+import { keywords } from "@/lib/interview/report";
+import { Story, StoryTag, STORY_TAGS } from "./types";
+
+// Which stories answer which blueprint questions, and which competencies have no story yet.
+// Runs in the browser: the story bank page recomputes it as stories are edited.
+
+const TAG_PATTERNS: Record<StoryTag, RegExp> = {
+  leadership: /(\bled\b|\blead(ing|er)?\b|mentor|manag|took charge|took ownership|drove|rallied|influenc|without authority)/i,
+  conflict: /(disagree|conflict|push(ed)? back|tension|difficult (stakeholder|person|coworker|teammate)|convinc|persuad|compromis|argu)/i,
+  failure: /(fail|mistake|went wrong|missed|didn't work|did not work|setback|lesson|learned|post-?mortem)/i,
+  impact: /(\d+\s?%|\$\s?\d|increas|reduc|saved|grew|improv|revenue|proud|achiev|accomplish|impact)/i,
+};
+
+// a clause with a number in it, short enough to say in one breath
+const METRIC_CLAUSE = /\d/;
+const MAX_METRIC_CHARS = 80;
+const MAX_FITS = 3;
+
+export function tagsOf(text: string): StoryTag[] {
+  return STORY_TAGS.filter((t) => TAG_PATTERNS[t].test(text));
+}
+
+// "we cut p95 latency by 40%" out of "After the migration, we cut p95 latency by 40%, and on-call pages halved."
+export function metricsOf(text: string, max = 4): string[] {
+  return text
+    .split(/[.;!?]\s+|,\s+|\s+and\s+/)
+    .map((c) => c.trim().replace(/[.,;]$/, ""))
+    .filter((c) => METRIC_CLAUSE.test(c) && c.length <= MAX_METRIC_CHARS && !/^\d+$/.test(c))
+    .slice(0, max);
+}
+
+export function storyText(story: Pick<Story, "title" | "situation" | "task" | "action" | "result">): string {
+  return [story.title, story.situation, story.task, story.action, story.result].join(" ");
+}
+
+export type StoryFit = {
+  story: Story;
+  score: number;
+  // why it fits, e.g. ["conflict", "mentions stakeholder, priorities"]
+  reasons: string[];
+};
+
+export type QuestionFit = {
+  question: string;
+  fits: StoryFit[];
+};
+
+export type StoryCoverage = {
+  questions: QuestionFit[];
+  // tags no story carries yet
+  missingTags: StoryTag[];
+  // blueprint role_focus skills no story speaks to
+  missingFocus: string[];
+};
+
+// Shared tags weigh most; shared keywords and, for impact questions, a story with numbers add to it
+function fitOf(story: Story, question: string): StoryFit {
+  const wanted = tagsOf(question);
+  const sharedTags = wanted.filter((t) => story.tags.includes(t));
+  const words = keywords(storyText(story));
+  const sharedWords = [...keywords(question)].filter((w) => words.has(w)).slice(0, 3);
+  const numbers = wanted.includes("impact") && story.metrics.length > 0;
+
+  return {
+    story,
+    score: sharedTags.length * 3 + sharedWords.length + (numbers ? 1 : 0),
+    reasons: [
+      ...sharedTags,
+      ...(sharedWords.length ? [`mentions ${sharedWords.join(", ")}`] : []),
+      ...(numbers ? ["has metrics"] : []),
+    ],
+  };
+}
+
+export function fitStories(
+  stories: Story[],
+  blueprint: Pick<Blueprint, "sample_questions" | "role_focus">
+): StoryCoverage {
+  const questions = blueprint.sample_questions
+    .filter((q) => q.type === "behavioral")
+    .map(({ question }) => ({
+      question,
+      fits: stories
+        .map((s) => fitOf(s, question))
+        .filter((f) => f.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_FITS),
+    }));
+
+  const told = stories.map((s) => keywords(storyText(s)));
+  return {
+    questions,
+    missingTags: STORY_TAGS.filter((t) => !stories.some((s) => s.tags.includes(t))),
+    missingFocus: blueprint.role_focus.filter((focus) => {
+      const words = [...keywords(focus)];
+      return !told.some((k) => words.some((w) => k.has(w)));
+    }),
+  };
+}
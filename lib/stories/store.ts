@@ -0,0 +1,37 @@
+import path from "path";
+import { JsonFileStore } from "@/lib/json-store";
+import { NewStory, Story, StoryUpdate } from "./types";
+
+export interface StoryStore {
+  list(): Promise<Story[]>;
+  get(id: string): Promise<Story | null>;
+  create(input: NewStory): Promise<Story>;
+  // null when `banked` finds the story already in the bank
+  createUnless(input: NewStory, banked: (bank: Story[]) => boolean): Promise<Story | null>;
+  update(id: string, patch: StoryUpdate): Promise<Story | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// One JSON file per story under STORIES_DIR (default .data/stories).
+export class FileStoryStore extends JsonFileStore<Story> implements StoryStore {
+  constructor(dir: string) {
+    super(dir, "story");
+  }
+
+  create(input: NewStory): Promise<Story> {
+    return this.insert(input);
+  }
+
+  createUnless(input: NewStory, banked: (bank: Story[]) => boolean): Promise<Story | null> {
+    return this.insertUnless(input, banked);
+  }
+}
+
+let store: StoryStore | null = null;
+
+export function getStoryStore(): StoryStore {
+  if (!store) {
+    store = new FileStoryStore(process.env.STORIES_DIR || path.join(process.cwd(), ".data", "stories"));
+  }
+  return store;
+}
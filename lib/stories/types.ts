@@ -0,0 +1,108 @@
+import type { FieldError } from "@/lib/blueprint";
+
+export type StoryTag = "leadership" | "conflict" | "failure" | "impact";
+
+export const STORY_TAGS: StoryTag[] = ["leadership", "conflict", "failure", "impact"];
+
+// A reusable behavioral story, pulled from a past answer or written by hand, kept in STAR form
+export type Story = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  title: string;
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  tags: StoryTag[];
+  // the numbers that make it land, e.g. "cut p95 latency 40%"
+  metrics: string[];
+  // the answer it was extracted from; hand-written stories have none
+  source?: StorySource;
+};
+
+export type StorySource = {
+  sessionId: string;
+  // candidate turn in that session
+  turnIndex: number;
+  company: string;
+  question: string;
+};
+
+export type NewStory = Omit<Story, "id" | "createdAt" | "updatedAt">;
+
+// Fields the user may edit; the source stays as extracted
+export type StoryUpdate = Partial<Omit<NewStory, "source">>;
+
+const MAX_FIELD_CHARS = 2000;
+const MAX_TITLE_CHARS = 120;
+const MAX_METRICS = 6;
+
+export function isStoryTag(value: unknown): value is StoryTag {
+  return STORY_TAGS.includes(value as StoryTag);
+}
+
+function isStorySource(value: unknown): value is StorySource {
+  const s = value as StorySource | null;
+  return (
+    typeof s?.sessionId === "string" &&
+    Number.isInteger(s.turnIndex) &&
+    typeof s.company === "string" &&
+    typeof s.question === "string"
+  );
+}
+
+// Checks a story from the editor (or an extraction) field by field. `partial` accepts a StoryUpdate:
+// only the fields present are checked. Returns a trimmed copy when valid.
+export function validateStory(
+  data: unknown,
+  partial = false
+): { ok: true; story: StoryUpdate & { source?: StorySource } } | { ok: false; errors: FieldError[] } {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { ok: false, errors: [{ field: "$", message: "must be a JSON object" }] };
+  }
+  const d = data as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const story: StoryUpdate & { source?: StorySource } = {};
+
+  if (d.title !== undefined || !partial) {
+    if (typeof d.title !== "string" || !d.title.trim() || d.title.length > MAX_TITLE_CHARS) {
+      errors.push({ field: "title", message: `must be a non-empty string of at most ${MAX_TITLE_CHARS} characters` });
+    } else story.title = d.title.trim();
+  }
+
+  for (const field of ["situation", "task", "action", "result"] as const) {
+    if (d[field] === undefined && partial) continue;
+    const value = d[field] ?? "";
+    if (typeof value !== "string" || value.length > MAX_FIELD_CHARS) {
+      errors.push({ field, message: `must be a string of at most ${MAX_FIELD_CHARS} characters` });
+    } else story[field] = value.trim();
+  }
+
+  if (d.tags !== undefined || !partial) {
+    const tags = d.tags ?? [];
+    if (!Array.isArray(tags) || !tags.every(isStoryTag)) {
+      errors.push({ field: "tags", message: `must be an array of ${STORY_TAGS.join(" | ")}` });
+    } else story.tags = STORY_TAGS.filter((t) => tags.includes(t));
+  }
+
+  if (d.metrics !== undefined || !partial) {
+    const metrics = d.metrics ?? [];
+    if (!Array.isArray(metrics) || !metrics.every((m) => typeof m === "string") || metrics.length > MAX_METRICS) {
+      errors.push({ field: "metrics", message: `must be an array of at most ${MAX_METRICS} strings` });
+    } else story.metrics = metrics.map((m) => m.trim()).filter(Boolean);
+  }
+
+  if (d.source !== undefined) {
+    if (partial) errors.push({ field: "source", message: "can't be changed" });
+    else if (!isStorySource(d.source)) {
+      errors.push({ field: "source", message: "must be { sessionId, turnIndex, company, question }" });
+    } else story.source = d.source;
+  }
+
+  if (!partial && !errors.length && ![story.situation, story.task, story.action, story.result].some(Boolean)) {
+    errors.push({ field: "action", message: "a story needs at least one of situation, task, action, result" });
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, story };
+}
@@ -0,0 +1,59 @@
+// Voice activity from the mic's loudness, for hands-free turn-taking: noticing the candidate start
+// talking over the interviewer (barge-in) and noticing they've stopped (end of answer).
+
+export type VoiceWatcher = { stop(): void };
+
+const CHECK_MS = 100;
+// loud enough to be a voice close to the mic rather than room noise or echo of the interviewer
+const SPEECH_RMS = 0.04;
+// this many loud checks in a row count as speech, so a cough or a click doesn't
+const SPEECH_CHECKS = 3;
+
+// Watches `stream`, or opens the mic (with echo cancellation) when none is given. onSpeech fires once
+// when speech starts; onSilence once when speech has been heard and then `silenceMs` passes quietly.
+export async function watchVoice(opts: {
+  stream?: MediaStream;
+  onSpeech?: () => void;
+  onSilence?: () => void;
+  silenceMs?: number;
+}): Promise<VoiceWatcher> {
+  const own = !opts.stream;
+  const stream = opts.stream ?? (await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true } }));
+  const ctx = new AudioContext();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  ctx.createMediaStreamSource(stream).connect(analyser);
+  const frame = new Float32Array(analyser.fftSize);
+
+  let loud = 0;
+  let heard = false;
+  let quietSince = 0;
+  let silenced = false;
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(frame);
+    let sum = 0;
+    for (const v of frame) sum += v * v;
+    const speaking = Math.sqrt(sum / frame.length) >= SPEECH_RMS;
+
+    loud = speaking ? loud + 1 : 0;
+    if (loud >= SPEECH_CHECKS && !heard) {
+      heard = true;
+      opts.onSpeech?.();
+    }
+    if (speaking || !heard) {
+      quietSince = Date.now();
+    } else if (!silenced && opts.silenceMs && Date.now() - quietSince >= opts.silenceMs) {
+      silenced = true;
+      opts.onSilence?.();
+    }
+  }, CHECK_MS);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      void ctx.close();
+      if (own) stream.getTracks().forEach((t) => t.stop());
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { fixtureEngine } from "./engine";
+import { encodeWav, readWavHeader, STT_SAMPLE_RATE } from "./wav";
+
+const FIXTURES = path.join(__dirname, "../../fixtures/stt");
+
+async function recording(name: string) {
+  const wav = new Uint8Array(await fs.readFile(path.join(FIXTURES, `${name}.wav`)));
+  const info = readWavHeader(wav);
+  if (!info) throw new Error(`${name}.wav is not a 16-bit PCM WAV`);
+  return { wav, info };
+}
+
+describe("recorded fixtures", () => {
+  it.each(["stakeholder-answer", "rate-limiter-answer"])("%s.wav is 16 kHz mono PCM", async (name) => {
+    const { info } = await recording(name);
+    expect(info.sampleRate).toBe(STT_SAMPLE_RATE);
+    expect(info.channels).toBe(1);
+    expect(info.durationSec).toBeGreaterThan(0.5);
+  });
+});
+
+describe("fixtureEngine", () => {
+  const engine = fixtureEngine(FIXTURES);
+
+  it.each(["stakeholder-answer", "rate-limiter-answer"])("transcribes %s.wav from its saved transcript", async (name) => {
+    const { wav, info } = await recording(name);
+    const expected = (await fs.readFile(path.join(FIXTURES, `${name}.txt`), "utf8")).trim();
+    expect(await engine.transcribe(wav, info)).toBe(expected);
+  });
+
+  it("finds a transcript saved under the recording's hash", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "stt-fixtures-"));
+    try {
+      const wav = new Uint8Array(await encodeWav(new Float32Array(STT_SAMPLE_RATE / 2).fill(0.1), STT_SAMPLE_RATE).arrayBuffer());
+      const hash = createHash("sha256").update(wav).digest("hex");
+      await fs.writeFile(path.join(dir, `${hash}.txt`), "  Hello there.\n");
+
+      expect(await fixtureEngine(dir).transcribe(wav, readWavHeader(wav)!)).toBe("Hello there.");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("404s for a recording with no transcript", async () => {
+    const wav = new Uint8Array(await encodeWav(new Float32Array(1600), STT_SAMPLE_RATE).arrayBuffer());
+    await expect(engine.transcribe(wav, readWavHeader(wav)!)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,104 @@
+import { execFile } from "child_process";
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { STT_SAMPLE_RATE, WavInfo } from "./wav";
+
+// Server-side speech-to-text for browsers without the Web Speech API (Firefox, Safari).
+// Engines get a checked 16-bit PCM WAV and return the transcript.
+export interface SttEngine {
+  readonly name: string;
+  transcribe(wav: Uint8Array, info: WavInfo): Promise<string>;
+}
+
+export class SttError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SttError";
+    this.status = status;
+  }
+}
+
+const WHISPER_TIMEOUT_MS = 120_000;
+
+function sha256(bytes: Uint8Array) {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+// Recorded fixtures for offline runs and tests: the transcript of a recording is <sha256>.txt, or
+// <name>.txt next to a <name>.wav with the same bytes, so saved recordings can keep readable names.
+export function fixtureEngine(dir: string): SttEngine {
+  const read = async (file: string) => {
+    try {
+      return await fs.readFile(path.join(dir, file), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  };
+
+  return {
+    name: "fixture",
+    async transcribe(wav) {
+      const hash = sha256(wav);
+      const direct = await read(`${hash}.txt`);
+      if (direct !== null) return direct.trim();
+
+      const files = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const file of files.filter((f) => f.toLowerCase().endsWith(".wav"))) {
+        if (sha256(await fs.readFile(path.join(dir, file))) !== hash) continue;
+        const text = await read(file.replace(/\.wav$/i, ".txt"));
+        if (text !== null) return text.trim();
+      }
+      throw new SttError(`No fixture transcript for this recording (expected ${hash}.txt)`, 404);
+    },
+  };
+}
+
+// Local whisper.cpp: the recording goes to a temp file and the CLI prints the transcript
+export function whisperEngine(bin: string, model: string): SttEngine {
+  return {
+    name: "whisper",
+    async transcribe(wav, info) {
+      if (info.sampleRate !== STT_SAMPLE_RATE) {
+        throw new SttError(`whisper.cpp needs ${STT_SAMPLE_RATE / 1000} kHz audio, got ${info.sampleRate} Hz`, 415);
+      }
+
+      const file = path.join(os.tmpdir(), `interviewee-${randomUUID()}.wav`);
+      await fs.writeFile(file, wav);
+      try {
+        const stdout = await new Promise<string>((resolve, reject) => {
+          execFile(
+            bin,
+            ["-m", model, "-f", file, "-l", "en", "--no-timestamps", "--no-prints"],
+            { timeout: WHISPER_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 },
+            (err, out) => (err ? reject(err) : resolve(out))
+          );
+        });
+        return stdout.replace(/\s+/g, " ").trim();
+      } catch (err) {
+        const e = err as NodeJS.ErrnoException & { killed?: boolean };
+        if (e.code === "ENOENT") throw new SttError(`whisper.cpp not found (${bin}); set WHISPER_BIN`, 500);
+        if (e.killed) throw new SttError("Transcription took too long", 504);
+        console.error("whisper.cpp failed:", err);
+        throw new SttError("Transcription failed", 502);
+      } finally {
+        await fs.rm(file, { force: true });
+      }
+    },
+  };
+}
+
+// STT_FIXTURES_DIR serves recorded fixtures; WHISPER_MODEL runs whisper.cpp locally
+export function resolveStt(): { ok: true; engine: SttEngine } | { ok: false; error: string } {
+  const fixtures = process.env.STT_FIXTURES_DIR;
+  if (fixtures) return { ok: true, engine: fixtureEngine(fixtures) };
+
+  const model = process.env.WHISPER_MODEL;
+  if (model) return { ok: true, engine: whisperEngine(process.env.WHISPER_BIN || "whisper-cli", model) };
+
+  return { ok: false, error: "Server transcription isn't set up: set WHISPER_MODEL (whisper.cpp) or STT_FIXTURES_DIR" };
+}
@@ -0,0 +1,76 @@
+import type { AnswerTiming } from "@/lib/delivery/types";
+import { timingFromSamples } from "@/lib/delivery/timing";
+import { watchVoice, VoiceWatcher } from "./activity";
+import { encodeWav, STT_SAMPLE_RATE } from "./wav";
+
+// Browser side of server transcription: MediaRecorder captures the mic in whatever container the
+// browser supports (webm/opus, ogg, mp4/aac), which is decoded and resampled to 16 kHz mono WAV.
+
+export type AudioRecording = {
+  // the recording as WAV, with its timing measured from the audio
+  stop(): Promise<{ wav: Blob; timing: AnswerTiming | null }>;
+  cancel(): void;
+};
+
+export function canRecordAudio() {
+  return typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+async function decodeMono(blob: Blob): Promise<Float32Array> {
+  const ctx = new AudioContext();
+  try {
+    const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+    const frames = Math.max(1, Math.ceil(decoded.duration * STT_SAMPLE_RATE));
+    // rendering into a one-channel context at the target rate downmixes and resamples in one pass
+    const offline = new OfflineAudioContext(1, frames, STT_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return (await offline.startRendering()).getChannelData(0);
+  } finally {
+    void ctx.close();
+  }
+}
+
+// Asks for the microphone and starts recording; `onSilence` fires once the speaker has gone quiet
+// for `silenceMs` (hands-free mode ends the answer there)
+export async function recordAudio(opts: { silenceMs?: number; onSilence?: () => void } = {}): Promise<AudioRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  const watcher: VoiceWatcher | null = opts.onSilence
+    ? await watchVoice({ stream, silenceMs: opts.silenceMs, onSilence: opts.onSilence })
+    : null;
+  const release = () => {
+    watcher?.stop();
+    stream.getTracks().forEach((t) => t.stop());
+  };
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () =>
+      new Promise((resolve, reject) => {
+        recorder.onstop = async () => {
+          release();
+          try {
+            if (!chunks.length) throw new Error("Nothing was recorded");
+            const samples = await decodeMono(new Blob(chunks, { type: recorder.mimeType }));
+            resolve({ wav: encodeWav(samples, STT_SAMPLE_RATE), timing: timingFromSamples(samples, STT_SAMPLE_RATE) });
+          } catch (err) {
+            reject(err);
+          }
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state === "inactive") release();
+      else recorder.stop();
+    },
+  };
+}
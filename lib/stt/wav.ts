@@ -0,0 +1,67 @@
+// 16-bit PCM WAV is the one format every speech-to-text engine here reads, so the browser converts
+// whatever MediaRecorder produced before uploading. Shared by the page (encode) and the route (check).
+
+// what whisper.cpp expects
+export const STT_SAMPLE_RATE = 16_000;
+
+export type WavInfo = {
+  sampleRate: number;
+  channels: number;
+  durationSec: number;
+};
+
+// mono float samples in [-1, 1] → 16-bit PCM WAV
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+// null unless the bytes are a 16-bit PCM WAV with a data chunk
+export function readWavHeader(bytes: Uint8Array): WavInfo | null {
+  if (bytes.length < 44) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (ascii(0) !== "RIFF" || ascii(8) !== "WAVE") return null;
+
+  let format: { sampleRate: number; channels: number } | null = null;
+  // chunks can come in any order, and some encoders add LIST/fact chunks before "data"
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const id = ascii(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === "fmt " && size >= 16) {
+      const pcm = view.getUint16(offset + 8, true) === 1 && view.getUint16(offset + 22, true) === 16;
+      if (!pcm) return null;
+      format = { channels: view.getUint16(offset + 10, true), sampleRate: view.getUint32(offset + 12, true) };
+    }
+    if (id === "data") {
+      if (!format || !format.sampleRate || !format.channels) return null;
+      const dataBytes = Math.min(size, bytes.length - offset - 8);
+      return { ...format, durationSec: dataBytes / (format.sampleRate * format.channels * 2) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
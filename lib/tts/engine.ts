@@ -0,0 +1,131 @@
+import { execFile } from "child_process";
+import type { Persona } from "@/lib/interview/style";
+
+// Server-side text-to-speech, so each interviewer persona has one voice whatever browser the
+// candidate uses. Engines return a whole audio clip for one sentence or question.
+export type SpeechRequest = {
+  text: string;
+  persona?: Persona;
+  // 0.5–2 and 0–2, 1 = normal, as in the browser's voice settings
+  rate: number;
+  pitch: number;
+};
+
+export type SpeechAudio = {
+  audio: Uint8Array<ArrayBuffer>;
+  contentType: string;
+};
+
+export interface TtsEngine {
+  readonly name: string;
+  synthesize(req: SpeechRequest): Promise<SpeechAudio>;
+}
+
+export class TtsError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "TtsError";
+    this.status = status;
+  }
+}
+
+const TTS_TIMEOUT_MS = 30_000;
+
+// espeak-ng voice and variant per persona; no persona = the neutral interviewer
+const ESPEAK_VOICES: Record<Persona | "default", string> = {
+  default: "en-us",
+  recruiter: "en-us+f3",
+  hiring_manager: "en-us+m3",
+  bar_raiser: "en-gb+m7",
+  tech_lead: "en-us+m1",
+};
+
+// Local espeak-ng: robotic but fast, offline and on every Linux box
+export function espeakEngine(bin: string): TtsEngine {
+  return {
+    name: "espeak",
+    async synthesize({ text, persona, rate, pitch }) {
+      const args = [
+        "-v",
+        ESPEAK_VOICES[persona ?? "default"],
+        // words per minute (175 is espeak's normal) and pitch 0–99 (50 is normal)
+        "-s",
+        String(Math.round(175 * rate)),
+        "-p",
+        String(Math.min(99, Math.round(50 * pitch))),
+        "--stdout",
+        // everything after "--" is text to speak, even if it starts with "-"
+        "--",
+        text,
+      ];
+      const audio = await new Promise<Buffer>((resolve, reject) => {
+        execFile(bin, args, { encoding: "buffer", timeout: TTS_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 }, (err, out) =>
+          err ? reject(err) : resolve(out)
+        );
+      }).catch((err: NodeJS.ErrnoException & { killed?: boolean }) => {
+        if (err.code === "ENOENT") throw new TtsError(`espeak-ng not found (${bin}); set ESPEAK_BIN`, 500);
+        if (err.killed) throw new TtsError("Speech took too long to generate", 504);
+        console.error("espeak-ng failed:", err);
+        throw new TtsError("Speech generation failed", 502);
+      });
+      return { audio: new Uint8Array(audio), contentType: "audio/wav" };
+    },
+  };
+}
+
+// OpenAI-style voice names, understood by OpenAI and by local servers with the same API
+// (Kokoro-FastAPI, openedai-speech with Piper voices)
+const HTTP_VOICES: Record<Persona | "default", string> = {
+  default: "alloy",
+  recruiter: "nova",
+  hiring_manager: "onyx",
+  bar_raiser: "echo",
+  tech_lead: "fable",
+};
+
+// Any POST /v1/audio/speech endpoint; TTS_URL is the server's base URL
+export function httpEngine(baseUrl: string, opts: { apiKey?: string; model: string }): TtsEngine {
+  return {
+    name: "http",
+    async synthesize({ text, persona, rate }) {
+      let res: Response;
+      try {
+        res = await fetch(`${baseUrl.replace(/\/+$/, "")}/v1/audio/speech`, {
+          method: "POST",
+          signal: AbortSignal.timeout(TTS_TIMEOUT_MS),
+          headers: {
+            "Content-Type": "application/json",
+            ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: opts.model,
+            voice: HTTP_VOICES[persona ?? "default"],
+            input: text,
+            // the API has speed but no pitch
+            speed: rate,
+            response_format: "mp3",
+          }),
+        });
+      } catch (err) {
+        const timedOut = (err as { name?: string })?.name === "TimeoutError";
+        throw new TtsError(timedOut ? "Speech took too long to generate" : "Could not reach the speech server", 502);
+      }
+      if (!res.ok) throw new TtsError(`Speech server returned ${res.status}`, 502);
+      return { audio: new Uint8Array(await res.arrayBuffer()), contentType: res.headers.get("content-type") || "audio/mpeg" };
+    },
+  };
+}
+
+// TTS_URL uses a speech server; TTS_ENGINE=espeak runs espeak-ng locally
+export function resolveTts(): { ok: true; engine: TtsEngine } | { ok: false; error: string } {
+  const url = process.env.TTS_URL;
+  if (url) {
+    return { ok: true, engine: httpEngine(url, { apiKey: process.env.TTS_API_KEY, model: process.env.TTS_MODEL || "tts-1" }) };
+  }
+  if (process.env.TTS_ENGINE === "espeak") {
+    return { ok: true, engine: espeakEngine(process.env.ESPEAK_BIN || "espeak-ng") };
+  }
+  return { ok: false, error: "Server voices aren't set up: set TTS_URL or TTS_ENGINE=espeak" };
+}
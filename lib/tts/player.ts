@@ -0,0 +1,75 @@
+import type { Persona } from "@/lib/interview/style";
+
+// Plays server-voiced sentences one after another, like speechSynthesis does for browser voices.
+// Each clip is requested as soon as it's queued, so the next sentence is ready when this one ends.
+export class ServerVoicePlayer {
+  private queue: Promise<void> = Promise.resolve();
+  private audio: HTMLAudioElement | null = null;
+  // bumped by cancel(); clips queued before it are dropped
+  private generation = 0;
+  private pending = 0;
+
+  constructor(
+    private readonly events: {
+      onStart: () => void;
+      // the queue ran dry
+      onIdle: () => void;
+      onError: (message: string) => void;
+    }
+  ) {}
+
+  // clips still queued or playing
+  get busy() {
+    return this.pending > 0;
+  }
+
+  enqueue(text: string, opts: { persona?: Persona; rate: number; pitch: number }) {
+    const generation = this.generation;
+    const clip = fetch("/api/tts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text, ...opts }),
+    }).then(async (res) => {
+      if (!res.ok) throw new Error((await res.json().catch(() => null))?.error || "Server voice failed");
+      return URL.createObjectURL(await res.blob());
+    });
+    // an error is reported when its turn comes, not while an earlier clip is still playing
+    clip.catch(() => undefined);
+
+    this.pending++;
+    this.queue = this.queue.then(async () => {
+      try {
+        const url = await clip;
+        try {
+          if (generation === this.generation) await this.play(url);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      } catch (err) {
+        if (generation === this.generation) this.events.onError(err instanceof Error ? err.message : "Server voice failed");
+      } finally {
+        this.pending--;
+        if (!this.pending) this.events.onIdle();
+      }
+    });
+  }
+
+  cancel() {
+    this.generation++;
+    this.audio?.pause();
+    // a paused clip never fires "ended"; finish it so the queue moves on
+    this.audio?.dispatchEvent(new Event("ended"));
+    this.audio = null;
+  }
+
+  private play(url: string) {
+    return new Promise<void>((resolve) => {
+      const audio = new Audio(url);
+      this.audio = audio;
+      audio.onplay = () => this.events.onStart();
+      audio.onended = () => resolve();
+      audio.onerror = () => resolve();
+      audio.play().catch(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,74 @@
+// How the interviewer's questions are read aloud. Kept in the browser's localStorage, so each
+// user gets their own voice on every interview without an account.
+export type VoiceSettings = {
+  // "server" reads with /api/tts in the persona's voice, the same in every browser
+  engine: "browser" | "server";
+  // a speechSynthesis voice's voiceURI; null = the browser's default
+  voiceURI: string | null;
+  // 0.5–2, 1 = normal
+  rate: number;
+  // 0–2, 1 = normal
+  pitch: number;
+  // "summary" reads the opening sentences of each question, "full" the whole thing
+  reading: "summary" | "full";
+  // the mic opens when the interviewer stops, and this much silence ends and submits the answer
+  handsFree: boolean;
+  silenceSec: number;
+  // barge-in only with headphones: speakers play the interviewer back into the mic, and echo
+  // cancellation doesn't reliably remove speechSynthesis output
+  headphones: boolean;
+};
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  engine: "browser",
+  voiceURI: null,
+  rate: 1,
+  pitch: 1,
+  reading: "summary",
+  handsFree: false,
+  silenceSec: 4,
+  headphones: false,
+};
+
+export const RATE_RANGE = { min: 0.5, max: 2 };
+export const PITCH_RANGE = { min: 0, max: 2 };
+// shorter than a long pause (LONG_PAUSE_MS) would cut off anyone who stops to think
+export const SILENCE_RANGE = { min: 3, max: 10 };
+
+const STORAGE_KEY = "interviewee_voice";
+
+function clamp(n: unknown, range: { min: number; max: number }, fallback: number) {
+  return typeof n === "number" && Number.isFinite(n) ? Math.min(range.max, Math.max(range.min, n)) : fallback;
+}
+
+// Fills in defaults for anything missing or out of range, so old or hand-edited settings still load
+export function normalizeVoiceSettings(value: unknown): VoiceSettings {
+  const v = (value ?? {}) as Partial<VoiceSettings>;
+  return {
+    engine: v.engine === "server" ? "server" : "browser",
+    voiceURI: typeof v.voiceURI === "string" && v.voiceURI ? v.voiceURI : null,
+    rate: clamp(v.rate, RATE_RANGE, DEFAULT_VOICE_SETTINGS.rate),
+    pitch: clamp(v.pitch, PITCH_RANGE, DEFAULT_VOICE_SETTINGS.pitch),
+    reading: v.reading === "full" ? "full" : "summary",
+    handsFree: v.handsFree === true,
+    silenceSec: clamp(v.silenceSec, SILENCE_RANGE, DEFAULT_VOICE_SETTINGS.silenceSec),
+    headphones: v.headphones === true,
+  };
+}
+
+export function loadVoiceSettings(): VoiceSettings {
+  if (typeof window === "undefined") return DEFAULT_VOICE_SETTINGS;
+  try {
+    return normalizeVoiceSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || "null"));
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+export function saveVoiceSettings(settings: VoiceSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // private browsing or storage full: settings last for this visit only
+  }
+}
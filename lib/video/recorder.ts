@@ -0,0 +1,53 @@
+// Webcam capture for answer clips. The camera stays open for the whole interview (so the preview
+// doesn't flicker between answers); each answer is its own MediaRecorder clip on that stream.
+
+export type VideoClip = {
+  stop(): Promise<{ video: Blob; durationMs: number }>;
+  cancel(): void;
+};
+
+// VP9/Opus where supported (Chrome, Firefox), otherwise whatever the browser records (Safari: mp4)
+const PREFERRED_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm", "video/mp4"];
+
+export function canRecordVideo() {
+  return typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// Small and low-bitrate: this is for reviewing posture and eye contact, not for publishing
+export async function openCamera(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: { width: { ideal: 640 }, height: { ideal: 360 }, facingMode: "user" },
+    audio: { echoCancellation: true },
+  });
+}
+
+export function closeCamera(stream: MediaStream | null) {
+  stream?.getTracks().forEach((t) => t.stop());
+}
+
+export function recordClip(stream: MediaStream): VideoClip {
+  const mimeType = PREFERRED_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, { ...(mimeType ? { mimeType } : {}), videoBitsPerSecond: 600_000 });
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () =>
+      new Promise((resolve, reject) => {
+        recorder.onstop = () => {
+          if (!chunks.length) reject(new Error("Nothing was recorded"));
+          else resolve({ video: new Blob(chunks, { type: recorder.mimeType }), durationMs: Date.now() - startedAt });
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== "inactive") recorder.stop();
+    },
+  };
+}
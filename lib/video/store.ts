@@ -0,0 +1,65 @@
+// Webcam recordings of answers, kept in the browser's IndexedDB and never uploaded. One clip per
+// answer, keyed by the session and the index of the candidate Turn it shows.
+
+export type AnswerClip = {
+  sessionId: string;
+  turnIndex: number;
+  // the interviewer turn the answer responds to, for the review list
+  question: string;
+  video: Blob;
+  durationMs: number;
+  recordedAt: string;
+};
+
+const DB_NAME = "interviewee";
+const DB_VERSION = 1;
+const STORE = "answer_clips";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: ["sessionId", "turnIndex"] });
+      store.createIndex("sessionId", "sessionId");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Runs one request in its own transaction and closes the connection afterwards
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function canStoreClips() {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+// Re-recording an answer replaces its clip
+export async function saveClip(clip: AnswerClip): Promise<void> {
+  await withStore("readwrite", (store) => store.put(clip));
+}
+
+// The session's clips in transcript order
+export async function listClips(sessionId: string): Promise<AnswerClip[]> {
+  const clips = await withStore<AnswerClip[]>("readonly", (store) => store.index("sessionId").getAll(sessionId));
+  return clips.sort((a, b) => a.turnIndex - b.turnIndex);
+}
+
+export async function deleteClips(sessionId: string): Promise<void> {
+  await withStore("readwrite", (store) =>
+    store.delete(IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]))
+  );
+}
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // the compiler is only used to strip types from coding answers; load it from node_modules
+  serverExternalPackages: ["typescript"],
 };
 
 export default nextConfig;